@@ -0,0 +1,96 @@
+import { OperationAbortedError } from "./errors.js";
+import type { OperationPhase } from "./types.js";
+
+/**
+ * Converts an aborted signal's reason into an {@link OperationAbortedError},
+ * keeping the phase of the innermost step that was interrupted.
+ */
+export function abortError(
+  signal: AbortSignal,
+  phase?: OperationPhase
+): OperationAbortedError {
+  const reason: unknown = signal.reason;
+  if (reason instanceof OperationAbortedError) return reason;
+  return new OperationAbortedError(
+    phase ? `Operation aborted during ${phase}` : "Operation aborted",
+    { phase, cause: reason }
+  );
+}
+
+export function throwIfAborted(
+  signal: AbortSignal | undefined,
+  phase?: OperationPhase
+): void {
+  if (signal?.aborted) throw abortError(signal, phase);
+}
+
+/**
+ * Settles like `promise`, but rejects as soon as `signal` aborts. Used for
+ * work that can't be cancelled (e.g. opening a store), so callers stop
+ * waiting even though the underlying request runs to completion.
+ */
+export function raceAbort<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  phase?: OperationPhase
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(abortError(signal, phase));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal, phase));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Runs one phase of an operation under the caller's `signal` and an optional
+ * timeout. `task` receives a signal that aborts on either; if it fires, the
+ * phase rejects with {@link OperationAbortedError} whether or not `task`
+ * honours the signal.
+ */
+export async function withPhase<T>(
+  phase: OperationPhase,
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+  task: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  throwIfAborted(signal, phase);
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(abortError(signal!, phase));
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timer =
+    timeoutMs !== undefined && Number.isFinite(timeoutMs)
+      ? setTimeout(
+          () =>
+            controller.abort(
+              new OperationAbortedError(
+                `The ${phase} phase timed out after ${timeoutMs}ms`,
+                { phase, timedOut: true }
+              )
+            ),
+          timeoutMs
+        )
+      : undefined;
+
+  try {
+    return await raceAbort(
+      Promise.resolve().then(() => task(controller.signal)),
+      controller.signal,
+      phase
+    );
+  } catch (error) {
+    // The task may fail with its own error once its requests are cancelled.
+    if (controller.signal.aborted) throw abortError(controller.signal, phase);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Area-weighted reduction of a dataset's latitude/longitude dimensions
+ */
+
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import { fromNested, groupAlongAxes, stridesOf, toNested } from "../math/ndarray.js";
+import { cosLatitudeWeight, reduceValues } from "../math/statistics.js";
+import type { SpatialAggregationOptions } from "../types.js";
+
+/**
+ * Collapses the latitude and longitude dimensions of every data variable,
+ * leaving the other dimensions (usually time) in place. NaNs are skipped.
+ * Variables without spatial dimensions are kept unchanged.
+ *
+ * @param dataset - The jaxray Dataset to aggregate
+ * @param options - Configuration options
+ * @param options.method - "mean", "sum", "min", "max" or "std" (default: "mean")
+ * @param options.weights - "cos-lat" or "none", used by "mean" and "std" (default: "cos-lat")
+ * @param options.latitudeKey - Name of latitude coordinate (default: "latitude")
+ * @param options.longitudeKey - Name of longitude coordinate (default: "longitude")
+ * @returns A new Dataset without the latitude and longitude dimensions
+ * @throws InvalidSelectionError if neither coordinate is found
+ *
+ * @example
+ * ```typescript
+ * const region = await rectangle(data, 40.0, -75.0, 41.0, -74.0);
+ * // Regional mean time series, weighted by cell area
+ * const series = await aggregateSpatial(region, { method: "mean" });
+ * ```
+ */
+export async function aggregateSpatial(
+  dataset: Dataset,
+  options: SpatialAggregationOptions = {}
+): Promise<Dataset> {
+  const {
+    method = "mean",
+    weights = "cos-lat",
+    latitudeKey = "latitude",
+    longitudeKey = "longitude",
+  } = options;
+
+  const coords = dataset.coords;
+  if (!coords[latitudeKey] && !coords[longitudeKey]) {
+    throw new InvalidSelectionError(
+      `Latitude (${latitudeKey}) and/or longitude (${longitudeKey}) coordinates not found in dataset`
+    );
+  }
+
+  const latitudes = (coords[latitudeKey] ?? []).map((value: unknown) => Number(value));
+  const aggregated: Record<string, DataArray> = {};
+
+  for (const name of dataset.dataVars) {
+    const variable = await dataset.getVariable(name).compute();
+    const dims = [...variable.dims];
+    const spatialDims = dims.filter((dim) => dim === latitudeKey || dim === longitudeKey);
+    if (spatialDims.length === 0) {
+      aggregated[name] = variable;
+      continue;
+    }
+
+    const array = fromNested(variable.data, dims.length);
+    const latAxis = dims.indexOf(latitudeKey);
+    const keptDims = dims.filter((dim) => !spatialDims.includes(dim));
+    const keptAxes = keptDims.map((dim) => dims.indexOf(dim));
+    const { shape, groups } = groupAlongAxes(array.shape, keptAxes);
+
+    const latStride = latAxis === -1 ? 1 : stridesOf(array.shape)[latAxis];
+    const cellWeight =
+      weights === "cos-lat" && latAxis !== -1
+        ? (index: number) =>
+            cosLatitudeWeight(latitudes[Math.floor(index / latStride) % array.shape[latAxis]])
+        : undefined;
+
+    const values = groups.map((group) =>
+      reduceValues(
+        group.map((index) => array.values[index]),
+        method,
+        cellWeight ? group.map(cellWeight) : undefined
+      )
+    );
+
+    const attrs = { ...variable.attrs };
+    attrs.cell_methods = [attrs.cell_methods, `${spatialDims.join(": ")}: ${method}`]
+      .filter(Boolean)
+      .join(" ");
+
+    aggregated[name] = new DataArray(toNested(values, shape), {
+      dims: keptDims,
+      coords: Object.fromEntries(
+        keptDims
+          .filter((dim) => variable.coords[dim] !== undefined)
+          .map((dim) => [dim, variable.coords[dim]])
+      ),
+      attrs,
+    });
+  }
+
+  return new Dataset(aggregated, { attrs: dataset.attrs });
+}
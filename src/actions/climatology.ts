@@ -0,0 +1,257 @@
+/**
+ * Climatological normals and departures from them
+ */
+
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import { fromNested, stridesOf, toNested } from "../math/ndarray.js";
+import { seasonalCycleIndex, seasonalCycleLabels, toEpochMs } from "../math/periods.js";
+import { reduceValues } from "../math/statistics.js";
+import type { ClimatologyGroup, ClimatologyOptions, TimeRange } from "../types.js";
+
+const GROUP_DIMENSIONS: ClimatologyGroup[] = ["dayofyear", "month", "season"];
+
+function readTimes(dataset: Dataset, dimension: string): number[] {
+  const timeCoords = dataset.coords[dimension];
+  if (!Array.isArray(timeCoords) || timeCoords.length === 0) {
+    throw new InvalidSelectionError(`Coordinate "${dimension}" not found in dataset.`);
+  }
+  const times = timeCoords.map(toEpochMs);
+  const invalid = times.findIndex((time) => Number.isNaN(time));
+  if (invalid !== -1) {
+    throw new InvalidSelectionError(
+      `Unable to read "${String(timeCoords[invalid])}" on "${dimension}" as a time.`
+    );
+  }
+  return times;
+}
+
+function baselineLabel({ start, end }: TimeRange): string {
+  const iso = (value: Date | string) => new Date(value).toISOString();
+  return `${iso(start)}/${iso(end)}`;
+}
+
+/**
+ * Averages every data variable over the baseline period per day of year,
+ * month or season, replacing the time dimension with a `dayofyear`, `month`
+ * or `season` dimension. NaNs are skipped; groups without data are NaN.
+ *
+ * Days of year follow a 365-day calendar, so 1 March is day 60 in every year
+ * and 29 February counts towards day 59 (28 February).
+ *
+ * @param dataset - The jaxray Dataset to average
+ * @param options - Configuration options
+ * @param options.baseline - Time range the normals are computed over
+ * @param options.groupBy - "dayofyear", "month" or "season"
+ * @param options.dimension - Name of the time dimension (default: "time")
+ * @returns A new Dataset of normals
+ * @throws InvalidSelectionError if the time coordinate is invalid or the baseline holds no data
+ *
+ * @example
+ * ```typescript
+ * const data = await Dataset.open_zarr(store);
+ * const normals = await climatology(data, {
+ *   baseline: { start: "1991-01-01", end: "2020-12-31" },
+ *   groupBy: "month",
+ * });
+ * ```
+ */
+export async function climatology(
+  dataset: Dataset,
+  options: ClimatologyOptions
+): Promise<Dataset> {
+  const { baseline, groupBy, dimension = "time" } = options;
+  if (!GROUP_DIMENSIONS.includes(groupBy)) {
+    throw new InvalidSelectionError(
+      `Unsupported climatology grouping "${groupBy}". Use "dayofyear", "month" or "season".`
+    );
+  }
+
+  const times = readTimes(dataset, dimension);
+  const start = toEpochMs(baseline.start);
+  const end = toEpochMs(baseline.end);
+  if (Number.isNaN(start) || Number.isNaN(end) || start > end) {
+    throw new InvalidSelectionError("The climatology baseline needs a valid start before its end.");
+  }
+
+  const labels = seasonalCycleLabels(groupBy);
+  const groupOf = times.map((time) =>
+    time >= start && time <= end ? seasonalCycleIndex(time, groupBy) : -1
+  );
+  if (groupOf.every((group) => group === -1)) {
+    throw new InvalidSelectionError("No time steps fall within the climatology baseline.");
+  }
+
+  const normals: Record<string, DataArray> = {};
+
+  for (const name of dataset.dataVars) {
+    const variable = await dataset.getVariable(name).compute();
+    const dims = [...variable.dims];
+    const timeAxis = dims.indexOf(dimension);
+    if (timeAxis === -1) {
+      normals[name] = variable;
+      continue;
+    }
+
+    const array = fromNested(variable.data, dims.length);
+    const length = array.shape[timeAxis];
+    const stride = stridesOf(array.shape)[timeAxis];
+    const outer = array.values.length / (length * stride);
+    const shape = [...array.shape];
+    shape[timeAxis] = labels.length;
+
+    const buckets: number[][] = Array.from({ length: outer * labels.length * stride }, () => []);
+    for (let before = 0; before < outer; before++) {
+      for (let timeIndex = 0; timeIndex < length; timeIndex++) {
+        const group = groupOf[timeIndex];
+        if (group === -1) continue;
+        for (let after = 0; after < stride; after++) {
+          buckets[(before * labels.length + group) * stride + after].push(
+            array.values[(before * length + timeIndex) * stride + after]
+          );
+        }
+      }
+    }
+
+    const outputDims = dims.map((dim) => (dim === dimension ? groupBy : dim));
+    const attrs: Record<string, unknown> = { ...variable.attrs };
+    attrs.cell_methods = [
+      attrs.cell_methods,
+      `${dimension}: mean within years ${dimension}: mean over years`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    attrs.climatology_baseline = baselineLabel(baseline);
+
+    normals[name] = new DataArray(
+      toNested(
+        buckets.map((bucket) => reduceValues(bucket, "mean")),
+        shape
+      ),
+      {
+        dims: outputDims,
+        coords: Object.fromEntries(
+          dims
+            .filter((dim) => variable.coords[dim] !== undefined)
+            .map((dim) =>
+              dim === dimension ? [groupBy, labels] : [dim, variable.coords[dim]]
+            )
+        ),
+        attrs,
+      }
+    );
+  }
+
+  return new Dataset(normals, { attrs: dataset.attrs });
+}
+
+/**
+ * Subtracts climatological normals from every data variable, matching each
+ * time step to its day of year, month or season. The climatology must come
+ * from `climatology` on the same grid, but may be computed from a different
+ * variant or CID.
+ *
+ * @param dataset - The jaxray Dataset to compare with normal
+ * @param normals - Dataset returned by `climatology`
+ * @param options - Configuration options
+ * @param options.mode - "absolute" or "percent" of normal (default: "absolute")
+ * @param options.dimension - Name of the time dimension (default: "time")
+ * @returns A new Dataset of departures from normal
+ * @throws InvalidSelectionError if a variable is missing from the climatology or the grids differ
+ *
+ * @example
+ * ```typescript
+ * const wetter = await anomaly(thisMonth, normals, { mode: "percent" });
+ * ```
+ */
+export async function anomaly(
+  dataset: Dataset,
+  normals: Dataset,
+  options: { mode?: "absolute" | "percent"; dimension?: string } = {}
+): Promise<Dataset> {
+  const { mode = "absolute", dimension = "time" } = options;
+  const times = readTimes(dataset, dimension);
+  const departures: Record<string, DataArray> = {};
+
+  for (const name of dataset.dataVars) {
+    const variable = await dataset.getVariable(name).compute();
+    const dims = [...variable.dims];
+    const timeAxis = dims.indexOf(dimension);
+    if (timeAxis === -1) {
+      departures[name] = variable;
+      continue;
+    }
+
+    if (!normals.dataVars.includes(name)) {
+      throw new InvalidSelectionError(`Variable "${name}" not found in the climatology.`, {
+        code: "VARIABLE_NOT_FOUND",
+      });
+    }
+    const normal = await normals.getVariable(name).compute();
+    const groupBy = GROUP_DIMENSIONS.find((group) => normal.dims.includes(group));
+    const expectedDims = groupBy
+      ? dims.map((dim) => (dim === dimension ? groupBy : dim))
+      : [];
+    if (!groupBy || normal.dims.join() !== expectedDims.join()) {
+      throw new InvalidSelectionError(
+        `The climatology of "${name}" has dimensions (${normal.dims.join(", ")}); expected (${dims.join(", ")}) with "${dimension}" grouped by dayofyear, month or season.`
+      );
+    }
+
+    const array = fromNested(variable.data, dims.length);
+    const normalArray = fromNested(normal.data, dims.length);
+    const groups = seasonalCycleLabels(groupBy).length;
+    const mismatch = array.shape.some(
+      (size, axis) => axis !== timeAxis && size !== normalArray.shape[axis]
+    );
+    if (mismatch || normalArray.shape[timeAxis] !== groups) {
+      throw new InvalidSelectionError(
+        `The climatology of "${name}" is on a different grid than the dataset.`
+      );
+    }
+
+    const length = array.shape[timeAxis];
+    const stride = stridesOf(array.shape)[timeAxis];
+    const outer = array.values.length / (length * stride);
+    const groupOf = times.map((time) => seasonalCycleIndex(time, groupBy));
+    const values = new Array<number>(array.values.length);
+
+    for (let before = 0; before < outer; before++) {
+      for (let timeIndex = 0; timeIndex < length; timeIndex++) {
+        for (let after = 0; after < stride; after++) {
+          const index = (before * length + timeIndex) * stride + after;
+          const reference =
+            normalArray.values[(before * groups + groupOf[timeIndex]) * stride + after];
+          const departure = array.values[index] - reference;
+          values[index] =
+            mode === "percent"
+              ? reference === 0
+                ? NaN
+                : (100 * departure) / reference
+              : departure;
+        }
+      }
+    }
+
+    const attrs: Record<string, unknown> = { ...variable.attrs };
+    attrs.anomaly = mode;
+    if (normal.attrs.climatology_baseline !== undefined) {
+      attrs.climatology_baseline = normal.attrs.climatology_baseline;
+    }
+    if (mode === "percent") {
+      attrs.units = "%";
+    }
+
+    departures[name] = new DataArray(toNested(values, array.shape), {
+      dims,
+      coords: Object.fromEntries(
+        dims
+          .filter((dim) => variable.coords[dim] !== undefined)
+          .map((dim) => [dim, variable.coords[dim]])
+      ),
+      attrs,
+    });
+  }
+
+  return new Dataset(departures, { attrs: dataset.attrs });
+}
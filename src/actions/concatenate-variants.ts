@@ -5,6 +5,7 @@
 
 import { Dataset } from "@dclimate/jaxray";
 import type { ConcatenableStacItem } from "../stac/index.js";
+import { DClimateClientError } from "../errors.js";
 
 export interface VariantToLoad {
   variant: ConcatenableStacItem;
@@ -24,7 +25,9 @@ export async function concatenateVariants(
   variants: VariantToLoad[]
 ): Promise<Dataset> {
   if (variants.length === 0) {
-    throw new Error("Cannot concatenate empty variants array");
+    throw new DClimateClientError("Cannot concatenate empty variants array", {
+      code: "CONCATENATION_FAILED",
+    });
   }
 
   if (variants.length === 1) {
@@ -52,8 +55,9 @@ export async function concatenateVariants(
     // Get the last coordinate value from the combined dataset
     const combinedCoords = combined.coords[concatDim];
     if (!combinedCoords || combinedCoords.length === 0) {
-      throw new Error(
-        `Combined dataset has no coordinates for dimension '${concatDim}'`
+      throw new DClimateClientError(
+        `Combined dataset has no coordinates for dimension '${concatDim}'`,
+        { code: "CONCATENATION_FAILED" }
       );
     }
 
@@ -62,8 +66,9 @@ export async function concatenateVariants(
     // Get coordinates from the next dataset
     const nextCoords = nextDataset.coords[concatDim];
     if (!nextCoords || nextCoords.length === 0) {
-      throw new Error(
-        `Variant '${nextVariant.variant.variant}' has no coordinates for dimension '${concatDim}'`
+      throw new DClimateClientError(
+        `Variant '${nextVariant.variant.variant}' has no coordinates for dimension '${concatDim}'`,
+        { code: "CONCATENATION_FAILED", context: { variant: nextVariant.variant.variant } }
       );
     }
 
@@ -0,0 +1,170 @@
+/**
+ * Quantiles and percentile ranks along one dimension, per grid cell
+ */
+
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import { fromNested, groupAlongAxes, toNested } from "../math/ndarray.js";
+import {
+  percentileRankOfSorted,
+  quantileOfSorted,
+  sortedValid,
+} from "../math/statistics.js";
+
+/**
+ * Sorts the valid values of every variable along `dim`, once per remaining
+ * element, and builds each output variable from them.
+ */
+async function reduceAlong(
+  dataset: Dataset,
+  dim: string,
+  reduce: (
+    variable: DataArray,
+    sorted: number[][],
+    keptDims: string[],
+    keptShape: number[]
+  ) => DataArray
+): Promise<Dataset> {
+  if (!dataset.coords[dim] && !Object.keys(dataset.sizes).includes(dim)) {
+    throw new InvalidSelectionError(`Dimension "${dim}" not found in dataset.`);
+  }
+
+  const reduced: Record<string, DataArray> = {};
+  for (const name of dataset.dataVars) {
+    const variable = await dataset.getVariable(name).compute();
+    const dims = [...variable.dims];
+    if (!dims.includes(dim)) {
+      reduced[name] = variable;
+      continue;
+    }
+
+    const array = fromNested(variable.data, dims.length);
+    const keptDims = dims.filter((d) => d !== dim);
+    const { shape, groups } = groupAlongAxes(
+      array.shape,
+      keptDims.map((d) => dims.indexOf(d))
+    );
+    const sorted = groups.map((group) =>
+      sortedValid(group.map((index) => array.values[index]))
+    );
+    reduced[name] = reduce(variable, sorted, keptDims, shape);
+  }
+  return new Dataset(reduced, { attrs: dataset.attrs });
+}
+
+function keptCoords(variable: DataArray, keptDims: string[]): Record<string, unknown[]> {
+  return Object.fromEntries(
+    keptDims
+      .filter((dim) => variable.coords[dim] !== undefined)
+      .map((dim) => [dim, variable.coords[dim]])
+  );
+}
+
+/**
+ * Computes quantiles of every data variable along `dim`, per remaining
+ * element (usually per grid cell across time). NaNs are skipped, and cells
+ * without valid values yield NaN. Quantiles interpolate linearly between
+ * neighbouring values, as NumPy and xarray do by default.
+ *
+ * A single `q` removes `dim`; an array of them replaces it with a leading
+ * `quantile` dimension.
+ *
+ * @param dataset - The jaxray Dataset to summarise
+ * @param q - Quantile or quantiles between 0 and 1
+ * @param options - Configuration options
+ * @param options.dim - Dimension to reduce (default: "time")
+ * @returns A new Dataset of quantiles
+ * @throws InvalidSelectionError if `q` is outside 0–1 or the dimension is missing
+ *
+ * @example
+ * ```typescript
+ * const data = await Dataset.open_zarr(store);
+ * // Extreme thresholds per grid cell
+ * const thresholds = await quantile(data, [0.9, 0.95, 0.99]);
+ * ```
+ */
+export async function quantile(
+  dataset: Dataset,
+  q: number | number[],
+  options: { dim?: string } = {}
+): Promise<Dataset> {
+  const { dim = "time" } = options;
+  const quantiles = Array.isArray(q) ? q : [q];
+  if (
+    quantiles.length === 0 ||
+    quantiles.some((value) => !(value >= 0 && value <= 1))
+  ) {
+    throw new InvalidSelectionError("Quantiles must be numbers between 0 and 1.");
+  }
+
+  return reduceAlong(dataset, dim, (variable, sorted, keptDims, keptShape) => {
+    const attrs: Record<string, unknown> = { ...variable.attrs };
+    attrs.cell_methods = [attrs.cell_methods, `${dim}: quantile`].filter(Boolean).join(" ");
+
+    if (!Array.isArray(q)) {
+      attrs.quantile = q;
+      return new DataArray(
+        toNested(
+          sorted.map((values) => quantileOfSorted(values, q)),
+          keptShape
+        ),
+        { dims: keptDims, coords: keptCoords(variable, keptDims), attrs }
+      );
+    }
+
+    return new DataArray(
+      toNested(
+        quantiles.flatMap((value) => sorted.map((values) => quantileOfSorted(values, value))),
+        [quantiles.length, ...keptShape]
+      ),
+      {
+        dims: ["quantile", ...keptDims],
+        coords: { quantile: quantiles, ...keptCoords(variable, keptDims) },
+        attrs,
+      }
+    );
+  });
+}
+
+/**
+ * Ranks `value` within every data variable along `dim`, per remaining
+ * element: the percentage (0–100) of valid values at or below it. NaNs are
+ * skipped, and cells without valid values yield NaN.
+ *
+ * @param dataset - The jaxray Dataset whose values form the distribution
+ * @param value - Value to rank, in the variables' units
+ * @param options - Configuration options
+ * @param options.dim - Dimension to reduce (default: "time")
+ * @returns A new Dataset of percentile ranks without `dim`
+ * @throws InvalidSelectionError if the dimension is missing
+ *
+ * @example
+ * ```typescript
+ * const data = await Dataset.open_zarr(store);
+ * // How unusual is 50 mm of daily rain at each cell?
+ * const rank = await percentileRank(data, 50);
+ * ```
+ */
+export async function percentileRank(
+  dataset: Dataset,
+  value: number,
+  options: { dim?: string } = {}
+): Promise<Dataset> {
+  const { dim = "time" } = options;
+  if (typeof value !== "number") {
+    throw new InvalidSelectionError("The value to rank must be a number.");
+  }
+
+  return reduceAlong(dataset, dim, (variable, sorted, keptDims, keptShape) => {
+    const attrs: Record<string, unknown> = { ...variable.attrs };
+    attrs.units = "%";
+    attrs.percentile_rank_of = value;
+    return new DataArray(
+      toNested(
+        sorted.map((values) => percentileRankOfSorted(values, value)),
+        keptShape
+      ),
+      { dims: keptDims, coords: keptCoords(variable, keptDims), attrs }
+    );
+  });
+}
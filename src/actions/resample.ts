@@ -0,0 +1,177 @@
+/**
+ * Temporal resampling of a dataset to a coarser (or finer) frequency
+ */
+
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import { fromNested, stridesOf, toNested } from "../math/ndarray.js";
+import {
+  nextPeriodStart,
+  parseFrequency,
+  periodStart,
+  samplingInterval,
+  toEpochMs,
+} from "../math/periods.js";
+import { reduceValues } from "../math/statistics.js";
+import type { ResampleMethod, ResampleOptions } from "../types.js";
+
+/** A period label in the same representation as the source coordinate. */
+function toLabel(time: number, sample: unknown): Date | string | number {
+  if (typeof sample === "number") return time;
+  if (typeof sample === "string") return new Date(time).toISOString();
+  return new Date(time);
+}
+
+function reduceBucket(values: number[], method: ResampleMethod): number {
+  if (method === "first" || method === "last") {
+    const valid = values.filter((value) => !Number.isNaN(value));
+    if (valid.length === 0) return NaN;
+    return method === "first" ? valid[0] : valid[valid.length - 1];
+  }
+  return reduceValues(values, method);
+}
+
+/**
+ * Resamples every data variable along its time dimension. Periods are
+ * aligned to UTC calendar boundaries (days at midnight, weeks on Monday,
+ * months and years on their first day) and labelled by their start.
+ *
+ * A period is partial when it holds fewer time steps than the data's usual
+ * spacing would fit, e.g. the first day of hourly data that starts at noon.
+ * Partial periods are kept and listed in each variable's `partial_periods`
+ * attribute, or dropped with `partial: "drop"`.
+ *
+ * @param dataset - The jaxray Dataset to resample
+ * @param options - Configuration options
+ * @param options.frequency - Target frequency, e.g. "1D", "1M" or "PT6H"
+ * @param options.method - "mean", "sum", "min", "max", "first" or "last" (default: "mean")
+ * @param options.partial - "keep" or "drop" partial periods (default: "keep")
+ * @param options.dimension - Name of the time dimension (default: "time")
+ * @returns A new Dataset with one time step per period
+ * @throws InvalidSelectionError if the frequency or the time coordinate is invalid
+ *
+ * @example
+ * ```typescript
+ * const data = await Dataset.open_zarr(store);
+ * // Hourly precipitation to daily totals
+ * const daily = await resample(data, { frequency: "1D", method: "sum" });
+ * ```
+ */
+export async function resample(
+  dataset: Dataset,
+  options: ResampleOptions
+): Promise<Dataset> {
+  const { method = "mean", partial = "keep", dimension = "time" } = options;
+  const frequency = parseFrequency(options.frequency);
+
+  const timeCoords = dataset.coords[dimension];
+  if (!Array.isArray(timeCoords) || timeCoords.length === 0) {
+    throw new InvalidSelectionError(`Coordinate "${dimension}" not found in dataset.`);
+  }
+
+  const times = timeCoords.map(toEpochMs);
+  const invalid = times.findIndex((time) => Number.isNaN(time));
+  if (invalid !== -1) {
+    throw new InvalidSelectionError(
+      `Unable to read "${String(timeCoords[invalid])}" on "${dimension}" as a time.`
+    );
+  }
+
+  // Visit time steps in chronological order so "first"/"last" are well defined.
+  const order = times.map((_, index) => index).sort((a, b) => times[a] - times[b]);
+  const sortedTimes = order.map((index) => times[index]);
+
+  const starts: number[] = [];
+  const lastStart = periodStart(sortedTimes[sortedTimes.length - 1], frequency);
+  for (
+    let start = periodStart(sortedTimes[0], frequency);
+    start <= lastStart;
+    start = nextPeriodStart(start, frequency)
+  ) {
+    starts.push(start);
+  }
+  const periodIndex = new Map(starts.map((start, index) => [start, index]));
+  const periodOf = times.map((time) => periodIndex.get(periodStart(time, frequency))!);
+
+  const counts = new Array<number>(starts.length).fill(0);
+  periodOf.forEach((period) => counts[period]++);
+  const step = samplingInterval(sortedTimes);
+  const isPartial = starts.map(
+    (start, period) =>
+      step !== undefined &&
+      counts[period] < Math.floor((nextPeriodStart(start, frequency) - start) / step)
+  );
+
+  const kept = starts
+    .map((_, period) => period)
+    .filter((period) => partial === "keep" || !isPartial[period]);
+  const outputPosition = new Array<number>(starts.length).fill(-1);
+  kept.forEach((period, position) => (outputPosition[period] = position));
+
+  const sample = timeCoords[0];
+  const labels = kept.map((period) => toLabel(starts[period], sample));
+  const partialLabels = kept
+    .filter((period) => isPartial[period])
+    .map((period) => new Date(starts[period]).toISOString());
+
+  const resampled: Record<string, DataArray> = {};
+
+  for (const name of dataset.dataVars) {
+    const variable = await dataset.getVariable(name).compute();
+    const dims = [...variable.dims];
+    const timeAxis = dims.indexOf(dimension);
+    if (timeAxis === -1) {
+      resampled[name] = variable;
+      continue;
+    }
+
+    const array = fromNested(variable.data, dims.length);
+    const length = array.shape[timeAxis];
+    const stride = stridesOf(array.shape)[timeAxis];
+    const outer = array.values.length / (length * stride);
+    const shape = [...array.shape];
+    shape[timeAxis] = kept.length;
+
+    const buckets: number[][] = Array.from(
+      { length: outer * kept.length * stride },
+      () => []
+    );
+    for (let before = 0; before < outer; before++) {
+      for (const timeIndex of order) {
+        const position = outputPosition[periodOf[timeIndex]];
+        if (position === -1) continue;
+        for (let after = 0; after < stride; after++) {
+          buckets[(before * kept.length + position) * stride + after].push(
+            array.values[(before * length + timeIndex) * stride + after]
+          );
+        }
+      }
+    }
+
+    const attrs: Record<string, unknown> = { ...variable.attrs };
+    attrs.cell_methods = [attrs.cell_methods, `${dimension}: ${method}`]
+      .filter(Boolean)
+      .join(" ");
+    if (partialLabels.length > 0) {
+      attrs.partial_periods = partialLabels;
+    }
+
+    resampled[name] = new DataArray(
+      toNested(
+        buckets.map((bucket) => reduceBucket(bucket, method)),
+        shape
+      ),
+      {
+        dims,
+        coords: Object.fromEntries(
+          dims
+            .filter((dim) => variable.coords[dim] !== undefined)
+            .map((dim) => [dim, dim === dimension ? labels : variable.coords[dim]])
+        ),
+        attrs,
+      }
+    );
+  }
+
+  return new Dataset(resampled, { attrs: dataset.attrs });
+}
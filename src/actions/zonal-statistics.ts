@@ -0,0 +1,229 @@
+/**
+ * Per-feature statistics over a GeoJSON FeatureCollection
+ */
+
+import { Dataset } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import { polygonCells, polygonsOf, type PolygonCells } from "../math/geometry.js";
+import { fromNested, stridesOf } from "../math/ndarray.js";
+import { reduceValues } from "../math/statistics.js";
+import type {
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+  ZonalStatistic,
+  ZonalStatistics,
+  ZonalStatisticsOptions,
+} from "../types.js";
+
+const ALL_STATISTICS: ZonalStatistic[] = ["mean", "min", "max", "count"];
+
+function featureKey(
+  feature: GeoJsonFeature,
+  position: number,
+  keyProperty: string | undefined
+): string {
+  if (keyProperty === undefined) {
+    return String(feature.id ?? position);
+  }
+  const value = feature.properties?.[keyProperty];
+  if (value === undefined || value === null) {
+    throw new InvalidSelectionError(
+      `Feature ${position} has no "${keyProperty}" property to key its statistics by.`
+    );
+  }
+  return String(value);
+}
+
+function numericCoordinate(values: unknown[], label: string): number[] {
+  return values.map((v) => {
+    const num = typeof v === "number" ? v : Number(v);
+    if (isNaN(num)) {
+      throw new InvalidSelectionError(`Invalid ${label} coordinate: ${v}`);
+    }
+    return num;
+  });
+}
+
+function summarise(
+  values: number[],
+  statistics: ZonalStatistic[]
+): Record<string, number> {
+  return Object.fromEntries(
+    statistics.map((statistic) => [
+      statistic,
+      statistic === "count"
+        ? values.filter((value) => !Number.isNaN(value)).length
+        : reduceValues(values, statistic),
+    ])
+  );
+}
+
+/**
+ * Summarises one variable inside every feature of a FeatureCollection, once
+ * per remaining coordinate (usually each time step). Only valid cells count:
+ * NaNs are skipped, and `count` is the number of valid cells.
+ *
+ * The grid cells of all features are found from the coordinates first, and
+ * the union of their rows and columns is read once, so features sharing
+ * chunks don't fetch them again. Features that cover no cell get a count of
+ * 0 and NaN for the other statistics.
+ *
+ * @param dataset - The jaxray Dataset to summarise
+ * @param collection - GeoJSON FeatureCollection of Polygon/MultiPolygon features, in either longitude convention
+ * @param options - Configuration options
+ * @param options.variable - Variable to summarise (default: the only data variable)
+ * @param options.keyProperty - Feature property keying the results (default: feature id or position)
+ * @param options.statistics - Any of "mean", "min", "max" and "count" (default: all)
+ * @param options.inclusion - "centre" or "overlap", as for `polygon` (default: "centre")
+ * @param options.latitudeKey - Name of latitude coordinate (default: "latitude")
+ * @param options.longitudeKey - Name of longitude coordinate (default: "longitude")
+ * @returns Statistics records per feature key
+ * @throws InvalidSelectionError if a geometry, key or the variable is invalid
+ *
+ * @example
+ * ```typescript
+ * const data = await Dataset.open_zarr(store);
+ * const stats = await zonalStatistics(data, districts, {
+ *   variable: "precipitation",
+ *   keyProperty: "district_code",
+ * });
+ * // stats["KE-30"] → [{ time, mean, min, max, count }, ...]
+ * ```
+ */
+export async function zonalStatistics(
+  dataset: Dataset,
+  collection: GeoJsonFeatureCollection,
+  options: ZonalStatisticsOptions = {}
+): Promise<ZonalStatistics> {
+  const {
+    inclusion = "centre",
+    keyProperty,
+    statistics = ALL_STATISTICS,
+    latitudeKey = "latitude",
+    longitudeKey = "longitude",
+  } = options;
+
+  if (collection?.type !== "FeatureCollection" || !Array.isArray(collection.features)) {
+    throw new InvalidSelectionError(
+      "Zonal statistics require a GeoJSON FeatureCollection"
+    );
+  }
+
+  const dataVars = dataset.dataVars;
+  const variableName = options.variable ?? (dataVars.length === 1 ? dataVars[0] : undefined);
+  if (variableName === undefined) {
+    throw new InvalidSelectionError(
+      `Choose the variable to summarise: ${dataVars.join(", ")}`
+    );
+  }
+  if (!dataVars.includes(variableName)) {
+    throw new InvalidSelectionError(`Variable "${variableName}" not found in dataset.`, {
+      code: "VARIABLE_NOT_FOUND",
+    });
+  }
+
+  const coords = dataset.coords;
+  const latCoords = coords[latitudeKey];
+  const lonCoords = coords[longitudeKey];
+  if (!Array.isArray(latCoords) || !Array.isArray(lonCoords)) {
+    throw new InvalidSelectionError(
+      `Latitude (${latitudeKey}) and/or longitude (${longitudeKey}) coordinates not found in dataset`
+    );
+  }
+  const latArray = numericCoordinate(latCoords, "latitude");
+  const lonArray = numericCoordinate(lonCoords, "longitude");
+
+  // Find every feature's cells from the coordinates alone
+  const zones = new Map<string, PolygonCells>();
+  collection.features.forEach((feature, position) => {
+    const key = featureKey(feature, position, keyProperty);
+    if (zones.has(key)) {
+      throw new InvalidSelectionError(
+        `Features share the key "${key}"; pick a keyProperty that is unique per feature.`
+      );
+    }
+    zones.set(
+      key,
+      polygonCells(polygonsOf(feature?.geometry), latArray, lonArray, inclusion)
+    );
+  });
+
+  const zoneCells = [...zones.values()];
+  const rows = [...new Set(zoneCells.flatMap((cells) => cells.latIndices))].sort(
+    (a, b) => a - b
+  );
+  const columns = [...new Set(zoneCells.flatMap((cells) => cells.lonIndices))].sort(
+    (a, b) => a - b
+  );
+
+  const source = dataset.getVariable(variableName);
+  const dims = [...source.dims];
+  const latAxis = dims.indexOf(latitudeKey);
+  const lonAxis = dims.indexOf(longitudeKey);
+  if (latAxis === -1 || lonAxis === -1) {
+    throw new InvalidSelectionError(
+      `Variable "${variableName}" is not gridded on ${latitudeKey}/${longitudeKey}.`
+    );
+  }
+
+  const sizes = dataset.sizes;
+  const shape = dims.map((dim, axis) =>
+    axis === latAxis ? rows.length : axis === lonAxis ? columns.length : sizes[dim]
+  );
+  const strides = stridesOf(shape);
+  const keptAxes = dims
+    .map((_, axis) => axis)
+    .filter((axis) => axis !== latAxis && axis !== lonAxis);
+  const keptShape = keptAxes.map((axis) => shape[axis]);
+  const keptStrides = stridesOf(keptShape);
+  const outputSize = keptShape.reduce((total, length) => total * length, 1);
+
+  // Flat offset and coordinates of every output record
+  const records = Array.from({ length: outputSize }, (_, output) => {
+    let base = 0;
+    const labels: Record<string, unknown> = {};
+    keptAxes.forEach((axis, position) => {
+      const along = Math.floor(output / keptStrides[position]) % keptShape[position];
+      base += along * strides[axis];
+      labels[dims[axis]] = coords[dims[axis]]?.[along] ?? along;
+    });
+    return { base, labels };
+  });
+
+  // Read the union of all features' rows and columns in one go
+  let values: number[] = [];
+  if (rows.length > 0) {
+    let cropped = await dataset.isel({ [latitudeKey]: rows });
+    cropped = await cropped.isel({ [longitudeKey]: columns });
+    const variable = await cropped.getVariable(variableName).compute();
+    values = fromNested(variable.data, dims.length).values;
+  }
+
+  const rowPosition = new Map(rows.map((row, position) => [row, position]));
+  const columnPosition = new Map(columns.map((column, position) => [column, position]));
+
+  const result: ZonalStatistics = {};
+  for (const [key, { latIndices, lonIndices, mask }] of zones) {
+    const offsets: number[] = [];
+    latIndices.forEach((latIdx, r) =>
+      lonIndices.forEach((lonIdx, c) => {
+        if (mask[r][c]) {
+          offsets.push(
+            rowPosition.get(latIdx)! * strides[latAxis] +
+              columnPosition.get(lonIdx)! * strides[lonAxis]
+          );
+        }
+      })
+    );
+
+    result[key] = records.map(({ base, labels }) => ({
+      ...labels,
+      ...summarise(
+        offsets.map((offset) => values[base + offset]),
+        statistics
+      ),
+    }));
+  }
+
+  return result;
+}
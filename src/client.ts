@@ -1,16 +1,27 @@
 import { createIpfsElements, Dataset } from "@dclimate/jaxray";
 import { GeoTemporalDataset } from "./geotemporal-dataset.js";
 import {
+  CatalogRequestOptions,
   ClientOptions,
   DatasetMetadata,
   DatasetRequest,
+  FetchLike,
   GeoSelectionOptions,
   LoadDatasetOptions,
+  PhaseTimeouts,
+  RetryPolicy,
 } from "./types.js";
 import { DEFAULT_IPFS_GATEWAY } from "./constants.js";
-import { openDatasetFromCid, IpfsElements } from "./ipfs/open-dataset.js";
+import {
+  openDatasetFromCid,
+  IpfsElements,
+  type OpenDatasetOptions,
+} from "./ipfs/open-dataset.js";
+import { GatewayHealth, type GatewayStrategy } from "./ipfs/gateway-pool.js";
 import { DatasetNotFoundError } from "./errors.js";
 import { normalizeSegment } from "./utils.js";
+import { withPhase } from "./abort.js";
+import { createFetch } from "./http.js";
 
 import { concatenateVariants, type VariantToLoad } from "./actions/concatenate-variants.js";
 import {
@@ -22,6 +33,12 @@ import {
   type ConcatenableStacItem,
 } from "./stac/index.js";
 import { DatasetCatalog } from "./stac/stac-catalog.js";
+import type { CatalogCacheStore } from "./stac/catalog-cache.js";
+import {
+  searchDatasetCatalog,
+  type DatasetSearchMatch,
+  type DatasetSearchQuery,
+} from "./stac/catalog-search.js";
 import {
   resolveCidFromStacServer,
   listAvailableDatasetsFromStacServer,
@@ -30,17 +47,47 @@ import {
 
 export class DClimateClient {
   private gatewayUrl: string;
+  private gateways: string[];
+  private gatewayStrategy: GatewayStrategy;
+  private gatewayHealth: GatewayHealth;
   private stacServerUrl: string | null;
-  private cachedGateway?: string;
-  private cachedIpfs?: IpfsElements;
+  private cachedIpfs: Map<string, IpfsElements> = new Map();
   private clientIpfsElements?: IpfsElements;
-  private stacCatalog?: StacCatalog;
-  private stacCatalogTimestamp?: number;
+  private catalogRootCid?: string;
+  private catalogCacheStore?: CatalogCacheStore;
+  private catalogConcurrency?: number;
+  private catalogRequestTimeoutMs?: number;
+  private timeouts: PhaseTimeouts;
+  private retry?: RetryPolicy;
+  private fetch: FetchLike;
+  private createIpfsElements: (gatewayUrl: string, fetch: FetchLike) => IpfsElements;
   private stacCacheTtl: number = 3600000; // 1 hour
 
   constructor(options: ClientOptions = {}) {
-    this.gatewayUrl = options.gatewayUrl ?? DEFAULT_IPFS_GATEWAY;
+    this.gatewayUrl =
+      options.gatewayUrl ?? options.gateways?.[0] ?? DEFAULT_IPFS_GATEWAY;
+    this.gateways = options.gateways?.length
+      ? [...options.gateways]
+      : [this.gatewayUrl];
+    this.gatewayStrategy = options.gatewayStrategy ?? "failover";
+    this.gatewayHealth = new GatewayHealth({
+      cooldownMs: options.gatewayCooldownMs,
+    });
     this.clientIpfsElements = options.ipfsElements;
+    this.catalogRootCid = options.catalogRootCid;
+    this.catalogCacheStore = options.catalogCacheStore;
+    this.catalogConcurrency = options.catalogConcurrency;
+    this.catalogRequestTimeoutMs = options.catalogRequestTimeoutMs;
+    this.timeouts = { ...options.timeouts };
+    this.retry = options.retry;
+    this.fetch = createFetch({
+      fetch: options.fetch,
+      headers: options.headers,
+      onRequest: options.onRequest,
+    });
+    this.createIpfsElements =
+      options.createIpfsElements ??
+      ((gatewayUrl, fetch) => createIpfsElements(gatewayUrl, { fetch }));
     // stacServerUrl: use provided value, or default if undefined, or null to disable
     this.stacServerUrl =
       options.stacServerUrl === null
@@ -48,38 +95,83 @@ export class DClimateClient {
         : options.stacServerUrl ?? DEFAULT_STAC_SERVER_URL;
   }
 
-  private async getStacCatalog(gatewayUrl: string): Promise<StacCatalog> {
-    // Check if cached catalog is still valid
-    if (this.stacCatalog && this.stacCatalogTimestamp) {
-      const age = Date.now() - this.stacCatalogTimestamp;
-      if (age < this.stacCacheTtl) {
-        return this.stacCatalog;
-      }
-    }
-
-    // Load fresh catalog
-    this.stacCatalog = await loadStacCatalog(gatewayUrl);
-    this.stacCatalogTimestamp = Date.now();
-    return this.stacCatalog;
+  private async getStacCatalog(
+    gatewayUrl: string,
+    rootCid?: string,
+    { signal, timeouts = this.timeouts }: CatalogRequestOptions = {}
+  ): Promise<StacCatalog> {
+    // loadStacCatalog keeps catalogs in memory (and in the configured store)
+    // and refreshes stale ones in the background.
+    return loadStacCatalog(gatewayUrl, rootCid, {
+      cacheTtlMs: this.stacCacheTtl,
+      cacheStore: this.catalogCacheStore,
+      concurrency: this.catalogConcurrency,
+      requestTimeoutMs: this.catalogRequestTimeoutMs,
+      signal,
+      timeoutMs: timeouts.catalog,
+      fetch: this.fetch,
+      retry: this.retry,
+    });
   }
 
-  async listAvailableDatasets(): Promise<DatasetCatalog> {
+  async listAvailableDatasets(
+    options: CatalogRequestOptions = {}
+  ): Promise<DatasetCatalog> {
+    const request = {
+      signal: options.signal,
+      timeouts: { ...this.timeouts, ...options.timeouts },
+    };
+
     // STAC API first — single-digit HTTP calls vs. hundreds of serial IPFS
     // gateway round-trips. Falls through to the IPFS walk only if the server
     // is unavailable or misconfigured. Mirrors the resolve-CID pattern below.
-    if (this.stacServerUrl) {
+    // A pinned catalog root skips the server, which only knows the latest CIDs.
+    if (this.stacServerUrl && !this.catalogRootCid) {
       try {
-        return await listAvailableDatasetsFromStacServer(this.stacServerUrl);
-      } catch {
-        // Fall through to IPFS catalog.
+        return await listAvailableDatasetsFromStacServer(this.stacServerUrl, {
+          signal: request.signal,
+          timeoutMs: request.timeouts.catalog,
+          fetch: this.fetch,
+          retry: this.retry,
+        });
+      } catch (error) {
+        // A cancelled call must not fall through; a slow server may.
+        if (request.signal?.aborted) throw error;
       }
     }
-    const catalog = await this.getStacCatalog(this.gatewayUrl);
+    const catalog = await this.getStacCatalog(
+      this.gatewayUrl,
+      this.catalogRootCid,
+      request
+    );
     return listAvailableDatasetsFromStac(catalog);
   }
 
-  async listCatalogEntries(): Promise<DatasetCatalog> {
-    return this.listAvailableDatasets();
+  async listCatalogEntries(
+    options: CatalogRequestOptions = {}
+  ): Promise<DatasetCatalog> {
+    return this.listAvailableDatasets(options);
+  }
+
+  /**
+   * Find dataset variants by area, time window and keyword, best match first.
+   * Every given criterion must match; each result lists why it matched.
+   *
+   * @example
+   * ```typescript
+   * const matches = await client.searchDatasets({
+   *   point: { latitude: 40.7, longitude: -74.0 },
+   *   timeRange: { start: "1990-01-01", end: "2020-12-31" },
+   *   text: "precipitation",
+   * });
+   * ```
+   */
+  async searchDatasets(
+    query: DatasetSearchQuery,
+    options: CatalogRequestOptions = {}
+  ): Promise<DatasetSearchMatch[]> {
+    const catalog = await this.listAvailableDatasets(options);
+    return searchDatasetCatalog(catalog, query);
   }
 
   async loadDataset({
@@ -93,15 +185,14 @@ export class DClimateClient {
     options?: LoadDatasetOptions;
   }): Promise<[GeoTemporalDataset, DatasetMetadata] | [Dataset, DatasetMetadata]> {
     const gatewayUrl = options.gatewayUrl ?? this.gatewayUrl;
-    const ipfsElements = this.resolveIpfsElements(options, gatewayUrl);
-
+    const openOptions = this.resolveOpenOptions(options, gatewayUrl);
+    const catalogRootCid = options.catalogRootCid ?? this.catalogRootCid;
+    const signal = options.signal;
+    const timeouts = this.resolveTimeouts(options);
 
     if (request.cid) {
       // Direct CID provided - bypass catalog
-      const dataset = await openDatasetFromCid(request.cid, {
-        gatewayUrl,
-        ipfsElements,
-      });
+      const dataset = await openDatasetFromCid(request.cid, openOptions);
 
       const metadata: DatasetMetadata = {
         dataset: "",
@@ -120,7 +211,9 @@ export class DClimateClient {
     return [new GeoTemporalDataset(dataset, metadata), metadata];
     }
     if (!request.dataset) {
-      throw new DatasetNotFoundError("Dataset name must be provided.");
+      throw new DatasetNotFoundError("Dataset name must be provided.", {
+        code: "INVALID_REQUEST",
+      });
     }
 
     const normalizedDatasetKey = normalizeSegment(request.dataset);
@@ -137,13 +230,18 @@ export class DClimateClient {
     }
 
     if (!normalizedDatasetKey) {
-      throw new DatasetNotFoundError("Dataset name must be provided.");
+      throw new DatasetNotFoundError("Dataset name must be provided.", {
+        code: "INVALID_REQUEST",
+      });
     }
 
     // Skip auto-concatenation if variant is provided
     if (!request.variant && autoConcatenate) {
       // Load STAC catalog to check for concatenable variants
-      const catalog = await this.getStacCatalog(gatewayUrl);
+      const catalog = await this.getStacCatalog(gatewayUrl, catalogRootCid, {
+        signal,
+        timeouts,
+      });
 
       // Get all items for this collection/dataset
       const concatenableItems = getConcatenableItemsFromStac(
@@ -174,7 +272,8 @@ export class DClimateClient {
             variant: request.variant,
           },
           concatenableItems,
-          options
+          options,
+          catalog.rootCid
         );
       }
 
@@ -188,28 +287,35 @@ export class DClimateClient {
     let metadataCollection = resolvedCollection || request.collection;
     let metadataVariant = request.variant ?? "";
     let metadataOrganization = resolvedOrganization;
+    let metadataCatalogRootCid: string | undefined;
 
-    // Try STAC server first (faster, avoids loading IPFS catalog)
-    if (this.stacServerUrl && resolvedCollection) {
+    // Try STAC server first (faster, avoids loading IPFS catalog). The server
+    // only serves the latest catalog, so it is skipped when a root is pinned.
+    if (this.stacServerUrl && resolvedCollection && !catalogRootCid) {
       try {
         const serverResolved = await resolveCidFromStacServer(
           resolvedCollection,
           request.dataset,
           request.variant,
-          this.stacServerUrl
+          this.stacServerUrl,
+          { signal, timeoutMs: timeouts.resolve, fetch: this.fetch, retry: this.retry }
         );
         cid = serverResolved.cid;
         metadataCollection = serverResolved.collectionId;
         metadataVariant = serverResolved.variant || "";
         metadataDataset = serverResolved.dataset;
-      } catch {
-        // Fall back to IPFS catalog
+      } catch (error) {
+        // Fall back to IPFS catalog, unless the caller cancelled the load
+        if (signal?.aborted) throw error;
       }
     }
 
     // Fallback: Use STAC catalog resolution from IPFS
     if (!cid) {
-      const catalog = await this.getStacCatalog(gatewayUrl);
+      const catalog = await this.getStacCatalog(gatewayUrl, catalogRootCid, {
+        signal,
+        timeouts,
+      });
 
       const resolved = resolveDatasetFromStac(
         catalog,
@@ -226,16 +332,14 @@ export class DClimateClient {
       resolvedOrganization = resolved.organizationId ?? resolvedOrganization;
       metadataOrganization = resolved.organizationId ?? resolvedOrganization;
       metadataDataset = request.dataset;
+      metadataCatalogRootCid = catalog.rootCid;
     }
 
     // Build path from resolved names
     const pathParts = [metadataCollection, metadataDataset, metadataVariant].filter(Boolean);
     const resolvedPath = pathParts.join("-");
     
-    const dataset = await openDatasetFromCid(cid, {
-      gatewayUrl,
-      ipfsElements,
-    });
+    const dataset = await openDatasetFromCid(cid, openOptions);
 
     const metadata: DatasetMetadata = {
       dataset: metadataDataset,
@@ -248,6 +352,10 @@ export class DClimateClient {
       fetchedAt: new Date(),
     };
 
+    if (metadataCatalogRootCid) {
+      metadata.catalogRootCid = metadataCatalogRootCid;
+    }
+
     if (!metadata.organization && metadata.collection?.includes("_")) {
       metadata.organization = metadata.collection.split("_")[0];
     }
@@ -274,28 +382,34 @@ export class DClimateClient {
     if (!(dataset instanceof GeoTemporalDataset)) {
       return [dataset, metadata];
     }
-    return [await dataset.select(selection), metadata];
+    const selected = await withPhase(
+      "compute",
+      options.signal,
+      this.resolveTimeouts(options).compute,
+      () => dataset.select(selection)
+    );
+    return [selected, metadata];
   }
 
   private async loadAndConcatenateVariants(
     request: DatasetRequest,
     concatVariants: ConcatenableStacItem[],
-    options: LoadDatasetOptions
+    options: LoadDatasetOptions,
+    catalogRootCid?: string
   ): Promise<[GeoTemporalDataset, DatasetMetadata] | [Dataset, DatasetMetadata]> {
     if (!request.dataset) {
-      throw new DatasetNotFoundError("Dataset name must be provided.");
+      throw new DatasetNotFoundError("Dataset name must be provided.", {
+        code: "INVALID_REQUEST",
+      });
     }
     const gatewayUrl = options.gatewayUrl ?? this.gatewayUrl;
-    const ipfsElements = this.resolveIpfsElements(options, gatewayUrl);
+    const openOptions = this.resolveOpenOptions(options, gatewayUrl);
 
     // Load all variants in parallel
     const variantsToLoad: VariantToLoad[] = await Promise.all(
       concatVariants.map(async (variantConfig) => {
         // Load the dataset using the CID from STAC
-        const dataset = await openDatasetFromCid(variantConfig.cid, {
-          gatewayUrl,
-          ipfsElements,
-        });
+        const dataset = await openDatasetFromCid(variantConfig.cid, openOptions);
 
         return {
           variant: variantConfig,
@@ -305,7 +419,12 @@ export class DClimateClient {
     );
 
     // Concatenate the variants
-    const concatenatedDataset = await concatenateVariants(variantsToLoad);
+    const concatenatedDataset = await withPhase(
+      "compute",
+      options.signal,
+      this.resolveTimeouts(options).compute,
+      () => concatenateVariants(variantsToLoad)
+    );
 
     // Build metadata for the concatenated dataset
     const pathParts = [request.collection, request.dataset].filter(Boolean);
@@ -314,12 +433,17 @@ export class DClimateClient {
       collection: request.collection,
       organization: request.organization,
       concatenatedVariants: concatVariants.map((v) => v.variant),
+      concatenatedCids: concatVariants.map((v) => v.cid),
       path: pathParts.join("-"),
       cid: variantsToLoad[0].dataset.attrs._zarr_cid as string || "concatenated",
       source: "stac_concatenated",
       fetchedAt: new Date(),
     };
 
+    if (catalogRootCid) {
+      metadata.catalogRootCid = catalogRootCid;
+    }
+
     if (options.returnJaxrayDataset) {
       return [concatenatedDataset, metadata];
     }
@@ -327,6 +451,46 @@ export class DClimateClient {
     return [new GeoTemporalDataset(concatenatedDataset, metadata), metadata];
   }
 
+  private resolveTimeouts(options: LoadDatasetOptions): PhaseTimeouts {
+    return { ...this.timeouts, ...options.timeouts };
+  }
+
+  private resolveOpenOptions(
+    options: LoadDatasetOptions,
+    gatewayUrl: string
+  ): OpenDatasetOptions {
+    const signal = options.signal;
+    const timeoutMs = this.resolveTimeouts(options).open;
+    // An explicit per-call gateway or caller-supplied IPFS elements pin the
+    // open to a single gateway; otherwise spread it over the configured list.
+    if (
+      options.gatewayUrl ||
+      options.ipfsElements ||
+      this.clientIpfsElements ||
+      this.gateways.length <= 1
+    ) {
+      return {
+        gatewayUrl,
+        ipfsElements: this.resolveIpfsElements(options, gatewayUrl),
+        signal,
+        timeoutMs,
+        retry: this.retry,
+        fetch: this.fetch,
+      };
+    }
+    return {
+      gatewayUrl,
+      signal,
+      timeoutMs,
+      retry: this.retry,
+      gateways: this.gateways,
+      gatewayStrategy: this.gatewayStrategy,
+      gatewayHealth: this.gatewayHealth,
+      ipfsElementsForGateway: (url) => this.ipfsElementsForGateway(url),
+      fetch: this.fetch,
+    };
+  }
+
   private resolveIpfsElements(
     options: LoadDatasetOptions,
     gatewayUrl: string
@@ -338,12 +502,16 @@ export class DClimateClient {
     if (this.clientIpfsElements) {
       return this.clientIpfsElements;
     }
+    return this.ipfsElementsForGateway(gatewayUrl);
+  }
+
+  private ipfsElementsForGateway(gatewayUrl: string): IpfsElements {
     // Cache ipfsElements based on gateway URL
-    if (this.cachedIpfs && this.cachedGateway === gatewayUrl) {
-      return this.cachedIpfs;
+    let elements = this.cachedIpfs.get(gatewayUrl);
+    if (!elements) {
+      elements = this.createIpfsElements(gatewayUrl, this.fetch);
+      this.cachedIpfs.set(gatewayUrl, elements);
     }
-    this.cachedGateway = gatewayUrl;
-    this.cachedIpfs = createIpfsElements(gatewayUrl);
-    return this.cachedIpfs;
+    return elements;
   }
 }
@@ -1 +1,2 @@
 export const DEFAULT_IPFS_GATEWAY = "https://ipfs-gateway.dclimate.net";
+export const DEFAULT_STAC_ROOT_URL = `${DEFAULT_IPFS_GATEWAY}/stac`;
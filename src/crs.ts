@@ -0,0 +1,111 @@
+import { InvalidSelectionError } from "./errors.js";
+import { parseProjDefinition, type InverseProjection } from "./math/projections.js";
+
+/**
+ * PROJ.4 definitions of the built-in national grids, as published by EPSG.
+ * UTM zones are generated in `builtinDefinition`.
+ */
+const NATIONAL_GRIDS: Record<number, string> = {
+  // OSGB36 / British National Grid
+  27700:
+    "+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489",
+  // IRENET95 / Irish Transverse Mercator
+  2157: "+proj=tmerc +lat_0=53.5 +lon_0=-8 +k=0.99982 +x_0=600000 +y_0=750000 +ellps=GRS80",
+  // RGF93 / Lambert-93 (France)
+  2154: "+proj=lcc +lat_0=46.5 +lon_0=3 +lat_1=49 +lat_2=44 +x_0=700000 +y_0=6600000 +ellps=GRS80",
+  // ETRS89 / LCC Europe
+  3034: "+proj=lcc +lat_0=52 +lon_0=10 +lat_1=35 +lat_2=65 +x_0=4000000 +y_0=2800000 +ellps=GRS80",
+  // DHDN / 3-degree Gauss-Kruger zone 3 (Germany)
+  31467:
+    "+proj=tmerc +lat_0=0 +lon_0=9 +k=1 +x_0=3500000 +y_0=0 +ellps=bessel +towgs84=598.1,73.7,418.2,0.202,0.045,-2.455,6.7",
+  // SWEREF99 TM (Sweden)
+  3006: "+proj=tmerc +lat_0=0 +lon_0=15 +k=0.9996 +x_0=500000 +y_0=0 +ellps=GRS80",
+  // NZGD2000 / New Zealand Transverse Mercator
+  2193: "+proj=tmerc +lat_0=0 +lon_0=173 +k=0.9996 +x_0=1600000 +y_0=10000000 +ellps=GRS80",
+  // WGS 84 / World Mercator
+  3395: "+proj=merc +lon_0=0 +k=1 +x_0=0 +y_0=0 +datum=WGS84",
+  // WGS 84 / Pseudo-Mercator (Web Mercator)
+  3857: "+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m",
+  // Geographic NAD83 and ETRS89, within a metre of WGS84
+  4269: "+proj=longlat +datum=NAD83",
+  4258: "+proj=longlat +ellps=GRS80",
+  4326: "+proj=longlat +datum=WGS84",
+};
+
+function builtinDefinition(epsg: number): string | undefined {
+  if (NATIONAL_GRIDS[epsg]) return NATIONAL_GRIDS[epsg];
+  const zone = epsg % 100;
+  const family = Math.floor(epsg / 100);
+  // WGS 84 / UTM north and south
+  if ((family === 326 || family === 327) && zone >= 1 && zone <= 60) {
+    return `+proj=utm +zone=${zone} ${family === 327 ? "+south " : ""}+datum=WGS84`;
+  }
+  // ETRS89 / UTM
+  if (family === 258 && zone >= 28 && zone <= 38) {
+    return `+proj=utm +zone=${zone} +ellps=GRS80`;
+  }
+  // NAD83 / UTM
+  if (family === 269 && zone >= 1 && zone <= 23) {
+    return `+proj=utm +zone=${zone} +datum=NAD83`;
+  }
+  // GDA94 / MGA and GDA2020 / MGA (Australia)
+  if ((family === 283 && zone >= 48 && zone <= 58) || (epsg >= 7846 && epsg <= 7859)) {
+    const mgaZone = family === 283 ? zone : epsg - 7800;
+    return `+proj=utm +zone=${mgaZone} +south +ellps=GRS80`;
+  }
+  return undefined;
+}
+
+const registered = new Map<number, InverseProjection>();
+const cache = new Map<number, InverseProjection>();
+
+/**
+ * Registers a coordinate reference system for `epsgCrs` options, either as a
+ * PROJ.4 definition or as a function from projected x/y to WGS84
+ * longitude/latitude. Registrations replace built-in definitions.
+ *
+ * @throws InvalidSelectionError if the definition can't be parsed
+ *
+ * @example
+ * ```typescript
+ * // Swiss LV03 via a custom transform
+ * registerProjection(21781, (x, y) => swissToWgs84(x, y));
+ * // A local transverse Mercator grid
+ * registerProjection(
+ *   3414,
+ *   "+proj=tmerc +lat_0=1.36666666666667 +lon_0=103.833333333333 +k=1 +x_0=28001.642 +y_0=38744.572 +ellps=WGS84"
+ * );
+ * ```
+ */
+export function registerProjection(
+  epsg: number,
+  definition: string | InverseProjection
+): void {
+  const inverse =
+    typeof definition === "string" ? parseProjDefinition(definition).inverse : definition;
+  registered.set(epsg, inverse);
+  cache.delete(epsg);
+}
+
+/**
+ * Inverse transform from EPSG:`epsg` to WGS84 longitude/latitude.
+ *
+ * @throws InvalidSelectionError if the code is neither built in nor registered
+ */
+export function inverseProjection(epsg: number): InverseProjection {
+  const custom = registered.get(epsg);
+  if (custom) return custom;
+
+  let inverse = cache.get(epsg);
+  if (!inverse) {
+    const definition = builtinDefinition(epsg);
+    if (!definition) {
+      throw new InvalidSelectionError(
+        `EPSG:${epsg} is not built in. Register it with registerProjection(${epsg}, "<proj definition>").`
+      );
+    }
+    inverse = parseProjDefinition(definition).inverse;
+    cache.set(epsg, inverse);
+  }
+  return inverse;
+}
@@ -1,12 +1,176 @@
+import type { OperationPhase } from "./types.js";
+
+/**
+ * Stable identifiers for every failure the client reports. Branch on these
+ * rather than on error messages, which may change between releases.
+ */
+export type ErrorCode =
+  | "INVALID_REQUEST"
+  | "INVALID_SELECTION"
+  | "NO_DATA"
+  | "INVALID_CONTRACT"
+  | "VARIABLE_NOT_FOUND"
+  | "COLLECTION_NOT_FOUND"
+  | "DATASET_NOT_FOUND"
+  | "VARIANT_NOT_FOUND"
+  | "VARIANT_AMBIGUOUS"
+  | "INVALID_CATALOG_ENTRY"
+  | "CATALOG_LOAD_FAILED"
+  | "STAC_SERVER_ERROR"
+  | "NETWORK_ERROR"
+  | "GATEWAY_UNAVAILABLE"
+  | "GATEWAY_TIMEOUT"
+  | "DATASET_OPEN_FAILED"
+  | "CONCATENATION_FAILED"
+  | "UNSUPPORTED_ENVIRONMENT"
+  | "ABORTED"
+  | "TIMEOUT"
+  | "UNKNOWN";
+
+/** What the failing operation was working on, where known. */
+export interface ErrorContext {
+  organization?: string;
+  collection?: string;
+  dataset?: string;
+  variant?: string;
+  cid?: string;
+  url?: string;
+  status?: number;
+}
+
+export interface DClimateClientErrorOptions {
+  code?: ErrorCode;
+  cause?: unknown;
+  /** Whether repeating the same call may succeed. Default: false */
+  retriable?: boolean;
+  context?: ErrorContext;
+}
+
+/**
+ * Root of every error thrown by the client.
+ */
 export class DClimateClientError extends Error {
-  constructor(message: string) {
-    super(message);
+  readonly code: ErrorCode;
+  readonly retriable: boolean;
+  readonly context: ErrorContext;
+
+  constructor(message: string, options: DClimateClientErrorOptions = {}) {
+    super(message, options.cause === undefined ? undefined : { cause: options.cause });
     this.name = new.target.name;
+    this.code = options.code ?? "UNKNOWN";
+    this.retriable = options.retriable ?? false;
+    this.context = options.context ?? {};
+  }
+}
+
+export class DatasetNotFoundError extends DClimateClientError {
+  constructor(message: string, options: DClimateClientErrorOptions = {}) {
+    super(message, { code: "DATASET_NOT_FOUND", ...options });
+  }
+}
+
+export class InvalidSelectionError extends DClimateClientError {
+  constructor(message: string, options: DClimateClientErrorOptions = {}) {
+    super(message, { code: "INVALID_SELECTION", ...options });
+  }
+}
+
+export class NoDataFoundError extends DClimateClientError {
+  constructor(message: string, options: DClimateClientErrorOptions = {}) {
+    super(message, { code: "NO_DATA", ...options });
+  }
+}
+
+/**
+ * A payout contract whose terms are inconsistent, e.g. a put whose exit lies
+ * above its trigger.
+ */
+export class InvalidContractError extends DClimateClientError {
+  constructor(message: string, options: DClimateClientErrorOptions = {}) {
+    super(message, { code: "INVALID_CONTRACT", ...options });
   }
 }
 
-export class DatasetNotFoundError extends DClimateClientError {}
+/**
+ * Failure to load the STAC catalog or to resolve a dataset from it. Takes the
+ * cause second, as it always has, then the usual options.
+ */
+export class StacCatalogError extends DClimateClientError {
+  constructor(message: string, cause?: unknown, options: DClimateClientErrorOptions = {}) {
+    super(message, { cause, ...options });
+  }
+}
+
+export class StacLoadError extends StacCatalogError {
+  constructor(message: string, cause?: unknown, options: DClimateClientErrorOptions = {}) {
+    super(message, cause, { code: "CATALOG_LOAD_FAILED", retriable: true, ...options });
+  }
+}
 
-export class InvalidSelectionError extends DClimateClientError {}
+export class StacResolutionError extends StacCatalogError {
+  constructor(message: string, options: DClimateClientErrorOptions = {}) {
+    super(message, undefined, { code: "DATASET_NOT_FOUND", ...options });
+  }
+}
+
+/**
+ * A STAC API server answered with an error status or could not be reached.
+ * Server errors (5xx), rate limiting (429) and network failures are retriable.
+ */
+export class StacServerError extends DClimateClientError {
+  constructor(message: string, options: DClimateClientErrorOptions = {}) {
+    const status = options.context?.status;
+    super(message, {
+      code: "STAC_SERVER_ERROR",
+      retriable: status === undefined || status >= 500 || status === 429,
+      ...options,
+    });
+  }
+}
 
-export class NoDataFoundError extends DClimateClientError {}
+/**
+ * A dataset could not be opened from a gateway. `code` tells connection
+ * failures (`GATEWAY_UNAVAILABLE`, `GATEWAY_TIMEOUT`) apart from a store that
+ * opened but could not be read as Zarr (`DATASET_OPEN_FAILED`).
+ */
+export class DatasetOpenError extends DClimateClientError {
+  constructor(message: string, options: DClimateClientErrorOptions = {}) {
+    super(message, { code: "DATASET_OPEN_FAILED", ...options });
+  }
+}
+
+export class GatewayUnavailableError extends DClimateClientError {
+  constructor(
+    message: string,
+    public readonly failures: Array<{ gatewayUrl: string; error: unknown }>,
+    options: DClimateClientErrorOptions = {}
+  ) {
+    super(message, { code: "GATEWAY_UNAVAILABLE", retriable: true, ...options });
+  }
+}
+
+/**
+ * Thrown when an operation is cancelled through its `AbortSignal` or runs
+ * past one of its phase timeouts. `phase` is the step that was interrupted.
+ */
+export class OperationAbortedError extends DClimateClientError {
+  readonly phase?: OperationPhase;
+  readonly timedOut: boolean;
+
+  constructor(
+    message: string,
+    options: DClimateClientErrorOptions & {
+      phase?: OperationPhase;
+      timedOut?: boolean;
+    } = {}
+  ) {
+    const { phase, timedOut = false, ...rest } = options;
+    super(message, {
+      code: timedOut ? "TIMEOUT" : "ABORTED",
+      retriable: timedOut,
+      ...rest,
+    });
+    this.phase = phase;
+    this.timedOut = timedOut;
+  }
+}
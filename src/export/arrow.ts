@@ -0,0 +1,469 @@
+/**
+ * Apache Arrow IPC export, in the streaming or file format
+ *
+ * Writes a long table with the rows of the CSV export: one column per
+ * dimension, then one per variable. Times become UTC millisecond timestamps,
+ * text coordinates dictionary-encoded strings and missing values nulls.
+ * Streams write one record batch per chunk along time.
+ */
+
+import type { Dataset, DataArray } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import { fromNested, stridesOf } from "../math/ndarray.js";
+import { toEpochMs } from "../math/periods.js";
+import type { ArrowOptions } from "../types.js";
+import { encodeFlatBuffer, type FlatField } from "./flatbuffers.js";
+
+const DEFAULT_CHUNK_SIZE = 500;
+
+const METADATA_V5 = 4;
+const SCHEMA = 1;
+const DICTIONARY_BATCH = 2;
+const RECORD_BATCH = 3;
+
+const INT = 2;
+const FLOATING_POINT = 3;
+const UTF8 = 5;
+const TIMESTAMP = 10;
+const PRECISIONS = { float32: 1, float64: 2 };
+const MILLISECOND = 1;
+
+// Buffers are written from typed arrays, in the platform's byte order
+const ENDIANNESS = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1 ? 0 : 1;
+
+const MAGIC = new TextEncoder().encode("ARROW1");
+const encoder = new TextEncoder();
+
+type CoordinateColumn =
+  | { kind: "timestamp"; values: number[] }
+  | { kind: "float64"; values: number[] }
+  | { kind: "dictionary"; id: number; values: string[] }
+  /** Position along a dimension without coordinates */
+  | { kind: "index" };
+
+interface Block {
+  offset: number;
+  metadataLength: number;
+  bodyLength: number;
+}
+
+const bool = (value: boolean): FlatField => ({ kind: "bool", value });
+const scalar = (kind: "uint8" | "int16" | "int32" | "int64", value: number): FlatField => ({
+  kind,
+  value,
+});
+const text = (value: string): FlatField => ({ kind: "string", value });
+const table = (...fields: FlatField[]): FlatField => ({ kind: "table", fields });
+
+function keyValues(entries: Record<string, unknown>): FlatField {
+  const items = Object.entries(entries)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]): FlatField[] => [
+      text(key),
+      text(typeof value === "string" ? value : JSON.stringify(value)),
+    ]);
+  return items.length > 0 ? { kind: "tables", items } : undefined;
+}
+
+function fieldOf(
+  name: string,
+  typeId: number,
+  type: FlatField[],
+  options: { nullable: boolean; dictionaryId?: number; metadata?: Record<string, unknown> }
+): FlatField[] {
+  const dictionary =
+    options.dictionaryId === undefined
+      ? undefined
+      : table(
+          scalar("int64", options.dictionaryId),
+          table(scalar("int32", 32), bool(true)),
+          bool(false)
+        );
+  return [
+    text(name),
+    bool(options.nullable),
+    scalar("uint8", typeId),
+    table(...type),
+    dictionary,
+    { kind: "tables", items: [] },
+    keyValues(options.metadata ?? {}),
+  ];
+}
+
+function bytesOf(array: ArrayBufferView): Uint8Array {
+  return new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+/** Field nodes and buffers of a record batch, each buffer padded to eight bytes. */
+class BatchBody {
+  readonly nodes: number[][] = [];
+  readonly buffers: number[][] = [];
+  private readonly parts: Uint8Array[] = [];
+  private length = 0;
+
+  node(length: number, nullCount: number): void {
+    this.nodes.push([length, nullCount]);
+  }
+
+  buffer(bytes: Uint8Array): void {
+    const padding = (8 - (bytes.length % 8)) % 8;
+    this.buffers.push([this.length, bytes.length]);
+    this.parts.push(bytes, new Uint8Array(padding));
+    this.length += bytes.length + padding;
+  }
+
+  /** Fixed-width values, with a validity bitmap if any are NaN. */
+  values(array: Float32Array | Float64Array | BigInt64Array | Int32Array): void {
+    let nullCount = 0;
+    let validity = new Uint8Array(0);
+    if (array instanceof Float32Array || array instanceof Float64Array) {
+      const bitmap = new Uint8Array(Math.ceil(array.length / 8));
+      for (let i = 0; i < array.length; i++) {
+        if (Number.isNaN(array[i])) {
+          nullCount++;
+        } else {
+          bitmap[i >> 3] |= 1 << (i & 7);
+        }
+      }
+      if (nullCount > 0) validity = bitmap;
+    }
+    this.node(array.length, nullCount);
+    this.buffer(validity);
+    this.buffer(bytesOf(array));
+  }
+
+  strings(values: string[]): void {
+    const encoded = values.map((value) => encoder.encode(value));
+    const offsets = new Int32Array(values.length + 1);
+    encoded.forEach((value, i) => {
+      offsets[i + 1] = offsets[i] + value.length;
+    });
+    this.node(values.length, 0);
+    this.buffer(new Uint8Array(0));
+    this.buffer(bytesOf(offsets));
+    this.buffer(concatBytes(encoded));
+  }
+
+  recordBatch(length: number): FlatField[] {
+    return [
+      scalar("int64", length),
+      { kind: "structs", layout: ["int64", "int64"], items: this.nodes },
+      { kind: "structs", layout: ["int64", "int64"], items: this.buffers },
+    ];
+  }
+
+  bytes(): Uint8Array {
+    return concatBytes(this.parts);
+  }
+}
+
+/** An encapsulated IPC message: continuation marker, length, metadata, body. */
+function message(
+  headerType: number,
+  header: FlatField[],
+  body: Uint8Array = new Uint8Array(0)
+): { bytes: Uint8Array; metadataLength: number } {
+  const metadata = encodeFlatBuffer([
+    scalar("int16", METADATA_V5),
+    scalar("uint8", headerType),
+    table(...header),
+    scalar("int64", body.length),
+  ]);
+  const prefix = new DataView(new ArrayBuffer(8));
+  prefix.setUint32(0, 0xffffffff, true);
+  prefix.setInt32(4, metadata.length, true);
+  return {
+    bytes: concatBytes([new Uint8Array(prefix.buffer), metadata, body]),
+    metadataLength: 8 + metadata.length,
+  };
+}
+
+function variablesOf(
+  dataset: Dataset,
+  options: ArrowOptions
+): { variables: string[]; dims: string[] } {
+  const variables: string[] = options.variables ?? dataset.dataVars;
+  if (variables.length === 0) {
+    throw new InvalidSelectionError("Choose at least one variable to export.");
+  }
+  for (const name of variables) {
+    if (!dataset.dataVars.includes(name)) {
+      throw new InvalidSelectionError(`Variable "${name}" not found in dataset.`, {
+        code: "VARIABLE_NOT_FOUND",
+      });
+    }
+  }
+
+  const dims = [...dataset.getVariable(variables[0]).dims];
+  const mismatch = variables.find(
+    (name) => dataset.getVariable(name).dims.join() !== dims.join()
+  );
+  if (mismatch) {
+    throw new InvalidSelectionError(
+      `Variables "${variables[0]}" and "${mismatch}" have different dimensions; export them separately with \`variables\`.`
+    );
+  }
+  return { variables, dims };
+}
+
+function coordinateColumn(
+  dim: string,
+  raw: unknown,
+  timeDimension: string,
+  nextDictionaryId: () => number
+): CoordinateColumn {
+  if (!Array.isArray(raw)) return { kind: "index" };
+  const values: unknown[] = raw;
+  const isTime =
+    values.length > 0 &&
+    values.every(
+      (value) => value instanceof Date || (dim === timeDimension && typeof value === "string")
+    ) &&
+    values.every((value) => !Number.isNaN(toEpochMs(value)));
+  if (isTime) return { kind: "timestamp", values: values.map(toEpochMs) };
+  if (values.length > 0 && values.every((value) => typeof value === "string")) {
+    return { kind: "dictionary", id: nextDictionaryId(), values: values as string[] };
+  }
+  return { kind: "float64", values: values.map(Number) };
+}
+
+function coordinateField(dim: string, column: CoordinateColumn): FlatField[] {
+  switch (column.kind) {
+    case "timestamp":
+      return fieldOf(dim, TIMESTAMP, [scalar("int16", MILLISECOND), text("UTC")], {
+        nullable: false,
+      });
+    case "float64":
+      return fieldOf(dim, FLOATING_POINT, [scalar("int16", PRECISIONS.float64)], {
+        nullable: false,
+      });
+    case "dictionary":
+      return fieldOf(dim, UTF8, [], { nullable: false, dictionaryId: column.id });
+    case "index":
+      return fieldOf(dim, INT, [scalar("int32", 32), bool(true)], { nullable: false });
+  }
+}
+
+/**
+ * Yields the IPC messages: schema, dictionaries and one record batch per
+ * `chunkSize` time steps when `chunked`, reading only that slice of the
+ * dataset for each. The file format adds its magic and footer.
+ */
+async function* arrowChunks(
+  dataset: Dataset,
+  options: ArrowOptions,
+  chunked: boolean
+): AsyncGenerator<Uint8Array> {
+  const {
+    format = "stream",
+    valueType = "float64",
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    dimension = "time",
+  } = options;
+  if (format !== "stream" && format !== "file") {
+    throw new InvalidSelectionError(
+      `Unsupported Arrow format "${format}". Use "stream" or "file".`
+    );
+  }
+  if (valueType !== "float32" && valueType !== "float64") {
+    throw new InvalidSelectionError(
+      `Unsupported Arrow value type "${valueType}". Use "float32" or "float64".`
+    );
+  }
+  if (!(Number.isInteger(chunkSize) && chunkSize > 0)) {
+    throw new InvalidSelectionError("The Arrow chunk size must be a positive integer.");
+  }
+  const { variables, dims } = variablesOf(dataset, options);
+
+  let dictionaryCount = 0;
+  const coordinates = dims.map((dim) =>
+    coordinateColumn(dim, dataset.coords[dim], dimension, () => dictionaryCount++)
+  );
+  const schema = [
+    scalar("int16", ENDIANNESS),
+    {
+      kind: "tables",
+      items: [
+        ...dims.map((dim, axis) => coordinateField(dim, coordinates[axis])),
+        ...variables.map((name) =>
+          fieldOf(name, FLOATING_POINT, [scalar("int16", PRECISIONS[valueType])], {
+            nullable: true,
+            metadata: dataset.getVariable(name).attrs,
+          })
+        ),
+      ],
+    },
+    keyValues({ ...(dataset.attrs as Record<string, unknown> | undefined), ...options.metadata }),
+  ] satisfies FlatField[];
+
+  const file = format === "file";
+  const dictionaryBlocks: Block[] = [];
+  const recordBlocks: Block[] = [];
+  let position = 0;
+  function* emit(bytes: Uint8Array, blocks?: Block[], metadataLength = 0) {
+    blocks?.push({ offset: position, metadataLength, bodyLength: bytes.length - metadataLength });
+    position += bytes.length;
+    yield bytes;
+  }
+
+  if (file) yield* emit(concatBytes([MAGIC, new Uint8Array(2)]));
+  yield* emit(message(SCHEMA, schema).bytes);
+
+  for (const column of coordinates) {
+    if (column.kind !== "dictionary") continue;
+    const body = new BatchBody();
+    body.strings(column.values);
+    const { bytes, metadataLength } = message(
+      DICTIONARY_BATCH,
+      [scalar("int64", column.id), table(...body.recordBatch(column.values.length))],
+      body.bytes()
+    );
+    yield* emit(bytes, dictionaryBlocks, metadataLength);
+  }
+
+  const timeAxis = dims.indexOf(dimension);
+  const length = timeAxis === -1 ? 1 : dataset.sizes[dimension];
+  const chunkLength = chunked && timeAxis !== -1 ? chunkSize : length;
+
+  for (let offset = 0; offset < length; offset += chunkLength) {
+    const chunk =
+      chunkLength >= length
+        ? dataset
+        : await dataset.isel({
+            [dimension]: Array.from(
+              { length: Math.min(chunkLength, length - offset) },
+              (_, i) => offset + i
+            ),
+          });
+
+    const arrays: DataArray[] = [];
+    for (const name of variables) {
+      arrays.push(await chunk.getVariable(name).compute());
+    }
+    const shape = fromNested(arrays[0].data, dims.length).shape;
+    const strides = stridesOf(shape);
+    const rows = shape.reduce((product, size) => product * size, 1);
+
+    const body = new BatchBody();
+    coordinates.forEach((column, axis) => {
+      const start = axis === timeAxis ? offset : 0;
+      const indexOf = (row: number) => start + (Math.floor(row / strides[axis]) % shape[axis]);
+      switch (column.kind) {
+        case "timestamp":
+          body.values(
+            BigInt64Array.from({ length: rows }, (_, row) => BigInt(column.values[indexOf(row)]))
+          );
+          break;
+        case "float64":
+          body.values(Float64Array.from({ length: rows }, (_, row) => column.values[indexOf(row)]));
+          break;
+        default:
+          body.values(Int32Array.from({ length: rows }, (_, row) => indexOf(row)));
+      }
+    });
+    for (const array of arrays) {
+      const values = fromNested(array.data, dims.length).values;
+      body.values(valueType === "float32" ? Float32Array.from(values) : Float64Array.from(values));
+    }
+
+    const { bytes, metadataLength } = message(RECORD_BATCH, body.recordBatch(rows), body.bytes());
+    yield* emit(bytes, recordBlocks, metadataLength);
+  }
+
+  // End-of-stream marker
+  yield* emit(new Uint8Array([0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0]));
+
+  if (file) {
+    const blocks = (list: Block[]): FlatField => ({
+      kind: "structs",
+      layout: ["int64", "int32", "int64"],
+      items: list.map((block) => [block.offset, block.metadataLength, block.bodyLength]),
+    });
+    const footer = encodeFlatBuffer([
+      scalar("int16", METADATA_V5),
+      table(...schema),
+      blocks(dictionaryBlocks),
+      blocks(recordBlocks),
+    ]);
+    const footerLength = new DataView(new ArrayBuffer(4));
+    footerLength.setInt32(0, footer.length, true);
+    yield* emit(concatBytes([footer, new Uint8Array(footerLength.buffer), MAGIC]));
+  }
+}
+
+/**
+ * Writes data variables as an Apache Arrow IPC table for DuckDB-WASM,
+ * Perspective, Polars or apache-arrow's `tableFromIPC`: one column per
+ * dimension, then one per variable, and one row per grid cell and time
+ * step. Times are UTC millisecond timestamps, text coordinates
+ * dictionary-encoded strings, and missing values nulls. Variable attributes
+ * become field metadata and dataset attributes schema metadata. The
+ * variables must share their dimensions.
+ *
+ * @param dataset - The jaxray Dataset to export
+ * @param options - Variables, stream or file format, value type and metadata
+ * @returns The IPC bytes, as a single record batch
+ * @throws InvalidSelectionError if a variable is missing or the variables' dimensions differ
+ *
+ * @example
+ * ```typescript
+ * const bytes = await toArrow(data, { variables: ["precip"] });
+ * await conn.insertArrowFromIPCStream(bytes, { name: "precip" });
+ * ```
+ */
+export async function toArrow(dataset: Dataset, options: ArrowOptions = {}): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  for await (const chunk of arrowChunks(dataset, options, false)) {
+    parts.push(chunk);
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Streams the table of `toArrow`, reading and writing one record batch of
+ * `chunkSize` time steps at a time, so long series never sit in memory at
+ * once.
+ *
+ * @param dataset - The jaxray Dataset to export
+ * @param options - Variables, stream or file format, value type, metadata and chunk size
+ * @returns A ReadableStream of IPC bytes
+ *
+ * @example
+ * ```typescript
+ * import { RecordBatchReader } from "apache-arrow";
+ *
+ * const reader = await RecordBatchReader.from(toArrowStream(data));
+ * for await (const batch of reader) render(batch);
+ * ```
+ */
+export function toArrowStream(
+  dataset: Dataset,
+  options: ArrowOptions = {}
+): ReadableStream<Uint8Array> {
+  let chunks: AsyncGenerator<Uint8Array> | undefined;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      chunks ??= arrowChunks(dataset, options, true);
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks?.return(undefined);
+    },
+  });
+}
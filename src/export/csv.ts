@@ -0,0 +1,205 @@
+/**
+ * CSV export, as one string or streamed in chunks along time
+ */
+
+import type { Dataset, DataArray } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import { fromNested, stridesOf } from "../math/ndarray.js";
+import { toEpochMs } from "../math/periods.js";
+import type { CsvOptions } from "../types.js";
+import { valueRounder } from "./format.js";
+
+const DEFAULT_CHUNK_SIZE = 500;
+
+interface CsvLayout {
+  variables: string[];
+  dims: string[];
+  delimiter: string;
+}
+
+function layoutOf(dataset: Dataset, options: CsvOptions): CsvLayout {
+  const { delimiter = "," } = options;
+  if (delimiter.length === 0 || /["\r\n]/.test(delimiter)) {
+    throw new InvalidSelectionError(`Unusable CSV delimiter ${JSON.stringify(delimiter)}.`);
+  }
+
+  const variables: string[] = options.variables ?? dataset.dataVars;
+  if (variables.length === 0) {
+    throw new InvalidSelectionError("Choose at least one variable to export.");
+  }
+  for (const name of variables) {
+    if (!dataset.dataVars.includes(name)) {
+      throw new InvalidSelectionError(`Variable "${name}" not found in dataset.`, {
+        code: "VARIABLE_NOT_FOUND",
+      });
+    }
+  }
+
+  const dims = [...dataset.getVariable(variables[0]).dims];
+  const mismatch = variables.find(
+    (name) => dataset.getVariable(name).dims.join() !== dims.join()
+  );
+  if (mismatch) {
+    throw new InvalidSelectionError(
+      `Variables "${variables[0]}" and "${mismatch}" have different dimensions; export them separately with \`variables\`.`
+    );
+  }
+  return { variables, dims, delimiter };
+}
+
+function quote(field: string, delimiter: string): string {
+  return field.includes(delimiter) || /["\r\n]/.test(field)
+    ? `"${field.replace(/"/g, '""')}"`
+    : field;
+}
+
+function timeFormatter(format: CsvOptions["timeFormat"] = "iso"): (time: number) => string {
+  if (typeof format === "function") return (time) => format(new Date(time));
+  switch (format) {
+    case "epoch":
+      return (time) => String(time);
+    case "date":
+      return (time) => new Date(time).toISOString().slice(0, 10);
+    case "iso":
+      return (time) => new Date(time).toISOString();
+    default:
+      throw new InvalidSelectionError(
+        `Unsupported time format "${format}". Use "iso", "date", "epoch" or a function.`
+      );
+  }
+}
+
+/**
+ * Yields the header line, then the rows, `chunkSize` time steps at a time
+ * when `chunked`, reading only that slice of the dataset for each chunk.
+ */
+async function* csvChunks(
+  dataset: Dataset,
+  options: CsvOptions,
+  chunked: boolean
+): AsyncGenerator<string> {
+  const { precision, chunkSize = DEFAULT_CHUNK_SIZE, dimension = "time" } = options;
+  const { variables, dims, delimiter } = layoutOf(dataset, options);
+  const formatTime = timeFormatter(options.timeFormat);
+  if (!(Number.isInteger(chunkSize) && chunkSize > 0)) {
+    throw new InvalidSelectionError("The CSV chunk size must be a positive integer.");
+  }
+  const round = valueRounder(precision);
+
+  const formatCoord = (dim: string, value: unknown): string => {
+    if (value instanceof Date || (dim === dimension && typeof value === "string")) {
+      const time = toEpochMs(value);
+      if (!Number.isNaN(time)) return formatTime(time);
+    }
+    return quote(String(value), delimiter);
+  };
+  const formatValue = (value: number): string => {
+    if (value === null || value === undefined || Number.isNaN(value)) return "";
+    return String(round(value));
+  };
+
+  yield [...dims, ...variables].map((column) => quote(column, delimiter)).join(delimiter) + "\n";
+
+  const timeAxis = dims.indexOf(dimension);
+  const length = timeAxis === -1 ? 1 : dataset.sizes[dimension];
+  const chunkLength = chunked && timeAxis !== -1 ? chunkSize : length;
+
+  for (let offset = 0; offset < length; offset += chunkLength) {
+    const chunk =
+      chunkLength >= length
+        ? dataset
+        : await dataset.isel({
+            [dimension]: Array.from(
+              { length: Math.min(chunkLength, length - offset) },
+              (_, i) => offset + i
+            ),
+          });
+
+    const arrays: DataArray[] = [];
+    for (const name of variables) {
+      arrays.push(await chunk.getVariable(name).compute());
+    }
+    const columns = arrays.map((array) => fromNested(array.data, dims.length).values);
+    const shape = fromNested(arrays[0].data, dims.length).shape;
+    const strides = stridesOf(shape);
+    const coords = dims.map((dim, axis) => {
+      const values = arrays[0].coords[dim];
+      return Array.isArray(values)
+        ? values.map((value) => formatCoord(dim, value))
+        : Array.from({ length: shape[axis] }, (_, i) => String(i));
+    });
+
+    const lines: string[] = [];
+    for (let index = 0; index < columns[0].length; index++) {
+      const fields = dims.map(
+        (_, axis) => coords[axis][Math.floor(index / strides[axis]) % shape[axis]]
+      );
+      for (const column of columns) fields.push(formatValue(column[index]));
+      lines.push(fields.join(delimiter));
+    }
+    if (lines.length > 0) yield lines.join("\n") + "\n";
+  }
+}
+
+/**
+ * Writes data variables as CSV: one column per dimension, then one per
+ * variable, and one row per grid cell and time step. Missing values are
+ * empty fields. The variables must share their dimensions.
+ *
+ * @param dataset - The jaxray Dataset to export
+ * @param options - Variables, precision, time format and delimiter
+ * @returns The CSV text, header first
+ * @throws InvalidSelectionError if a variable is missing or the variables' dimensions differ
+ *
+ * @example
+ * ```typescript
+ * const csv = await toCSV(data, { variables: ["precip"], precision: 2, timeFormat: "date" });
+ * ```
+ */
+export async function toCSV(dataset: Dataset, options: CsvOptions = {}): Promise<string> {
+  let csv = "";
+  for await (const chunk of csvChunks(dataset, options, false)) {
+    csv += chunk;
+  }
+  return csv;
+}
+
+/**
+ * Streams the CSV of `toCSV` as UTF-8, reading and writing `chunkSize` time
+ * steps at a time, so long series never sit in memory at once. In Node,
+ * `Readable.fromWeb(stream)` turns it into a Node stream.
+ *
+ * @param dataset - The jaxray Dataset to export
+ * @param options - Variables, precision, time format, delimiter and chunk size
+ * @returns A ReadableStream of UTF-8 encoded CSV
+ *
+ * @example
+ * ```typescript
+ * import { createWriteStream } from "node:fs";
+ * import { Readable } from "node:stream";
+ *
+ * Readable.fromWeb(toCSVStream(data)).pipe(createWriteStream("era5.csv"));
+ * ```
+ */
+export function toCSVStream(
+  dataset: Dataset,
+  options: CsvOptions = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let chunks: AsyncGenerator<string> | undefined;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      chunks ??= csvChunks(dataset, options, true);
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+    async cancel() {
+      await chunks?.return(undefined);
+    },
+  });
+}
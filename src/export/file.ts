@@ -0,0 +1,7 @@
+import { loadFs } from "../node-fs.js";
+
+/** Writes an export to `path` (Node only). */
+export async function writeExportFile(path: string, data: Uint8Array | string): Promise<void> {
+  const fs = await loadFs();
+  await fs.writeFile(path, data);
+}
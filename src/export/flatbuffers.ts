@@ -0,0 +1,210 @@
+/**
+ * Minimal FlatBuffers builder for Arrow IPC metadata
+ *
+ * Lays buffers out front to back: each table is preceded by its vtable and
+ * followed by the strings, vectors and tables it refers to, so every offset
+ * points forward as the format requires. Scalars are little-endian and
+ * aligned to their size from the start of the buffer.
+ */
+
+/** Field stored inline in its table. */
+type ScalarField =
+  | { kind: "bool"; value: boolean }
+  | { kind: "uint8" | "int16" | "int32" | "int64"; value: number };
+
+/** Field stored after its table and reached through an offset. */
+type ChildField =
+  | { kind: "string"; value: string }
+  | { kind: "table"; fields: FlatField[] }
+  | { kind: "tables"; items: FlatField[][] }
+  | { kind: "structs"; layout: Array<"int32" | "int64">; items: number[][] };
+
+/** Table field, by position in the schema. `undefined` leaves a field out. */
+export type FlatField = undefined | ScalarField | ChildField;
+
+const SCALAR_SIZES: Record<string, number> = { bool: 1, uint8: 1, int16: 2, int32: 4, int64: 8 };
+
+const encoder = new TextEncoder();
+
+function alignTo(offset: number, alignment: number): number {
+  return Math.ceil(offset / alignment) * alignment;
+}
+
+/** Member offsets and total size of a struct, padded to eight bytes. */
+function structLayout(layout: Array<"int32" | "int64">): { offsets: number[]; size: number } {
+  let size = 0;
+  const offsets = layout.map((member) => {
+    const memberSize = member === "int64" ? 8 : 4;
+    size = alignTo(size, memberSize);
+    const offset = size;
+    size += memberSize;
+    return offset;
+  });
+  return { offsets, size: alignTo(size, 8) };
+}
+
+class Builder {
+  private buffer = new Uint8Array(512);
+  view = new DataView(this.buffer.buffer);
+  length = 0;
+
+  /** Advances by `bytes` zeroed bytes and returns where they start. */
+  allocate(bytes: number): number {
+    if (this.length + bytes > this.buffer.length) {
+      let size = this.buffer.length * 2;
+      while (size < this.length + bytes) size *= 2;
+      const next = new Uint8Array(size);
+      next.set(this.buffer.subarray(0, this.length));
+      this.buffer = next;
+      this.view = new DataView(next.buffer);
+    }
+    const start = this.length;
+    this.length += bytes;
+    return start;
+  }
+
+  align(alignment: number): void {
+    this.allocate(alignTo(this.length, alignment) - this.length);
+  }
+
+  bytes(bytes: Uint8Array): void {
+    const start = this.allocate(bytes.length);
+    this.buffer.set(bytes, start);
+  }
+
+  /** Points the offset at `slot` to `target`. */
+  link(slot: number, target: number): void {
+    this.view.setUint32(slot, target - slot, true);
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+function isScalar(field: ScalarField | ChildField): field is ScalarField {
+  return field.kind in SCALAR_SIZES;
+}
+
+function writeScalar(builder: Builder, at: number, field: ScalarField): void {
+  switch (field.kind) {
+    case "bool":
+      builder.view.setUint8(at, field.value ? 1 : 0);
+      break;
+    case "uint8":
+      builder.view.setUint8(at, field.value);
+      break;
+    case "int16":
+      builder.view.setInt16(at, field.value, true);
+      break;
+    case "int32":
+      builder.view.setInt32(at, field.value, true);
+      break;
+    case "int64":
+      builder.view.setBigInt64(at, BigInt(field.value), true);
+      break;
+  }
+}
+
+function writeTable(builder: Builder, fields: FlatField[]): number {
+  let count = fields.length;
+  while (count > 0 && fields[count - 1] === undefined) count--;
+
+  // Inline layout after the vtable offset: largest fields first
+  const sizeOf = (field: FlatField) =>
+    field === undefined ? 0 : (SCALAR_SIZES[field.kind] ?? 4);
+  const order = fields
+    .slice(0, count)
+    .map((field, index) => ({ field, index }))
+    .filter(
+      (entry): entry is { field: ScalarField | ChildField; index: number } =>
+        entry.field !== undefined
+    )
+    .sort((a, b) => sizeOf(b.field) - sizeOf(a.field));
+  const slots = new Array<number>(count).fill(0);
+  let size = 4;
+  for (const { field, index } of order) {
+    size = alignTo(size, sizeOf(field));
+    slots[index] = size;
+    size += sizeOf(field);
+  }
+
+  builder.align(2);
+  const vtable = builder.allocate(4 + 2 * count);
+  builder.view.setUint16(vtable, 4 + 2 * count, true);
+  builder.view.setUint16(vtable + 2, size, true);
+  slots.forEach((slot, i) => builder.view.setUint16(vtable + 4 + 2 * i, slot, true));
+
+  builder.align(order.some(({ field }) => sizeOf(field) === 8) ? 8 : 4);
+  const table = builder.allocate(size);
+  builder.view.setInt32(table, table - vtable, true);
+
+  const children: Array<{ slot: number; field: ChildField }> = [];
+  for (const { field, index } of order) {
+    if (isScalar(field)) {
+      writeScalar(builder, table + slots[index], field);
+    } else {
+      children.push({ slot: table + slots[index], field });
+    }
+  }
+  for (const { slot, field } of children) {
+    builder.link(slot, writeChild(builder, field));
+  }
+  return table;
+}
+
+function writeChild(builder: Builder, field: ChildField): number {
+  switch (field.kind) {
+    case "string": {
+      const bytes = encoder.encode(field.value);
+      builder.align(4);
+      const start = builder.allocate(4);
+      builder.view.setUint32(start, bytes.length, true);
+      builder.bytes(bytes);
+      builder.allocate(1); // NUL terminator
+      return start;
+    }
+    case "table":
+      return writeTable(builder, field.fields);
+    case "tables": {
+      builder.align(4);
+      const start = builder.allocate(4 + 4 * field.items.length);
+      builder.view.setUint32(start, field.items.length, true);
+      field.items.forEach((item, i) => {
+        const slot = start + 4 + 4 * i;
+        builder.link(slot, writeTable(builder, item));
+      });
+      return start;
+    }
+    case "structs": {
+      const { offsets, size } = structLayout(field.layout);
+      // The length precedes the elements, which are aligned to eight bytes
+      builder.align(4);
+      if (builder.length % 8 === 0) builder.allocate(4);
+      const start = builder.allocate(4);
+      builder.view.setUint32(start, field.items.length, true);
+      for (const item of field.items) {
+        const struct = builder.allocate(size);
+        field.layout.forEach((member, i) => {
+          if (member === "int64") {
+            builder.view.setBigInt64(struct + offsets[i], BigInt(item[i]), true);
+          } else {
+            builder.view.setInt32(struct + offsets[i], item[i], true);
+          }
+        });
+      }
+      return start;
+    }
+  }
+}
+
+/**
+ * Encodes a FlatBuffer with `root` as its root table, padded to eight bytes.
+ */
+export function encodeFlatBuffer(root: FlatField[]): Uint8Array {
+  const builder = new Builder();
+  const slot = builder.allocate(4);
+  builder.link(slot, writeTable(builder, root));
+  builder.align(8);
+  return builder.result();
+}
@@ -0,0 +1,14 @@
+import { toEpochMs } from "../math/periods.js";
+
+/** Rounds to `precision` decimal places, or leaves values as they are. */
+export function valueRounder(precision: number | undefined): (value: number) => number {
+  if (precision === undefined) return (value) => value;
+  const factor = 10 ** precision;
+  return (value) => Math.round(value * factor) / factor;
+}
+
+/** ISO 8601 text of a time coordinate value, or undefined if it isn't one. */
+export function isoTime(value: unknown): string | undefined {
+  const time = toEpochMs(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
@@ -0,0 +1,325 @@
+/**
+ * GeoJSON export of grid cells and selected points
+ */
+
+import type { Dataset } from "@dclimate/jaxray";
+import { inverseProjection } from "../crs.js";
+import { InvalidSelectionError } from "../errors.js";
+import { cellExtents } from "../math/geometry.js";
+import { matchLongitudeConvention, toLongitudeConvention } from "../math/longitudes.js";
+import { fromNested, stridesOf } from "../math/ndarray.js";
+import type {
+  GeoJsonExportOptions,
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+  GeoJsonPoint,
+  GeoJsonPolygon,
+} from "../types.js";
+import { isoTime, valueRounder } from "./format.js";
+
+/** Dimension `points` selections index their points along. */
+const POINT_DIMENSION = "point";
+
+type ExportGeometry = GeoJsonPoint | GeoJsonPolygon;
+
+interface Location {
+  latitude: number;
+  longitude: number;
+  /** Index along each spatial dimension. */
+  index: Record<string, number>;
+  geometry: ExportGeometry;
+  requested: Array<{ latitude: number; longitude: number }>;
+}
+
+interface ExportVariable {
+  name: string;
+  values: number[];
+  strides: Record<string, number>;
+  hasTime: boolean;
+}
+
+function coordinateValues(value: unknown): number[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).map(Number);
+}
+
+function pointGeometry(latitude: number, longitude: number): GeoJsonPoint {
+  return { type: "Point", coordinates: [toLongitudeConvention(longitude, "-180-180"), latitude] };
+}
+
+function cellGeometry(
+  longitude: number,
+  [south, north]: [number, number],
+  [west, east]: [number, number]
+): GeoJsonPolygon {
+  // Shift the cell with its centre, so 0–360 grids come out as -180–180
+  const shift = toLongitudeConvention(longitude, "-180-180") - longitude;
+  const [w, e] = [west + shift, east + shift];
+  return {
+    type: "Polygon",
+    coordinates: [
+      [
+        [w, south],
+        [e, south],
+        [e, north],
+        [w, north],
+        [w, south],
+      ],
+    ],
+  };
+}
+
+/**
+ * The cells (or points) features are written for. Gridded data yields every
+ * latitude/longitude combination, `points` selections one location per
+ * point, and a single point selection one location.
+ */
+function locationsOf(
+  dataset: Dataset,
+  dims: string[],
+  options: Required<Pick<GeoJsonExportOptions, "latitudeKey" | "longitudeKey" | "geometry">>
+): { locations: Location[]; spatialDims: string[] } {
+  const { latitudeKey, longitudeKey, geometry } = options;
+  const latitudes = coordinateValues(dataset.coords[latitudeKey]);
+  const longitudes = coordinateValues(dataset.coords[longitudeKey]);
+  if (latitudes.length === 0 || longitudes.length === 0) {
+    throw new InvalidSelectionError(
+      "Latitude/longitude coordinates were not found in the dataset."
+    );
+  }
+
+  const gridded = dims.includes(latitudeKey) && dims.includes(longitudeKey);
+  if (geometry === "cell" && !gridded) {
+    throw new InvalidSelectionError(
+      'Cell geometries need latitude and longitude dimensions; use geometry: "point".'
+    );
+  }
+
+  if (gridded) {
+    const latExtents = cellExtents(latitudes);
+    const lonExtents = cellExtents(longitudes);
+    const locations = latitudes.flatMap((latitude, row) =>
+      longitudes.map((longitude, column) => ({
+        latitude,
+        longitude,
+        index: { [latitudeKey]: row, [longitudeKey]: column },
+        geometry:
+          geometry === "cell"
+            ? cellGeometry(longitude, latExtents[row], lonExtents[column])
+            : pointGeometry(latitude, longitude),
+        requested: [],
+      }))
+    );
+    return { locations, spatialDims: [latitudeKey, longitudeKey] };
+  }
+
+  if (dims.includes(POINT_DIMENSION)) {
+    const count = dataset.sizes[POINT_DIMENSION] ?? latitudes.length;
+    const locations = Array.from({ length: count }, (_, point) => {
+      const latitude = latitudes[latitudes.length === count ? point : 0];
+      const longitude = longitudes[longitudes.length === count ? point : 0];
+      return {
+        latitude,
+        longitude,
+        index: { [POINT_DIMENSION]: point },
+        geometry: pointGeometry(latitude, longitude),
+        requested: [],
+      };
+    });
+    return { locations, spatialDims: [POINT_DIMENSION] };
+  }
+
+  return {
+    locations: [
+      {
+        latitude: latitudes[0],
+        longitude: longitudes[0],
+        index: {},
+        geometry: pointGeometry(latitudes[0], longitudes[0]),
+        requested: [],
+      },
+    ],
+    spatialDims: [],
+  };
+}
+
+/**
+ * Attaches the coordinates a `points` selection was asked for to the
+ * locations they were snapped to: by position for a `point` dimension,
+ * otherwise to the nearest location.
+ */
+function attachRequested(
+  locations: Location[],
+  dataset: Dataset,
+  longitudeKey: string,
+  byPosition: boolean
+): void {
+  const latitudes = dataset.coords.requested_latitude;
+  const longitudes = dataset.coords.requested_longitude;
+  if (!Array.isArray(latitudes) || !Array.isArray(longitudes)) return;
+  const attrs: Record<string, unknown> = dataset.attrs ?? {};
+  const epsg = typeof attrs.requested_epsg === "number" ? attrs.requested_epsg : 4326;
+  const inverse = epsg === 4326 ? undefined : inverseProjection(epsg);
+
+  latitudes.forEach((latitude: number, i) => {
+    const requested = { latitude, longitude: longitudes[i] as number };
+    if (byPosition && locations.length === latitudes.length) {
+      locations[i].requested.push(requested);
+      return;
+    }
+    const [lon, lat] = inverse
+      ? inverse(requested.longitude, requested.latitude)
+      : [requested.longitude, requested.latitude];
+    const matchedLon = matchLongitudeConvention(lon, dataset.coords[longitudeKey]);
+    let nearest = locations[0];
+    let best = Infinity;
+    for (const location of locations) {
+      const dLon = Math.abs(location.longitude - matchedLon) % 360;
+      const distance = (location.latitude - lat) ** 2 + Math.min(dLon, 360 - dLon) ** 2;
+      if (distance < best) {
+        best = distance;
+        nearest = location;
+      }
+    }
+    nearest.requested.push(requested);
+  });
+}
+
+/**
+ * Converts data variables to a GeoJSON FeatureCollection with one Feature
+ * per grid cell, as its centre point or cell polygon, and the variables as
+ * properties. Over time, each feature either holds a `time` array and one
+ * array per variable ("series"), or there is one feature per time step
+ * ("features"). Longitudes are written from -180 to 180 and missing values
+ * as null.
+ *
+ * Selections from `points` keep the coordinates as requested in a
+ * `requested` property, next to the snapped grid coordinates.
+ *
+ * @param dataset - The jaxray Dataset to convert
+ * @param options - Variables, geometry, time layout, precision and coordinate names
+ * @returns A FeatureCollection of Point or Polygon features
+ * @throws InvalidSelectionError if coordinates are missing or a variable has other dimensions
+ *
+ * @example
+ * ```typescript
+ * const layer = await toGeoJSON(data, { geometry: "cell", time: "features" });
+ * map.addSource("precip", { type: "geojson", data: layer });
+ * ```
+ */
+export async function toGeoJSON(
+  dataset: Dataset,
+  options: GeoJsonExportOptions = {}
+): Promise<GeoJsonFeatureCollection<ExportGeometry>> {
+  const {
+    geometry = "point",
+    time = "series",
+    precision,
+    latitudeKey = "latitude",
+    longitudeKey = "longitude",
+    dimension = "time",
+  } = options;
+  if (geometry !== "point" && geometry !== "cell") {
+    throw new InvalidSelectionError(`Unsupported geometry "${geometry}". Use "point" or "cell".`);
+  }
+  if (time !== "series" && time !== "features") {
+    throw new InvalidSelectionError(`Unsupported time layout "${time}". Use "series" or "features".`);
+  }
+
+  const names: string[] = options.variables ?? dataset.dataVars;
+  if (names.length === 0) {
+    throw new InvalidSelectionError("Choose at least one variable to export.");
+  }
+  for (const name of names) {
+    if (!dataset.dataVars.includes(name)) {
+      throw new InvalidSelectionError(`Variable "${name}" not found in dataset.`, {
+        code: "VARIABLE_NOT_FOUND",
+      });
+    }
+  }
+
+  const first = dataset.getVariable(names[0]);
+  const { locations, spatialDims } = locationsOf(dataset, [...first.dims], {
+    latitudeKey,
+    longitudeKey,
+    geometry,
+  });
+  attachRequested(locations, dataset, longitudeKey, spatialDims[0] === POINT_DIMENSION);
+
+  const variables: ExportVariable[] = [];
+  for (const name of names) {
+    const variable = await dataset.getVariable(name).compute();
+    const dims: string[] = [...variable.dims];
+    const others = dims.filter((dim) => !spatialDims.includes(dim));
+    if (
+      spatialDims.some((dim) => !dims.includes(dim)) ||
+      others.some((dim) => dim !== dimension)
+    ) {
+      throw new InvalidSelectionError(
+        `Variable "${name}" has dimensions (${dims.join(", ")}); GeoJSON export needs (${[...spatialDims, dimension].join(", ")}). Select or reduce the others first.`
+      );
+    }
+    const array = fromNested(variable.data, dims.length);
+    const strides = stridesOf(array.shape);
+    variables.push({
+      name,
+      values: array.values,
+      strides: Object.fromEntries(dims.map((dim, axis) => [dim, strides[axis]])),
+      hasTime: others.length > 0,
+    });
+  }
+
+  const timeCoords = dataset.coords[dimension];
+  const times = variables.some((variable) => variable.hasTime)
+    ? coordinateValues(timeCoords).map((_, i) => {
+        const value = (timeCoords as unknown[])[i];
+        return isoTime(value) ?? String(value);
+      })
+    : [];
+
+  const round = valueRounder(precision);
+  const valueAt = (variable: ExportVariable, location: Location, step: number) => {
+    let offset = variable.hasTime ? step * variable.strides[dimension] : 0;
+    for (const dim of spatialDims) offset += location.index[dim] * variable.strides[dim];
+    const value = variable.values[offset];
+    return Number.isFinite(value) ? round(value) : null;
+  };
+
+  const feature = (
+    location: Location,
+    properties: Record<string, unknown>
+  ): GeoJsonFeature<ExportGeometry> => {
+    if (location.requested.length > 0) properties.requested = location.requested;
+    return { type: "Feature", geometry: location.geometry, properties };
+  };
+
+  let features: Array<GeoJsonFeature<ExportGeometry>>;
+  if (time === "features" && times.length > 0) {
+    features = times.flatMap((label, step) =>
+      locations.map((location) =>
+        feature(location, {
+          time: label,
+          ...Object.fromEntries(
+            variables.map((variable) => [variable.name, valueAt(variable, location, step)])
+          ),
+        })
+      )
+    );
+  } else {
+    features = locations.map((location) =>
+      feature(location, {
+        ...(times.length > 0 ? { time: times } : {}),
+        ...Object.fromEntries(
+          variables.map((variable) => [
+            variable.name,
+            variable.hasTime
+              ? times.map((_, step) => valueAt(variable, location, step))
+              : valueAt(variable, location, 0),
+          ])
+        ),
+      })
+    );
+  }
+
+  return { type: "FeatureCollection", features };
+}
@@ -0,0 +1,395 @@
+/**
+ * GeoTIFF export of latitude/longitude grids
+ *
+ * Writes an uncompressed little-endian TIFF of 32-bit float bands, pixel
+ * interleaved in strips, georeferenced in WGS 84 with the GeoTIFF model
+ * tiepoint and pixel scale tags. Band names, units and nodata use the GDAL
+ * metadata tags, which GDAL, QGIS and ArcGIS read.
+ */
+
+import type { Dataset } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import { fromNested, stridesOf } from "../math/ndarray.js";
+import { toEpochMs } from "../math/periods.js";
+import type { GeoTiffOptions } from "../types.js";
+import { isoTime } from "./format.js";
+
+const BYTE = 1;
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const DOUBLE = 12;
+const TYPE_SIZES: Record<number, number> = {
+  [BYTE]: 1,
+  [ASCII]: 1,
+  [SHORT]: 2,
+  [LONG]: 4,
+  [DOUBLE]: 8,
+};
+
+const TAGS = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometricInterpretation: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfiguration: 284,
+  extraSamples: 338,
+  sampleFormat: 339,
+  modelPixelScale: 33550,
+  modelTiepoint: 33922,
+  geoKeyDirectory: 34735,
+  gdalMetadata: 42112,
+  gdalNodata: 42113,
+};
+
+// GeoKeys: geographic model, pixels as areas, WGS 84
+const GEO_KEYS = [
+  [1024, 0, 1, 2], // GTModelTypeGeoKey: ModelTypeGeographic
+  [1025, 0, 1, 1], // GTRasterTypeGeoKey: RasterPixelIsArea
+  [2048, 0, 1, 4326], // GeographicTypeGeoKey: EPSG:4326
+];
+
+const STRIP_BYTES = 65_536;
+const TIFF_LIMIT = 2 ** 32 - 1;
+// Relative difference allowed between grid steps
+const SPACING_TOLERANCE = 1e-4;
+
+const encoder = new TextEncoder();
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  values: number[] | string;
+}
+
+interface Band {
+  values: number[];
+  offset: (row: number, column: number) => number;
+  description: string;
+  units?: string;
+}
+
+function alignTo(offset: number, alignment: number): number {
+  return Math.ceil(offset / alignment) * alignment;
+}
+
+function encodeEntry(entry: IfdEntry): Uint8Array {
+  if (typeof entry.values === "string") return encoder.encode(`${entry.values}\0`);
+  const size = TYPE_SIZES[entry.type];
+  const view = new DataView(new ArrayBuffer(entry.values.length * size));
+  entry.values.forEach((value, i) => {
+    switch (entry.type) {
+      case BYTE:
+        view.setUint8(i, value);
+        break;
+      case SHORT:
+        view.setUint16(i * 2, value, true);
+        break;
+      case LONG:
+        view.setUint32(i * 4, value, true);
+        break;
+      case DOUBLE:
+        view.setFloat64(i * 8, value, true);
+        break;
+    }
+  });
+  return new Uint8Array(view.buffer);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function gdalMetadata(metadata: Record<string, unknown>, bands: Band[]): string {
+  const items = Object.entries(metadata)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([name, value]) => {
+      const text = typeof value === "string" ? value : JSON.stringify(value);
+      return `<Item name="${escapeXml(name)}">${escapeXml(text)}</Item>`;
+    });
+  bands.forEach((band, sample) => {
+    items.push(
+      `<Item name="DESCRIPTION" sample="${sample}" role="description">${escapeXml(band.description)}</Item>`
+    );
+    if (band.units !== undefined) {
+      items.push(
+        `<Item name="UNITTYPE" sample="${sample}" role="unittype">${escapeXml(band.units)}</Item>`
+      );
+    }
+  });
+  return `<GDALMetadata>${items.join("")}</GDALMetadata>`;
+}
+
+/** Evenly spaced grid axis: its step, and whether it runs in the wrong direction. */
+function gridAxis(name: string, values: number[]): { step: number; reversed: boolean } {
+  if (values.length < 2) {
+    throw new InvalidSelectionError(
+      `GeoTIFF export needs at least two ${name} values to infer the pixel size.`
+    );
+  }
+  const step = values[1] - values[0];
+  for (let i = 2; i < values.length; i++) {
+    if (Math.abs(values[i] - values[i - 1] - step) > Math.abs(step) * SPACING_TOLERANCE) {
+      throw new InvalidSelectionError(
+        `GeoTIFF export needs evenly spaced ${name} values; ${name} ${values[i - 1]} to ${values[i]} breaks the spacing.`
+      );
+    }
+  }
+  return { step: Math.abs(step), reversed: step < 0 };
+}
+
+/** Indices along the band dimension for the requested times. */
+function timeIndices(
+  times: GeoTiffOptions["time"],
+  coordinate: unknown,
+  dimension: string
+): number[] | undefined {
+  if (times === undefined) return undefined;
+  const available: number[] = (Array.isArray(coordinate) ? coordinate : [coordinate]).map(
+    toEpochMs
+  );
+  return (Array.isArray(times) ? times : [times]).map((time) => {
+    const index = available.indexOf(toEpochMs(time));
+    if (index === -1) {
+      throw new InvalidSelectionError(
+        `Time ${isoTime(time) ?? String(time)} is not along the "${dimension}" dimension.`
+      );
+    }
+    return index;
+  });
+}
+
+/**
+ * Encodes data variables on a latitude/longitude grid as a GeoTIFF, with
+ * one 32-bit float band per variable and time step. The affine transform
+ * comes from the coordinates, which must be evenly spaced; rows run north
+ * to south and 0–360 grids are shifted west of the antimeridian where they
+ * lie wholly east of it. Missing values are written as the first
+ * variable's `_FillValue`, or NaN, and declared as nodata.
+ *
+ * Other than the band dimension (usually time), variables may only have
+ * latitude and longitude dimensions; select a single step or aggregate
+ * first.
+ *
+ * @param dataset - The jaxray Dataset to encode
+ * @param options - Variables, time steps, metadata and coordinate names
+ * @returns The file contents
+ * @throws InvalidSelectionError if the grid is irregular, a time is missing or a variable has other dimensions
+ *
+ * @example
+ * ```typescript
+ * const bytes = await toGeoTIFF(data, { variable: "precip", time: "2024-06-01" });
+ * await writeFile("precip.tif", bytes);
+ * ```
+ */
+export async function toGeoTIFF(
+  dataset: Dataset,
+  options: GeoTiffOptions = {}
+): Promise<Uint8Array> {
+  const { latitudeKey = "latitude", longitudeKey = "longitude", dimension = "time" } = options;
+  const names: string[] =
+    options.variable === undefined
+      ? dataset.dataVars
+      : Array.isArray(options.variable)
+        ? options.variable
+        : [options.variable];
+  if (names.length === 0) {
+    throw new InvalidSelectionError("Choose at least one variable to export.");
+  }
+  for (const name of names) {
+    if (!dataset.dataVars.includes(name)) {
+      throw new InvalidSelectionError(`Variable "${name}" not found in dataset.`, {
+        code: "VARIABLE_NOT_FOUND",
+      });
+    }
+  }
+
+  const latitudes = dataset.coords[latitudeKey];
+  const longitudes = dataset.coords[longitudeKey];
+  if (!Array.isArray(latitudes) || !Array.isArray(longitudes)) {
+    throw new InvalidSelectionError(
+      "GeoTIFF export needs latitude and longitude dimensions with coordinates."
+    );
+  }
+  const lat = gridAxis("latitude", latitudes.map(Number));
+  const lon = gridAxis("longitude", longitudes.map(Number));
+  const height = latitudes.length;
+  const width = longitudes.length;
+  // North-up rows and west-to-east columns
+  const latIndex = (row: number) => (lat.reversed ? row : height - 1 - row);
+  const lonIndex = (column: number) => (lon.reversed ? width - 1 - column : column);
+
+  const bands: Band[] = [];
+  let nodata = NaN;
+  let nodataSet = false;
+  let requested: number[] | undefined;
+  for (const name of names) {
+    const variable = await dataset.getVariable(name).compute();
+    const dims: string[] = [...variable.dims];
+    const others = dims.filter((dim) => dim !== latitudeKey && dim !== longitudeKey);
+    if (!dims.includes(latitudeKey) || !dims.includes(longitudeKey) || others.length > 1) {
+      throw new InvalidSelectionError(
+        `Variable "${name}" has dimensions (${dims.join(", ")}); GeoTIFF export needs (${latitudeKey}, ${longitudeKey}) and at most one band dimension. Select or reduce the others first.`
+      );
+    }
+    const array = fromNested(variable.data, dims.length);
+    const strides = stridesOf(array.shape);
+    const strideOf = (dim: string) => strides[dims.indexOf(dim)];
+    const pixel = (row: number, column: number) =>
+      latIndex(row) * strideOf(latitudeKey) + lonIndex(column) * strideOf(longitudeKey);
+
+    const fill = variable.attrs._FillValue;
+    if (!nodataSet && typeof fill === "number") {
+      nodata = fill;
+      nodataSet = true;
+    }
+    const units = typeof variable.attrs.units === "string" ? variable.attrs.units : undefined;
+
+    const bandDim = others[0];
+    if (bandDim === undefined) {
+      bands.push({ values: array.values, offset: pixel, description: name, units });
+      continue;
+    }
+    if (options.time !== undefined && bandDim !== dimension) {
+      throw new InvalidSelectionError(
+        `Variable "${name}" has bands along "${bandDim}", not the time dimension "${dimension}".`
+      );
+    }
+    const labels = dataset.coords[bandDim];
+    requested ??= timeIndices(options.time, labels, dimension);
+    const steps =
+      requested ?? Array.from({ length: array.shape[dims.indexOf(bandDim)] }, (_, i) => i);
+    for (const step of steps) {
+      const label: unknown = Array.isArray(labels) ? labels[step] : step;
+      const text = (bandDim === dimension ? isoTime(label) : undefined) ?? String(label);
+      bands.push({
+        values: array.values,
+        offset: (row, column) => pixel(row, column) + step * strideOf(bandDim),
+        description: `${name} ${text}`,
+        units,
+      });
+    }
+  }
+
+  // Upper-left corner of the upper-left pixel
+  const west = Math.min(Number(longitudes[0]), Number(longitudes[width - 1]));
+  const north = Math.max(Number(latitudes[0]), Number(latitudes[height - 1]));
+  const shift = west > 180 ? -360 : 0;
+  const originX = west + shift - lon.step / 2;
+  const originY = north + lat.step / 2;
+
+  const rowBytes = width * bands.length * 4;
+  const rowsPerStrip = Math.max(1, Math.floor(STRIP_BYTES / rowBytes));
+  const stripCount = Math.ceil(height / rowsPerStrip);
+  const metadata = gdalMetadata(
+    { ...(dataset.attrs as Record<string, unknown> | undefined), ...options.metadata },
+    bands
+  );
+
+  const entriesFor = (dataOffset: number): IfdEntry[] => {
+    const strips = Array.from({ length: stripCount }, (_, i) => i * rowsPerStrip);
+    const entries: IfdEntry[] = [
+      { tag: TAGS.imageWidth, type: LONG, values: [width] },
+      { tag: TAGS.imageLength, type: LONG, values: [height] },
+      { tag: TAGS.bitsPerSample, type: SHORT, values: bands.map(() => 32) },
+      { tag: TAGS.compression, type: SHORT, values: [1] },
+      { tag: TAGS.photometricInterpretation, type: SHORT, values: [1] },
+      {
+        tag: TAGS.stripOffsets,
+        type: LONG,
+        values: strips.map((row) => dataOffset + row * rowBytes),
+      },
+      { tag: TAGS.samplesPerPixel, type: SHORT, values: [bands.length] },
+      { tag: TAGS.rowsPerStrip, type: LONG, values: [rowsPerStrip] },
+      {
+        tag: TAGS.stripByteCounts,
+        type: LONG,
+        values: strips.map((row) => Math.min(rowsPerStrip, height - row) * rowBytes),
+      },
+      { tag: TAGS.planarConfiguration, type: SHORT, values: [1] },
+      ...(bands.length > 1
+        ? [{ tag: TAGS.extraSamples, type: SHORT, values: bands.slice(1).map(() => 0) }]
+        : []),
+      { tag: TAGS.sampleFormat, type: SHORT, values: bands.map(() => 3) },
+      { tag: TAGS.modelPixelScale, type: DOUBLE, values: [lon.step, lat.step, 0] },
+      { tag: TAGS.modelTiepoint, type: DOUBLE, values: [0, 0, 0, originX, originY, 0] },
+      {
+        tag: TAGS.geoKeyDirectory,
+        type: SHORT,
+        values: [1, 1, 0, GEO_KEYS.length, ...GEO_KEYS.flat()],
+      },
+      { tag: TAGS.gdalMetadata, type: ASCII, values: metadata },
+      {
+        tag: TAGS.gdalNodata,
+        type: ASCII,
+        values: Number.isNaN(nodata) ? "nan" : String(Math.fround(nodata)),
+      },
+    ];
+    return entries;
+  };
+
+  // Header, then the IFD, then values that don't fit in an entry, then pixels
+  const layout = (entries: IfdEntry[]) => {
+    let offset = 8 + 2 + entries.length * 12 + 4;
+    const encoded = entries.map((entry) => {
+      const bytes = encodeEntry(entry);
+      if (bytes.length <= 4) return { bytes, at: undefined };
+      offset = alignTo(offset, 8);
+      const at = offset;
+      offset += bytes.length;
+      return { bytes, at };
+    });
+    return { encoded, end: alignTo(offset, 8) };
+  };
+  const dataOffset = layout(entriesFor(0)).end;
+  const entries = entriesFor(dataOffset);
+  const { encoded } = layout(entries);
+  const size = dataOffset + height * rowBytes;
+  if (size > TIFF_LIMIT) {
+    throw new InvalidSelectionError(
+      "The selection is too large for a GeoTIFF; select a smaller area or fewer bands."
+    );
+  }
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  bytes.set(encoder.encode("II"));
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, entries.length, true);
+  entries.forEach((entry, i) => {
+    const at = 10 + i * 12;
+    const { bytes: value, at: valueOffset } = encoded[i];
+    view.setUint16(at, entry.tag, true);
+    view.setUint16(at + 2, entry.type, true);
+    view.setUint32(at + 4, value.length / TYPE_SIZES[entry.type], true);
+    if (valueOffset === undefined) {
+      bytes.set(value, at + 8);
+    } else {
+      view.setUint32(at + 8, valueOffset, true);
+      bytes.set(value, valueOffset);
+    }
+  });
+
+  let offset = dataOffset;
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      for (const band of bands) {
+        const value = band.values[band.offset(row, column)];
+        const missing = value === null || value === undefined || Number.isNaN(value);
+        view.setFloat32(offset, missing ? nodata : value, true);
+        offset += 4;
+      }
+    }
+  }
+  return bytes;
+}
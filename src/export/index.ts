@@ -0,0 +1,6 @@
+export { toArrow, toArrowStream } from "./arrow.js";
+export { toCSV, toCSVStream } from "./csv.js";
+export { toGeoJSON } from "./geojson.js";
+export { toGeoTIFF } from "./geotiff.js";
+export { toNetCDF } from "./netcdf.js";
+export { writeExportFile } from "./file.js";
@@ -0,0 +1,516 @@
+/**
+ * NetCDF-3 (classic and 64-bit offset) writer
+ *
+ * Follows the NetCDF classic format specification: a big-endian header of
+ * dimensions, global attributes and variables, then each variable's values
+ * contiguously, padded to four bytes. There is no record dimension.
+ */
+
+import type { Dataset } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import { fromNested } from "../math/ndarray.js";
+import { toEpochMs } from "../math/periods.js";
+import type { NetCDFDataType, NetCDFOptions } from "../types.js";
+
+const NC_DIMENSION = 0x0a;
+const NC_VARIABLE = 0x0b;
+const NC_ATTRIBUTE = 0x0c;
+
+const NC_CHAR = 2;
+const TYPE_CODES: Record<NetCDFDataType, number> = {
+  byte: 1,
+  short: 3,
+  int: 4,
+  float: 5,
+  double: 6,
+};
+const TYPE_SIZES: Record<NetCDFDataType, number> = {
+  byte: 1,
+  short: 2,
+  int: 4,
+  float: 4,
+  double: 8,
+};
+// Default fill values of the NetCDF library, for missing integers
+const FILL_VALUES: Partial<Record<NetCDFDataType, number>> = {
+  byte: -127,
+  short: -32767,
+  int: -2147483647,
+};
+const INTEGER_RANGES: Partial<Record<NetCDFDataType, [number, number]>> = {
+  byte: [-128, 127],
+  short: [-32768, 32767],
+  int: [-2147483648, 2147483647],
+};
+
+// Typed arrays and the NetCDF-3 type that holds their values without loss
+const STORAGE_TYPES: Record<string, NetCDFDataType> = {
+  Int8Array: "byte",
+  Uint8Array: "short",
+  Uint8ClampedArray: "short",
+  Int16Array: "short",
+  Uint16Array: "int",
+  Int32Array: "int",
+  Float32Array: "float",
+};
+
+const CLASSIC_LIMIT = 2 ** 31 - 1;
+const VSIZE_LIMIT = 2 ** 32 - 4;
+
+type Attributes = Record<string, unknown>;
+
+interface NcVariable {
+  name: string;
+  dims: string[];
+  attrs: Attributes;
+  type: NetCDFDataType | "char";
+  values: ArrayLike<number> | Uint8Array;
+}
+
+/** Growable big-endian byte buffer. */
+class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  private view = new DataView(this.buffer.buffer);
+  length = 0;
+
+  private reserve(bytes: number): void {
+    if (this.length + bytes <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + bytes) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  int32(value: number): void {
+    this.reserve(4);
+    this.view.setInt32(this.length, value);
+    this.length += 4;
+  }
+
+  uint32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  int64(value: number): void {
+    this.reserve(8);
+    this.view.setBigInt64(this.length, BigInt(value));
+    this.length += 8;
+  }
+
+  bytes(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  values(type: NetCDFDataType | "char", values: ArrayLike<number>): void {
+    const size = type === "char" ? 1 : TYPE_SIZES[type];
+    this.reserve(values.length * size);
+    for (let i = 0; i < values.length; i++) {
+      const offset = this.length + i * size;
+      const value = values[i];
+      switch (type) {
+        case "char":
+        case "byte":
+          this.view.setInt8(offset, value);
+          break;
+        case "short":
+          this.view.setInt16(offset, value);
+          break;
+        case "int":
+          this.view.setInt32(offset, value);
+          break;
+        case "float":
+          this.view.setFloat32(offset, value);
+          break;
+        case "double":
+          this.view.setFloat64(offset, value);
+          break;
+      }
+    }
+    this.length += values.length * size;
+  }
+
+  pad(): void {
+    const padding = (4 - (this.length % 4)) % 4;
+    this.bytes(new Uint8Array(padding));
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+const encoder = new TextEncoder();
+
+/** Slash, ASCII control characters and DEL are not allowed in names. */
+function isReservedChar(code: number): boolean {
+  return code === 0x2f || code <= 0x1f || code === 0x7f;
+}
+
+function checkName(name: string): string {
+  const reserved = Array.from(name).some((char) => isReservedChar(char.charCodeAt(0)));
+  if (name.length === 0 || reserved || name !== name.trim()) {
+    throw new InvalidSelectionError(`"${name}" is not a valid NetCDF name.`);
+  }
+  return name;
+}
+
+function writeName(writer: ByteWriter, name: string): void {
+  const bytes = encoder.encode(checkName(name));
+  writer.int32(bytes.length);
+  writer.bytes(bytes);
+  writer.pad();
+}
+
+function inferType(values: ArrayLike<number>): NetCDFDataType {
+  const [min, max] = INTEGER_RANGES.int!;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (!Number.isInteger(value) || value < min || value > max) return "double";
+  }
+  return "int";
+}
+
+/**
+ * Type of an attribute value as written: text, whole numbers as int and
+ * other numbers as double. Anything else is written as JSON text.
+ */
+function attributeValue(
+  value: unknown,
+  type?: NetCDFDataType
+): { type: NetCDFDataType | "char"; values: ArrayLike<number> } {
+  if (value instanceof Date) return attributeValue(value.toISOString());
+  if (typeof value === "boolean") return { type: "int", values: [value ? 1 : 0] };
+  const numeric =
+    Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === "number");
+  if (typeof value === "number" || numeric) {
+    const values = (Array.isArray(value) ? value : [value]) as number[];
+    return { type: type ?? inferType(values), values };
+  }
+  if (Array.isArray(value) && value.every((v) => typeof v === "string")) {
+    return attributeValue(value.join(", "));
+  }
+  const text = typeof value === "string" ? value : JSON.stringify(value) ?? String(value);
+  return { type: "char", values: encoder.encode(text) };
+}
+
+function writeAttributes(
+  writer: ByteWriter,
+  attrs: Attributes,
+  variableType?: NetCDFDataType
+): void {
+  const entries = Object.entries(attrs).filter(
+    ([, value]) => value !== undefined && value !== null
+  );
+  if (entries.length === 0) {
+    writer.int32(0);
+    writer.int32(0);
+    return;
+  }
+  writer.int32(NC_ATTRIBUTE);
+  writer.int32(entries.length);
+  for (const [name, value] of entries) {
+    // Fill values share their variable's type
+    const sameType = name === "_FillValue" || name === "missing_value";
+    const attribute = attributeValue(value, sameType ? variableType : undefined);
+    writeName(writer, name);
+    writer.int32(attribute.type === "char" ? NC_CHAR : TYPE_CODES[attribute.type]);
+    writer.int32(attribute.values.length);
+    writer.values(attribute.type, attribute.values);
+    writer.pad();
+  }
+}
+
+/** CF units for epoch milliseconds, in the coarsest unit that is exact. */
+function encodeTimes(times: number[]): { values: number[]; units: string } {
+  const steps: Array<[string, number]> = [
+    ["days", 86_400_000],
+    ["hours", 3_600_000],
+    ["minutes", 60_000],
+    ["seconds", 1_000],
+    ["milliseconds", 1],
+  ];
+  const [unit, ms] = steps.find(([, size]) => times.every((time) => time % size === 0))!;
+  return {
+    values: times.map((time) => time / ms),
+    units: `${unit} since 1970-01-01 00:00:00`,
+  };
+}
+
+/** The innermost array of nested `data`, whose class tells how values are stored. */
+function innermostArray(data: unknown, ndim: number): unknown {
+  let level = data;
+  for (let depth = 1; depth < ndim; depth++) {
+    level = (level as ArrayLike<unknown>)[0];
+  }
+  return level;
+}
+
+/**
+ * NetCDF type of a data variable or coordinate: the requested type, else the
+ * type matching a typed array's storage, else "double".
+ */
+function typeOf(name: string, storage: unknown, options: NetCDFOptions): NetCDFDataType {
+  const requested = options.dtypes?.[name];
+  if (requested !== undefined) {
+    if (!(requested in TYPE_CODES)) {
+      throw new InvalidSelectionError(
+        `Unsupported NetCDF type "${requested}" for "${name}". Use byte, short, int, float or double.`
+      );
+    }
+    return requested;
+  }
+  const stored = ArrayBuffer.isView(storage) ? STORAGE_TYPES[storage.constructor.name] : undefined;
+  return stored ?? "double";
+}
+
+/**
+ * Replaces missing values of integer variables with their fill value, and
+ * rejects values the type can't hold.
+ */
+function encodeValues(
+  name: string,
+  type: NetCDFDataType,
+  values: ArrayLike<number>,
+  attrs: Attributes
+): ArrayLike<number> {
+  const range = INTEGER_RANGES[type];
+  if (!range) return values;
+
+  const fill = typeof attrs._FillValue === "number" ? attrs._FillValue : FILL_VALUES[type]!;
+  let filled = false;
+  const encoded = new Array<number>(values.length);
+  for (let i = 0; i < values.length; i++) {
+    let value = values[i];
+    if (Number.isNaN(value)) {
+      value = fill;
+      filled = true;
+    } else if (!Number.isInteger(value) || value < range[0] || value > range[1]) {
+      throw new InvalidSelectionError(
+        `Variable "${name}" holds ${value}, which doesn't fit NetCDF type "${type}".`
+      );
+    }
+    encoded[i] = value;
+  }
+  if (filled && attrs._FillValue === undefined) attrs._FillValue = fill;
+  return encoded;
+}
+
+/**
+ * Encodes a dataset as a NetCDF-3 file: classic (CDF-1) or 64-bit offset
+ * (CDF-2), readable by xarray, CDO, Panoply and the NetCDF library. Each
+ * dimension with coordinates becomes a coordinate variable; times are
+ * written as numbers with CF `units` ("days since 1970-01-01 00:00:00" or
+ * finer) and a proleptic Gregorian calendar, and text coordinates as
+ * character arrays. Other coordinates are attached to the dimension of the
+ * same length and listed in each variable's `coordinates` attribute.
+ *
+ * @param dataset - The jaxray Dataset to encode
+ * @param options - Format, variables, types and extra global attributes
+ * @returns The file contents
+ * @throws InvalidSelectionError if a name, type or size can't be written
+ *
+ * @example
+ * ```typescript
+ * const bytes = await toNetCDF(data, { dtypes: { precip: "float" } });
+ * const url = URL.createObjectURL(new Blob([bytes], { type: "application/x-netcdf" }));
+ * ```
+ */
+export async function toNetCDF(
+  dataset: Dataset,
+  options: NetCDFOptions = {}
+): Promise<Uint8Array> {
+  const { format = "classic", dimension = "time" } = options;
+  if (format !== "classic" && format !== "64bit-offset") {
+    throw new InvalidSelectionError(
+      `Unsupported NetCDF format "${format}". Use "classic" or "64bit-offset".`
+    );
+  }
+
+  const names: string[] = options.variables ?? dataset.dataVars;
+  for (const name of names) {
+    if (!dataset.dataVars.includes(name)) {
+      throw new InvalidSelectionError(`Variable "${name}" not found in dataset.`, {
+        code: "VARIABLE_NOT_FOUND",
+      });
+    }
+  }
+
+  const dimensions = new Map<string, number>();
+  const defineDimension = (dim: string, size: number) => {
+    const existing = dimensions.get(dim);
+    if (existing !== undefined && existing !== size) {
+      throw new InvalidSelectionError(
+        `Dimension "${dim}" has length ${existing} and ${size} in different variables.`
+      );
+    }
+    dimensions.set(dim, size);
+  };
+
+  const dataVariables: NcVariable[] = [];
+  for (const name of names) {
+    const variable = await dataset.getVariable(name).compute();
+    const dims: string[] = [...variable.dims];
+    const array = fromNested(variable.data, dims.length);
+    dims.forEach((dim, axis) => defineDimension(dim, array.shape[axis]));
+    const attrs: Attributes = { ...variable.attrs };
+    const type = typeOf(name, innermostArray(variable.data, dims.length), options);
+    dataVariables.push({
+      name,
+      dims,
+      attrs,
+      type,
+      values: encodeValues(name, type, array.values, attrs),
+    });
+  }
+
+  const coordinateVariables: NcVariable[] = [];
+  const auxiliary: string[] = [];
+  for (const [name, raw] of Object.entries(dataset.coords)) {
+    const values: unknown[] = Array.isArray(raw) ? raw : [raw];
+    let dims: string[];
+    if (dimensions.has(name)) {
+      defineDimension(name, values.length);
+      dims = [name];
+    } else if (!Array.isArray(raw)) {
+      dims = [];
+      auxiliary.push(name);
+    } else {
+      // Attach to the only dimension of the same length, if there is one
+      const candidates = [...dimensions].filter(([, size]) => size === values.length);
+      if (candidates.length !== 1) continue;
+      dims = [candidates[0][0]];
+      auxiliary.push(name);
+    }
+
+    const attrs: Attributes = {};
+    const isTime =
+      values.length > 0 &&
+      values.every(
+        (value) => value instanceof Date || (name === dimension && typeof value === "string")
+      ) &&
+      values.every((value) => !Number.isNaN(toEpochMs(value)));
+    if (isTime) {
+      const { values: encoded, units } = encodeTimes(values.map(toEpochMs));
+      const type = options.dtypes?.[name] ?? inferType(encoded);
+      Object.assign(attrs, { standard_name: "time", units, calendar: "proleptic_gregorian" });
+      const timeValues = encodeValues(name, type, encoded, attrs);
+      coordinateVariables.push({ name, dims, attrs, type, values: timeValues });
+    } else if (values.every((value) => typeof value === "string")) {
+      // Text as a character array with a string length dimension
+      const bytes = (values as string[]).map((value) => encoder.encode(value));
+      const length = Math.max(1, ...bytes.map((value) => value.length));
+      const lengthDim = `string${length}`;
+      defineDimension(lengthDim, length);
+      const chars = new Uint8Array(bytes.length * length);
+      bytes.forEach((value, i) => chars.set(value, i * length));
+      coordinateVariables.push({
+        name,
+        dims: [...dims, lengthDim],
+        attrs,
+        type: "char",
+        values: chars,
+      });
+    } else {
+      const numbers = values.map(Number);
+      const type = typeOf(name, raw, options);
+      const coordinateValues = encodeValues(name, type, numbers, attrs);
+      coordinateVariables.push({ name, dims, attrs, type, values: coordinateValues });
+    }
+  }
+
+  if (auxiliary.length > 0) {
+    for (const variable of dataVariables) {
+      variable.attrs.coordinates ??= auxiliary.join(" ");
+    }
+  }
+
+  const globalAttrs: Attributes = {
+    Conventions: "CF-1.8",
+    ...(dataset.attrs as Attributes | undefined),
+    ...options.attrs,
+  };
+  const variables = [...coordinateVariables, ...dataVariables];
+  const dimensionNames = [...dimensions.keys()];
+  const wide = format === "64bit-offset";
+
+  const dataSize = (variable: NcVariable) => {
+    const size = variable.type === "char" ? 1 : TYPE_SIZES[variable.type];
+    return Math.ceil((variable.values.length * size) / 4) * 4;
+  };
+
+  const header = (begins: number[]): Uint8Array => {
+    const writer = new ByteWriter();
+    writer.bytes(encoder.encode("CDF"));
+    writer.bytes(new Uint8Array([wide ? 2 : 1]));
+    writer.int32(0); // numrecs: no record dimension
+
+    if (dimensionNames.length === 0) {
+      writer.int32(0);
+      writer.int32(0);
+    } else {
+      writer.int32(NC_DIMENSION);
+      writer.int32(dimensionNames.length);
+      for (const name of dimensionNames) {
+        writeName(writer, name);
+        writer.int32(dimensions.get(name)!);
+      }
+    }
+
+    writeAttributes(writer, globalAttrs);
+
+    if (variables.length === 0) {
+      writer.int32(0);
+      writer.int32(0);
+    } else {
+      writer.int32(NC_VARIABLE);
+      writer.int32(variables.length);
+      variables.forEach((variable, i) => {
+        writeName(writer, variable.name);
+        writer.int32(variable.dims.length);
+        for (const dim of variable.dims) writer.int32(dimensionNames.indexOf(dim));
+        const type = variable.type === "char" ? undefined : variable.type;
+        writeAttributes(writer, variable.attrs, type);
+        writer.int32(variable.type === "char" ? NC_CHAR : TYPE_CODES[variable.type]);
+        writer.uint32(Math.min(dataSize(variable), 2 ** 32 - 1));
+        if (wide) {
+          writer.int64(begins[i]);
+        } else {
+          writer.int32(begins[i]);
+        }
+      });
+    }
+    return writer.result();
+  };
+
+  // The header's length doesn't depend on the offsets it records
+  const headerLength = header(variables.map(() => 0)).length;
+  const begins: number[] = [];
+  let offset = headerLength;
+  for (const variable of variables) {
+    begins.push(offset);
+    const size = dataSize(variable);
+    if (size > VSIZE_LIMIT) {
+      throw new InvalidSelectionError(`Variable "${variable.name}" is too large for NetCDF-3.`);
+    }
+    offset += size;
+  }
+  if (!wide && begins.some((begin) => begin > CLASSIC_LIMIT)) {
+    throw new InvalidSelectionError(
+      'The file is too large for the classic format; use format: "64bit-offset".'
+    );
+  }
+
+  const writer = new ByteWriter();
+  writer.bytes(header(begins));
+  for (const variable of variables) {
+    writer.values(variable.type, variable.values);
+    writer.pad();
+  }
+  return writer.result();
+}
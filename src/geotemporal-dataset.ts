@@ -6,20 +6,64 @@ import {
 } from "@dclimate/jaxray";
 import { InvalidSelectionError, NoDataFoundError } from "./errors.js";
 import {
+  AnomalyOptions,
+  ArrowOptions,
   BoundsSelection,
   BoundsSelectionOptions,
+  ClimatologyOptions,
+  CsvOptions,
   DatasetMetadata,
   DatasetObject,
+  DegreeDayOptions,
   GeoSelectionOptions,
+  GeoJsonExportOptions,
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+  GeoJsonPoint,
+  GeoJsonPolygon,
+  GeoTiffOptions,
+  NetCDFOptions,
+  PayoutContract,
+  PayoutOptions,
+  PayoutResult,
+  PercentileRankOptions,
   PointQueryOptions,
+  PolygonGeometry,
+  PolygonSelectionOptions,
+  QuantileOptions,
+  ResampleOptions,
+  SpatialAggregationOptions,
+  ThresholdOptions,
   TimeRange,
+  ZonalStatistics,
+  ZonalStatisticsOptions,
 } from "./types.js";
 import { normalizeTimeRange, normalizeSegment } from "./utils.js";
+import { matchLongitudeConvention } from "./math/longitudes.js";
 import {
   points as pointsShape,
   circle as circleShape,
   rectangle as rectangleShape,
+  polygon as polygonShape,
 } from "./shapes/index.js";
+import { aggregateSpatial } from "./actions/aggregate-spatial.js";
+import { resample } from "./actions/resample.js";
+import { anomaly, climatology } from "./actions/climatology.js";
+import { percentileRank, quantile } from "./actions/quantile.js";
+import { zonalStatistics } from "./actions/zonal-statistics.js";
+import { countDays, degreeDays, longestRun } from "./indicators/index.js";
+import { calculatePayouts } from "./payouts.js";
+import {
+  toArrow,
+  toArrowStream,
+  toCSV,
+  toCSVStream,
+  toGeoJSON,
+  toGeoTIFF,
+  toNetCDF,
+  writeExportFile,
+} from "./export/index.js";
+import { fromNested } from "./math/ndarray.js";
 
 type SelectionMethod = Parameters<Dataset["sel"]>[1] extends infer Options
   ? Options extends { method?: infer Method }
@@ -79,13 +123,159 @@ export class GeoTemporalDataset {
   ): Promise<Array<Record<string, unknown>>> {
     const dataArray = this.dataset.getVariable(varName);
     if (!dataArray) {
-      throw new Error(`Variable "${varName}" not found in dataset.`);
+      throw new InvalidSelectionError(`Variable "${varName}" not found in dataset.`, {
+        code: "VARIABLE_NOT_FOUND",
+      });
     }
     const computedArray = await dataArray.compute();
     const result = computedArray.toRecords(options);
     return result;
   }
 
+  /**
+   * Export data variables as CSV, one row per grid cell and time step.
+   *
+   * @param options - Variables, precision, time format and delimiter
+   * @returns The CSV text
+   */
+  async toCSV(options: CsvOptions = {}): Promise<string> {
+    return await toCSV(this.dataset, {
+      ...options,
+      dimension: this.optionalTimeKey(options.dimension),
+    });
+  }
+
+  /**
+   * Stream the CSV of `toCSV` as UTF-8, reading `chunkSize` time steps at a
+   * time. Use `Readable.fromWeb` for a Node stream.
+   *
+   * @param options - Variables, precision, time format, delimiter and chunk size
+   * @returns A ReadableStream of CSV bytes
+   */
+  toCSVStream(options: CsvOptions = {}): ReadableStream<Uint8Array> {
+    return toCSVStream(this.dataset, {
+      ...options,
+      dimension: this.optionalTimeKey(options.dimension),
+    });
+  }
+
+  /**
+   * Convert to a GeoJSON FeatureCollection with one feature per grid cell,
+   * e.g. for a Mapbox or Leaflet layer.
+   *
+   * @param options - Variables, point or cell geometry, time layout and precision
+   * @returns A FeatureCollection of Point or Polygon features
+   */
+  async toGeoJSON(
+    options: GeoJsonExportOptions = {},
+  ): Promise<GeoJsonFeatureCollection<GeoJsonPoint | GeoJsonPolygon>> {
+    return await toGeoJSON(this.dataset, {
+      ...options,
+      latitudeKey:
+        options.latitudeKey ??
+        this.inferCoordinateKey(DEFAULT_LATITUDE_KEYS) ??
+        "latitude",
+      longitudeKey:
+        options.longitudeKey ??
+        this.inferCoordinateKey(DEFAULT_LONGITUDE_KEYS) ??
+        "longitude",
+      dimension: this.optionalTimeKey(options.dimension),
+    });
+  }
+
+  /**
+   * Encode as a NetCDF-3 file for xarray, CDO or Panoply. The global
+   * attributes record the dataset path and CID.
+   *
+   * @param options - Classic or 64-bit offset format, variables, types and attributes
+   * @returns The file contents
+   */
+  async toNetCDF(options: NetCDFOptions = {}): Promise<Uint8Array> {
+    return await toNetCDF(this.dataset, {
+      ...options,
+      attrs: { ...this.sourceAttributes(), ...options.attrs },
+      dimension: this.optionalTimeKey(options.dimension),
+    });
+  }
+
+  /**
+   * Write `toNetCDF` to a file (Node only).
+   *
+   * @param path - File to create or replace, e.g. "era5.nc"
+   * @param options - Classic or 64-bit offset format, variables, types and attributes
+   */
+  async writeNetCDF(path: string, options: NetCDFOptions = {}): Promise<void> {
+    await writeExportFile(path, await this.toNetCDF(options));
+  }
+
+  /**
+   * Encode a latitude/longitude grid as a GeoTIFF for GDAL, QGIS or ArcGIS,
+   * with one band per variable and time step. The GDAL metadata records the
+   * dataset path and CID.
+   *
+   * @param options - Variables, time steps and metadata
+   * @returns The file contents
+   */
+  async toGeoTIFF(options: GeoTiffOptions = {}): Promise<Uint8Array> {
+    return await toGeoTIFF(this.dataset, {
+      ...options,
+      metadata: { ...this.sourceAttributes(), ...options.metadata },
+      latitudeKey:
+        options.latitudeKey ??
+        this.inferCoordinateKey(DEFAULT_LATITUDE_KEYS) ??
+        "latitude",
+      longitudeKey:
+        options.longitudeKey ??
+        this.inferCoordinateKey(DEFAULT_LONGITUDE_KEYS) ??
+        "longitude",
+      dimension: this.optionalTimeKey(options.dimension),
+    });
+  }
+
+  /**
+   * Write `toGeoTIFF` to a file (Node only).
+   *
+   * @param path - File to create or replace, e.g. "precip.tif"
+   * @param options - Variables, time steps and metadata
+   */
+  async writeGeoTIFF(path: string, options: GeoTiffOptions = {}): Promise<void> {
+    await writeExportFile(path, await this.toGeoTIFF(options));
+  }
+
+  /**
+   * Export data variables as an Apache Arrow IPC table, one row per grid
+   * cell and time step. The schema metadata records the dataset path and
+   * CID.
+   *
+   * @param options - Variables, stream or file format, value type and metadata
+   * @returns The IPC bytes
+   */
+  async toArrow(options: ArrowOptions = {}): Promise<Uint8Array> {
+    return await toArrow(this.dataset, this.arrowOptions(options));
+  }
+
+  /**
+   * Stream the table of `toArrow`, one record batch per `chunkSize` time
+   * steps.
+   *
+   * @param options - Variables, stream or file format, value type, metadata and chunk size
+   * @returns A ReadableStream of IPC bytes
+   */
+  toArrowStream(options: ArrowOptions = {}): ReadableStream<Uint8Array> {
+    return toArrowStream(this.dataset, this.arrowOptions(options));
+  }
+
+  /**
+   * Write `toArrow` to a file (Node only), in the IPC file format unless
+   * `format` says otherwise.
+   *
+   * @param path - File to create or replace, e.g. "era5.arrow"
+   * @param options - Variables, stream or file format, value type and metadata
+   */
+  async writeArrow(path: string, options: ArrowOptions = {}): Promise<void> {
+    await writeExportFile(path, await this.toArrow({ format: "file", ...options }));
+  }
+
   getVariable(name: string): DataArray {
     return this.dataset.getVariable(name);
   }
@@ -110,6 +300,12 @@ export class GeoTemporalDataset {
       );
     }
 
+    if (options.polygon && (options.point || options.bounds)) {
+      throw new InvalidSelectionError(
+        "Use polygon selection on its own, not with point or bounds.",
+      );
+    }
+
     // Apply selections in order: point first, then time range
     // Point selection must come first because it changes the dataset structure
     if (options.point) {
@@ -144,6 +340,14 @@ export class GeoTemporalDataset {
       current = current.wrapDataset(subset);
     }
 
+    if (options.polygon) {
+      const subset = await current.polygon(
+        options.polygon,
+        options.polygonOptions,
+      );
+      current = current.wrapDataset(subset);
+    }
+
     return current;
   }
 
@@ -166,7 +370,10 @@ export class GeoTemporalDataset {
     const selectionOptions = this.buildSelectionOptions(options);
     const selection: Record<string, number> = {
       [latKey]: latitude,
-      [lonKey]: longitude,
+      [lonKey]: matchLongitudeConvention(
+        longitude,
+        this.dataset.coords[lonKey],
+      ),
     };
 
     const subset = await this.dataset.sel(selection, selectionOptions);
@@ -230,6 +437,278 @@ export class GeoTemporalDataset {
     return wrapped;
   }
 
+  /**
+   * Change the frequency of the time dimension, e.g. hourly to daily totals.
+   *
+   * @param options - Target frequency, reduction method and partial-period handling
+   * @returns A new GeoTemporalDataset with one time step per period
+   */
+  async resample(options: ResampleOptions): Promise<GeoTemporalDataset> {
+    const resampled = await resample(this.dataset, {
+      ...options,
+      dimension: this.requireTimeKey(options.dimension),
+    });
+    return this.wrapDataset(resampled);
+  }
+
+  /**
+   * Quantiles per grid cell along time (or `dim`), skipping NaNs. An array
+   * of quantiles adds a leading `quantile` dimension.
+   *
+   * @param q - Quantile or quantiles between 0 and 1, e.g. [0.9, 0.95, 0.99]
+   * @param options - Dimension to reduce
+   * @returns A new GeoTemporalDataset of quantiles
+   */
+  async quantile(
+    q: number | number[],
+    options: QuantileOptions = {},
+  ): Promise<GeoTemporalDataset> {
+    const quantiles = await quantile(this.dataset, q, {
+      dim: options.dim ?? this.requireTimeKey(),
+    });
+    return this.wrapDataset(quantiles);
+  }
+
+  /**
+   * Percentage of each grid cell's values along time (or `dim`) at or below
+   * `value`, skipping NaNs.
+   *
+   * @param value - Value to rank, in the variables' units
+   * @param options - Dimension to reduce
+   * @returns A new GeoTemporalDataset of percentile ranks (0–100)
+   */
+  async percentileRank(
+    value: number,
+    options: PercentileRankOptions = {},
+  ): Promise<GeoTemporalDataset> {
+    const ranks = await percentileRank(this.dataset, value, {
+      dim: options.dim ?? this.requireTimeKey(),
+    });
+    return this.wrapDataset(ranks);
+  }
+
+  /**
+   * Average over a baseline period per day of year, month or season, e.g.
+   * monthly normals for 1991–2020.
+   *
+   * @param options - Baseline time range, grouping and time dimension
+   * @returns A new GeoTemporalDataset with a dayofyear, month or season dimension
+   */
+  async climatology(options: ClimatologyOptions): Promise<GeoTemporalDataset> {
+    const timeKey = this.requireTimeKey(options.dimension);
+    // Only read the baseline period
+    const baseline = await this.timeRange(options.baseline, timeKey);
+    const normals = await climatology(baseline.data, {
+      ...options,
+      dimension: timeKey,
+    });
+    return this.wrapDataset(normals);
+  }
+
+  /**
+   * Departures from a climatology, absolute or as a percent of normal. The
+   * climatology may be computed from another variant or CID.
+   *
+   * @param options - Climatology to compare with, mode and time dimension
+   * @returns A new GeoTemporalDataset of departures from normal
+   */
+  async anomaly(options: AnomalyOptions): Promise<GeoTemporalDataset> {
+    const departures = await anomaly(this.dataset, options.climatology.data, {
+      mode: options.mode,
+      dimension: this.requireTimeKey(options.dimension),
+    });
+    return this.wrapDataset(departures);
+  }
+
+  /**
+   * Heating, cooling or growing degree days per grid cell from daily
+   * temperatures, in total or per period. Thresholds are in °C and follow
+   * Kelvin or Fahrenheit data.
+   *
+   * @param options - Kind, base, cap, method, variables and frequency
+   * @returns A new GeoTemporalDataset with one `<kind>_degree_days` variable
+   */
+  async degreeDays(options: DegreeDayOptions): Promise<GeoTemporalDataset> {
+    const degrees = await degreeDays(this.dataset, {
+      ...options,
+      dimension: this.requireTimeKey(options.dimension),
+    });
+    return this.wrapDataset(degrees);
+  }
+
+  /**
+   * Number of days per grid cell above or below a threshold, in total or per
+   * period, e.g. frost days per year.
+   *
+   * @param options - Threshold, comparison, variable and frequency
+   * @returns A new GeoTemporalDataset of day counts
+   */
+  async countDays(options: ThresholdOptions): Promise<GeoTemporalDataset> {
+    const counts = await countDays(this.dataset, {
+      ...options,
+      dimension: this.requireTimeKey(options.dimension),
+    });
+    return this.wrapDataset(counts);
+  }
+
+  /**
+   * Longest run of consecutive days per grid cell above or below a
+   * threshold, in total or per period, e.g. the longest dry spell.
+   *
+   * @param options - Threshold, comparison, variable and frequency
+   * @returns A new GeoTemporalDataset of run lengths in days
+   */
+  async longestRun(options: ThresholdOptions): Promise<GeoTemporalDataset> {
+    const runs = await longestRun(this.dataset, {
+      ...options,
+      dimension: this.requireTimeKey(options.dimension),
+    });
+    return this.wrapDataset(runs);
+  }
+
+  /**
+   * Collapse the latitude/longitude dimensions into one value per remaining
+   * coordinate, e.g. a regional time series after `rectangle` or `circle`.
+   *
+   * @param options - Reduction method, weighting and coordinate names
+   * @returns A new GeoTemporalDataset without spatial dimensions
+   */
+  async aggregateSpatial(
+    options: SpatialAggregationOptions = {},
+  ): Promise<GeoTemporalDataset> {
+    const latitudeKey =
+      options.latitudeKey ?? this.inferCoordinateKey(DEFAULT_LATITUDE_KEYS);
+    const longitudeKey =
+      options.longitudeKey ?? this.inferCoordinateKey(DEFAULT_LONGITUDE_KEYS);
+
+    if (!latitudeKey && !longitudeKey) {
+      throw new InvalidSelectionError(
+        "Latitude/longitude coordinates were not found in the dataset.",
+      );
+    }
+
+    const aggregated = await aggregateSpatial(this.dataset, {
+      ...options,
+      latitudeKey,
+      longitudeKey,
+    });
+    return this.wrapDataset(aggregated);
+  }
+
+  /**
+   * Summarise one variable inside each feature of a FeatureCollection, per
+   * time step. The cells of all features are read together, once.
+   *
+   * @param collection - FeatureCollection of Polygon/MultiPolygon features
+   * @param options - Variable, key property, statistics and cell inclusion
+   * @returns Records of mean/min/max/count keyed by feature
+   */
+  async zonalStatistics(
+    collection: GeoJsonFeatureCollection,
+    options: ZonalStatisticsOptions = {},
+  ): Promise<ZonalStatistics> {
+    return await zonalStatistics(this.dataset, collection, {
+      ...options,
+      latitudeKey:
+        options.latitudeKey ?? this.inferCoordinateKey(DEFAULT_LATITUDE_KEYS),
+      longitudeKey:
+        options.longitudeKey ??
+        this.inferCoordinateKey(DEFAULT_LONGITUDE_KEYS),
+    });
+  }
+
+  /**
+   * Payouts of a parametric contract on this dataset's index, e.g. after
+   * `point` or `aggregateSpatial` and `resample`. The audit trail records
+   * the dataset's CIDs.
+   *
+   * @param contract - Trigger, exit, tick size, limit, call/put and phases
+   * @param options - Index variable and time dimension
+   * @returns Payouts per period with their total and audit trail
+   */
+  async payouts(
+    contract: PayoutContract,
+    options: PayoutOptions = {},
+  ): Promise<PayoutResult> {
+    const timeKey = this.requireTimeKey(options.dimension);
+    const variables = this.variables;
+    const name =
+      options.variable ?? (variables.length === 1 ? variables[0] : undefined);
+    if (!name || !variables.includes(name)) {
+      throw new InvalidSelectionError(
+        name
+          ? `Variable "${name}" not found in dataset.`
+          : `Choose the index variable: ${variables.join(", ")}`,
+        name ? { code: "VARIABLE_NOT_FOUND" } : {},
+      );
+    }
+
+    const index = await this.dataset.getVariable(name).compute();
+    const dims = [...index.dims];
+    const array = fromNested(index.data, dims.length);
+    const extraDim = dims.find(
+      (dim, axis) => dim !== timeKey && array.shape[axis] > 1,
+    );
+    if (!dims.includes(timeKey) || extraDim) {
+      throw new InvalidSelectionError(
+        `The index must be a series along "${timeKey}"; reduce "${extraDim ?? timeKey}" first, e.g. with point or aggregateSpatial.`,
+      );
+    }
+
+    return calculatePayouts(
+      {
+        time: this.dataset.coords[timeKey] as Array<Date | string | number>,
+        values: Array.from(array.values),
+        variable: name,
+        sources: [this.metadata],
+      },
+      contract,
+    );
+  }
+
+  private arrowOptions(options: ArrowOptions): ArrowOptions {
+    return {
+      ...options,
+      metadata: { ...this.sourceAttributes(), ...options.metadata },
+      dimension: this.optionalTimeKey(options.dimension),
+    };
+  }
+
+  // Provenance written into exported files
+  private sourceAttributes(): Record<string, unknown> {
+    const { path, cid, concatenatedCids } = this.metadata;
+    // A CF `source` the dataset already has describes how it was produced
+    const attrs: Record<string, unknown> = this.dataset.attrs ?? {};
+    return {
+      ...(attrs.source === undefined && { source: "dClimate" }),
+      dclimate_dataset: path,
+      dclimate_cid: concatenatedCids ? concatenatedCids.join(" ") : cid,
+    };
+  }
+
+  // Like requireTimeKey, for operations that also work without time
+  private optionalTimeKey(dimension?: string): string {
+    return (
+      this.inferCoordinateKey(dimension ? [dimension] : DEFAULT_TIME_KEYS) ??
+      dimension ??
+      "time"
+    );
+  }
+
+  // A named dimension must exist; otherwise the usual time names are tried
+  private requireTimeKey(dimension?: string): string {
+    const timeKey = this.inferCoordinateKey(
+      dimension ? [dimension] : DEFAULT_TIME_KEYS,
+    );
+
+    if (!timeKey) {
+      throw new InvalidSelectionError(
+        `Coordinate "${dimension ?? "time"}" not found in dataset.`,
+      );
+    }
+    return timeKey;
+  }
+
   private inferCoordinateKey(candidates: string[]): string | undefined {
     const coords = this.dataset.coords;
     const normalizedKeys = Object.keys(coords).map((key) =>
@@ -349,6 +828,33 @@ export class GeoTemporalDataset {
       options,
     );
   }
+
+  /**
+   * Select data within a GeoJSON Polygon or MultiPolygon
+   *
+   * @param geometry - Polygon or MultiPolygon geometry, bare or as a Feature
+   * @param options - Configuration options (inclusion, latitudeKey, longitudeKey)
+   * @returns A new Dataset cropped to the polygon, NaN outside it
+   */
+  async polygon(
+    geometry: PolygonGeometry | GeoJsonFeature,
+    options: PolygonSelectionOptions = {},
+  ): Promise<Dataset> {
+    return await polygonShape(this.dataset, polygonGeometryOf(geometry), {
+      ...options,
+      latitudeKey:
+        options.latitudeKey ?? this.inferCoordinateKey(DEFAULT_LATITUDE_KEYS),
+      longitudeKey:
+        options.longitudeKey ??
+        this.inferCoordinateKey(DEFAULT_LONGITUDE_KEYS),
+    });
+  }
+}
+
+function polygonGeometryOf(
+  polygon: PolygonGeometry | GeoJsonFeature,
+): PolygonGeometry {
+  return polygon.type === "Feature" ? polygon.geometry : polygon;
 }
 
 function normalizeBoundsSelection(
@@ -388,9 +894,10 @@ function normalizeBoundsSelection(
     );
   }
 
-  if (normalized.west >= normalized.east) {
+  // west > east is a box crossing the antimeridian
+  if (normalized.west === normalized.east) {
     throw new InvalidSelectionError(
-      `west (${normalized.west}) must be less than east (${normalized.east}).`,
+      `west (${normalized.west}) must differ from east (${normalized.east}).`,
     );
   }
 
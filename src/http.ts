@@ -0,0 +1,27 @@
+import type { FetchLike, HttpRequest, RequestInterceptor } from "./types.js";
+
+export interface HttpOptions {
+  fetch?: FetchLike;
+  headers?: Record<string, string>;
+  onRequest?: RequestInterceptor;
+}
+
+/**
+ * Returns a `fetch` that adds default `headers`, runs `onRequest`, then sends
+ * the request with `options.fetch` or, when none is given, the global `fetch`
+ * as it is at call time.
+ */
+export function createFetch(options: HttpOptions = {}): FetchLike {
+  const { fetch: baseFetch, headers, onRequest } = options;
+
+  return async (url, init = {}) => {
+    const merged = new Headers(headers);
+    new Headers(init.headers).forEach((value, key) => merged.set(key, value));
+
+    let request: HttpRequest = { url, init: { ...init, headers: merged } };
+    if (onRequest) {
+      request = (await onRequest(request)) ?? request;
+    }
+    return (baseFetch ?? fetch)(request.url, request.init);
+  };
+}
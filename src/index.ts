@@ -3,10 +3,27 @@ export * from "./errors.js";
 export * from "./types.js";
 export { DClimateClient } from "./client.js";
 export { GeoTemporalDataset } from "./geotemporal-dataset.js";
+export { isRetriableError } from "./retry.js";
+export { registerProjection } from "./crs.js";
+export { calculatePayouts } from "./payouts.js";
+export {
+  toArrow,
+  toArrowStream,
+  toCSV,
+  toCSVStream,
+  toGeoJSON,
+  toGeoTIFF,
+  toNetCDF,
+} from "./export/index.js";
 export {
   openDatasetFromCid,
   type OpenDatasetOptions,
 } from "./ipfs/open-dataset.js";
+export {
+  GatewayHealth,
+  type GatewayHealthOptions,
+  type GatewayStrategy,
+} from "./ipfs/gateway-pool.js";
 export {
   loadStacCatalog,
   resolveDatasetCidFromStac,
@@ -14,6 +31,7 @@ export {
   getConcatenableItemsFromStac,
   listAvailableDatasetsFromStac,
   listAvailableDatasetsFromStacServer,
+  searchStacServer,
   getRootCatalogCid,
   resolveIpfsUri,
   type StacCatalog,
@@ -22,10 +40,22 @@ export {
   type StacCatalogOptions,
   type ConcatenableStacItem,
   type ResolvedDatasetFromStac,
+  type StacSearchParameters,
+  type StacServerRequestOptions,
+  type StacServerItem,
   type StacOrganization,
   type SpatialExtent,
   type TemporalExtent,
   StacCatalogError,
   StacLoadError,
   StacResolutionError,
+  FileSystemCatalogCacheStore,
+  IndexedDbCatalogCacheStore,
+  type CatalogCacheEntry,
+  type CatalogCacheStore,
+  searchDatasetCatalog,
+  type DatasetSearchQuery,
+  type DatasetSearchMatch,
+  type DatasetSearchReason,
+  type DatasetSearchCriterion,
 } from "./stac/index.js";
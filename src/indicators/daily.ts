@@ -0,0 +1,178 @@
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import { fromNested, stridesOf, toNested, type NdArray } from "../math/ndarray.js";
+import {
+  parseFrequency,
+  periodStart,
+  samplingInterval,
+  toEpochMs,
+} from "../math/periods.js";
+import type { ResampleFrequency } from "../types.js";
+
+export const DAY_MS = 86_400_000;
+
+export interface DailyIndicatorOptions {
+  /** Output variable name. */
+  name: string;
+  /** Input variables, all on the same grid. */
+  inputs: string[];
+  dimension: string;
+  frequency?: ResampleFrequency;
+  attrs: Record<string, unknown>;
+}
+
+/** Picks `variable`, or the dataset's only data variable. */
+export function variableOf(dataset: Dataset, variable: string | undefined): string {
+  const dataVars = dataset.dataVars;
+  const name = variable ?? (dataVars.length === 1 ? dataVars[0] : undefined);
+  if (name === undefined) {
+    throw new InvalidSelectionError(`Choose the variable to use: ${dataVars.join(", ")}`);
+  }
+  if (!dataVars.includes(name)) {
+    throw new InvalidSelectionError(`Variable "${name}" not found in dataset.`, {
+      code: "VARIABLE_NOT_FOUND",
+    });
+  }
+  return name;
+}
+
+/**
+ * Converts a threshold given in °C to a temperature variable's units
+ * (Kelvin or Fahrenheit). Other units are left alone.
+ */
+export function thresholdInUnits(celsius: number, units: unknown): number {
+  switch (temperatureUnit(units)) {
+    case "K":
+      return celsius + 273.15;
+    case "degF":
+      return (celsius * 9) / 5 + 32;
+    default:
+      return celsius;
+  }
+}
+
+export function temperatureUnit(units: unknown): "K" | "degF" | "degC" | undefined {
+  const normalized = String(units ?? "").trim().toLowerCase();
+  if (["k", "kelvin", "kelvins"].includes(normalized)) return "K";
+  if (["degf", "°f", "f", "fahrenheit", "deg_f"].includes(normalized)) return "degF";
+  if (["degc", "°c", "c", "celsius", "deg_c"].includes(normalized)) return "degC";
+  return undefined;
+}
+
+/**
+ * Applies `reduce` to each cell's daily values per period (or over the whole
+ * series), in chronological order. `reduce` receives one array per input and
+ * the epoch milliseconds of the days they belong to.
+ * Without a frequency the time dimension is removed; with one it holds the
+ * period starts.
+ *
+ * @throws InvalidSelectionError if the data isn't daily
+ */
+export async function dailyIndicator(
+  dataset: Dataset,
+  options: DailyIndicatorOptions,
+  reduce: (series: number[][], days: number[]) => number
+): Promise<Dataset> {
+  const { name, inputs, dimension, frequency, attrs } = options;
+
+  const timeCoords = dataset.coords[dimension];
+  if (!Array.isArray(timeCoords) || timeCoords.length === 0) {
+    throw new InvalidSelectionError(`Coordinate "${dimension}" not found in dataset.`);
+  }
+  const times = timeCoords.map(toEpochMs);
+  if (times.some((time) => Number.isNaN(time))) {
+    throw new InvalidSelectionError(`Unable to read "${dimension}" as times.`);
+  }
+  const order = times.map((_, index) => index).sort((a, b) => times[a] - times[b]);
+  const step = samplingInterval(order.map((index) => times[index]));
+  if (step !== undefined && step !== DAY_MS) {
+    throw new InvalidSelectionError(
+      "Indicators need daily data; resample the dataset to \"1D\" first."
+    );
+  }
+
+  const variables: DataArray[] = await Promise.all(
+    inputs.map((input) => dataset.getVariable(input).compute())
+  );
+  const dims = [...variables[0].dims];
+  const timeAxis = dims.indexOf(dimension);
+  if (timeAxis === -1 || variables.some((variable) => variable.dims.join() !== dims.join())) {
+    throw new InvalidSelectionError(
+      `Variables ${inputs.join(", ")} must share dimensions including "${dimension}".`
+    );
+  }
+  const arrays: NdArray[] = variables.map((variable) => fromNested(variable.data, dims.length));
+
+  // Period of every time step, in chronological order
+  let labels: number[] = [0];
+  let periodOf: number[] = times.map(() => 0);
+  if (frequency !== undefined) {
+    const parsed = parseFrequency(frequency);
+    const starts = times.map((time) => periodStart(time, parsed));
+    labels = [...new Set(starts)].sort((a, b) => a - b);
+    const position = new Map(labels.map((label, index) => [label, index]));
+    periodOf = starts.map((start) => position.get(start)!);
+  }
+
+  const shape = arrays[0].shape;
+  const length = shape[timeAxis];
+  const stride = stridesOf(shape)[timeAxis];
+  const outer = arrays[0].values.length / (length * stride);
+  const outputShape = [...shape];
+  outputShape[timeAxis] = labels.length;
+
+  const periodDays = labels.map((): number[] => []);
+  for (const timeIndex of order) {
+    periodDays[periodOf[timeIndex]].push(times[timeIndex]);
+  }
+
+  const output = new Array<number>(outer * labels.length * stride);
+  for (let before = 0; before < outer; before++) {
+    for (let after = 0; after < stride; after++) {
+      const series = labels.map(() => arrays.map((): number[] => []));
+      for (const timeIndex of order) {
+        const index = (before * length + timeIndex) * stride + after;
+        arrays.forEach((array, input) => series[periodOf[timeIndex]][input].push(array.values[index]));
+      }
+      series.forEach((periodSeries, period) => {
+        output[(before * labels.length + period) * stride + after] = reduce(
+          periodSeries,
+          periodDays[period]
+        );
+      });
+    }
+  }
+
+  const source = variables[0];
+  const sample = timeCoords[0];
+  const outputDims = frequency === undefined ? dims.filter((dim) => dim !== dimension) : dims;
+  if (frequency === undefined) outputShape.splice(timeAxis, 1);
+
+  const coords = Object.fromEntries(
+    outputDims
+      .filter((dim) => source.coords[dim] !== undefined)
+      .map((dim) => [
+        dim,
+        dim === dimension
+          ? labels.map((label) =>
+              typeof sample === "number"
+                ? label
+                : typeof sample === "string"
+                  ? new Date(label).toISOString()
+                  : new Date(label)
+            )
+          : source.coords[dim],
+      ])
+  );
+
+  return new Dataset(
+    {
+      [name]: new DataArray(toNested(output, outputShape), {
+        dims: outputDims,
+        coords,
+        attrs,
+      }),
+    },
+    { attrs: dataset.attrs }
+  );
+}
@@ -0,0 +1,141 @@
+import type { Dataset } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import type { DegreeDayKind, DegreeDayOptions } from "../types.js";
+import {
+  dailyIndicator,
+  temperatureUnit,
+  thresholdInUnits,
+  variableOf,
+} from "./daily.js";
+
+const DEFAULT_BASES: Record<DegreeDayKind, number> = {
+  heating: 18,
+  cooling: 18,
+  growing: 10,
+};
+
+/**
+ * Sums heating, cooling or growing degree days per grid cell from daily
+ * temperatures, over the whole series or per `frequency` period. Days
+ * without data are skipped; cells without any are NaN.
+ *
+ * - heating: max(0, base − T)
+ * - cooling: max(0, T − base)
+ * - growing: max(0, min(T, cap) − base)
+ *
+ * T is the daily mean ("mean"), or the mean of the daily minimum and maximum
+ * ("average"). The "modified" growing method clips both to base–cap first.
+ * Base and cap are in °C and follow the data when its `units` are Kelvin or
+ * Fahrenheit.
+ *
+ * @param dataset - The jaxray Dataset of daily temperatures
+ * @param options - Configuration options
+ * @param options.kind - "heating", "cooling" or "growing"
+ * @param options.base - Base temperature in °C (default: 18, or 10 for growing)
+ * @param options.cap - Upper cap in °C for growing degree days
+ * @param options.method - "mean", "average" or "modified" (default: "mean")
+ * @param options.frequency - Accumulate per period, e.g. "1M"
+ * @param options.dimension - Name of the time dimension (default: "time")
+ * @returns A new Dataset with one `<kind>_degree_days` variable
+ * @throws InvalidSelectionError if the options don't fit the data or it isn't daily
+ *
+ * @example
+ * ```typescript
+ * const data = await Dataset.open_zarr(store);
+ * // Maize growing degree days per month
+ * const gdd = await degreeDays(data, {
+ *   kind: "growing",
+ *   base: 10,
+ *   cap: 30,
+ *   method: "modified",
+ *   minVariable: "tmin",
+ *   maxVariable: "tmax",
+ *   frequency: "1M",
+ * });
+ * ```
+ */
+export async function degreeDays(
+  dataset: Dataset,
+  options: DegreeDayOptions
+): Promise<Dataset> {
+  const { kind, method = "mean", frequency, dimension = "time" } = options;
+  if (!(kind in DEFAULT_BASES)) {
+    throw new InvalidSelectionError(
+      `Unsupported degree day kind "${kind}". Use "heating", "cooling" or "growing".`
+    );
+  }
+  if (method === "modified" && kind !== "growing") {
+    throw new InvalidSelectionError(`The "modified" method only applies to growing degree days.`);
+  }
+  if (options.cap !== undefined && kind !== "growing") {
+    throw new InvalidSelectionError("A cap only applies to growing degree days.");
+  }
+
+  let inputs: string[];
+  if (method === "mean") {
+    inputs = [variableOf(dataset, options.variable)];
+  } else if (method === "average" || method === "modified") {
+    if (!options.minVariable || !options.maxVariable) {
+      throw new InvalidSelectionError(
+        `The "${method}" method needs minVariable and maxVariable.`
+      );
+    }
+    inputs = [
+      variableOf(dataset, options.minVariable),
+      variableOf(dataset, options.maxVariable),
+    ];
+  } else {
+    throw new InvalidSelectionError(
+      `Unsupported degree day method "${method}". Use "mean", "average" or "modified".`
+    );
+  }
+
+  const units = dataset.getVariable(inputs[0]).attrs.units;
+  const base = thresholdInUnits(options.base ?? DEFAULT_BASES[kind], units);
+  const cap = options.cap === undefined ? Infinity : thresholdInUnits(options.cap, units);
+  if (cap <= base) {
+    throw new InvalidSelectionError("The cap must be above the base temperature.");
+  }
+
+  const daily = (values: number[]): number => {
+    if (method === "mean") return values[0];
+    const [min, max] = values;
+    if (method === "average") return (min + max) / 2;
+    const clip = (value: number) => Math.min(Math.max(value, base), cap);
+    return (clip(min) + clip(max)) / 2;
+  };
+  const degrees = (temperature: number): number => {
+    if (kind === "heating") return Math.max(0, base - temperature);
+    if (kind === "cooling") return Math.max(0, temperature - base);
+    return Math.max(0, Math.min(temperature, cap) - base);
+  };
+
+  return dailyIndicator(
+    dataset,
+    {
+      name: `${kind}_degree_days`,
+      inputs,
+      dimension,
+      frequency,
+      attrs: {
+        units: `${temperatureUnit(units) ?? "degC"} day`,
+        long_name: `${kind[0].toUpperCase()}${kind.slice(1)} degree days`,
+        base_temperature: options.base ?? DEFAULT_BASES[kind],
+        ...(options.cap === undefined ? {} : { cap_temperature: options.cap }),
+        method,
+        cell_methods: `${dimension}: sum`,
+      },
+    },
+    (series) => {
+      let total = 0;
+      let valid = 0;
+      for (let day = 0; day < series[0].length; day++) {
+        const temperature = daily(series.map((values) => values[day]));
+        if (Number.isNaN(temperature)) continue;
+        total += degrees(temperature);
+        valid++;
+      }
+      return valid === 0 ? NaN : total;
+    }
+  );
+}
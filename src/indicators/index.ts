@@ -0,0 +1,2 @@
+export { degreeDays } from "./degree-days.js";
+export { countDays, longestRun } from "./thresholds.js";
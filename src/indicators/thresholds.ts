@@ -0,0 +1,160 @@
+import type { Dataset } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import type { ThresholdOptions } from "../types.js";
+import {
+  DAY_MS,
+  dailyIndicator,
+  temperatureUnit,
+  thresholdInUnits,
+  variableOf,
+} from "./daily.js";
+
+/**
+ * Resolves the variable and a predicate for days beyond the threshold. For
+ * temperatures in Kelvin or Fahrenheit the threshold, given in °C, is
+ * converted; other variables use it as is.
+ */
+function exceedance(
+  dataset: Dataset,
+  options: ThresholdOptions
+): { variable: string; comparison: "above" | "below"; beyond: (value: number) => boolean } {
+  const { threshold, comparison = "above" } = options;
+  if (typeof threshold !== "number" || Number.isNaN(threshold)) {
+    throw new InvalidSelectionError("The threshold must be a number.");
+  }
+  if (comparison !== "above" && comparison !== "below") {
+    throw new InvalidSelectionError(
+      `Unsupported comparison "${comparison}". Use "above" or "below".`
+    );
+  }
+  const variable = variableOf(dataset, options.variable);
+  const limit = thresholdInUnits(threshold, dataset.getVariable(variable).attrs.units);
+  return {
+    variable,
+    comparison,
+    beyond:
+      comparison === "above" ? (value) => value > limit : (value) => value < limit,
+  };
+}
+
+function thresholdAttrs(
+  dataset: Dataset,
+  variable: string,
+  options: ThresholdOptions,
+  comparison: "above" | "below"
+): Record<string, unknown> {
+  const units = dataset.getVariable(variable).attrs.units;
+  return {
+    units: "days",
+    threshold: options.threshold,
+    ...(temperatureUnit(units) ? { threshold_units: "degC" } : {}),
+    comparison,
+  };
+}
+
+/**
+ * Counts the days per grid cell strictly above or below a threshold, over
+ * the whole series or per `frequency` period, e.g. frost days (minimum
+ * temperature below 0 °C) per year. Days without data never count; cells
+ * without any data get NaN, as in `degreeDays`.
+ *
+ * @param dataset - The jaxray Dataset of daily values
+ * @param options - Configuration options
+ * @param options.threshold - Threshold in the variable's units; temperatures in °C
+ * @param options.comparison - "above" or "below" (default: "above")
+ * @param options.variable - Variable to test (default: the only data variable)
+ * @param options.frequency - Count per period, e.g. "1Y"
+ * @param options.dimension - Name of the time dimension (default: "time")
+ * @returns A new Dataset with one `<variable>_days_<comparison>` variable
+ * @throws InvalidSelectionError if the options don't fit the data or it isn't daily
+ *
+ * @example
+ * ```typescript
+ * const data = await Dataset.open_zarr(store);
+ * const frostDays = await countDays(data, {
+ *   variable: "tmin",
+ *   threshold: 0,
+ *   comparison: "below",
+ *   frequency: "1Y",
+ * });
+ * ```
+ */
+export async function countDays(
+  dataset: Dataset,
+  options: ThresholdOptions
+): Promise<Dataset> {
+  const { variable, comparison, beyond } = exceedance(dataset, options);
+  const { frequency, dimension = "time" } = options;
+
+  return dailyIndicator(
+    dataset,
+    {
+      name: `${variable}_days_${comparison}`,
+      inputs: [variable],
+      dimension,
+      frequency,
+      attrs: {
+        ...thresholdAttrs(dataset, variable, options, comparison),
+        cell_methods: `${dimension}: sum`,
+      },
+    },
+    ([values]) =>
+      values.some((value) => !Number.isNaN(value)) ? values.filter(beyond).length : NaN
+  );
+}
+
+/**
+ * Finds the longest run of consecutive days per grid cell strictly above or
+ * below a threshold, e.g. the longest dry spell (precipitation below 1 mm).
+ * Days without data, and days missing from the time axis, end a run; cells
+ * without any data get NaN. With a `frequency`, runs are cut at period
+ * boundaries.
+ *
+ * @param dataset - The jaxray Dataset of daily values
+ * @param options - Configuration options
+ * @param options.threshold - Threshold in the variable's units; temperatures in °C
+ * @param options.comparison - "above" or "below" (default: "above")
+ * @param options.variable - Variable to test (default: the only data variable)
+ * @param options.frequency - Longest run per period, e.g. "1Y"
+ * @param options.dimension - Name of the time dimension (default: "time")
+ * @returns A new Dataset with one `<variable>_longest_run_<comparison>` variable
+ * @throws InvalidSelectionError if the options don't fit the data or it isn't daily
+ *
+ * @example
+ * ```typescript
+ * const data = await Dataset.open_zarr(store);
+ * const drySpell = await longestRun(data, { threshold: 1, comparison: "below" });
+ * ```
+ */
+export async function longestRun(
+  dataset: Dataset,
+  options: ThresholdOptions
+): Promise<Dataset> {
+  const { variable, comparison, beyond } = exceedance(dataset, options);
+  const { frequency, dimension = "time" } = options;
+
+  return dailyIndicator(
+    dataset,
+    {
+      name: `${variable}_longest_run_${comparison}`,
+      inputs: [variable],
+      dimension,
+      frequency,
+      attrs: {
+        ...thresholdAttrs(dataset, variable, options, comparison),
+        cell_methods: `${dimension}: maximum`,
+      },
+    },
+    ([values], days) => {
+      if (values.every((value) => Number.isNaN(value))) return NaN;
+      let longest = 0;
+      let current = 0;
+      values.forEach((value, day) => {
+        const follows = day > 0 && days[day] - days[day - 1] === DAY_MS;
+        current = beyond(value) ? (follows ? current + 1 : 1) : 0;
+        longest = Math.max(longest, current);
+      });
+      return longest;
+    }
+  );
+}
@@ -6,10 +6,15 @@ import {
   type Attributes,
   type Span,
 } from "@opentelemetry/api";
+import {
+  DClimateClientError,
+  OperationAbortedError,
+  type ErrorCode,
+} from "./errors.js";
 
 type AttributeValue = string | number | boolean;
 
-export type RetrievalStatus = "ok" | "error" | "connection_error";
+export type RetrievalStatus = "ok" | "error" | "connection_error" | "aborted";
 
 const TRACER = trace.getTracer("dclimate_client_js.ipfs_retrieval");
 const METER = metrics.getMeter("dclimate_client_js.ipfs_retrieval");
@@ -66,6 +71,15 @@ export function recordSpanError(span: Span, error: unknown): void {
   const message = error instanceof Error ? error.message : String(error);
   span.recordException(error instanceof Error ? error : message);
   span.setStatus({ code: SpanStatusCode.ERROR, message });
+  if (error instanceof OperationAbortedError) {
+    span.setAttributes(
+      otelAttributes({
+        "dclimate_client.aborted": true,
+        "dclimate_client.abort.phase": error.phase,
+        "dclimate_client.abort.timed_out": error.timedOut,
+      })
+    );
+  }
 }
 
 export async function withSpan<T>(
@@ -91,16 +105,19 @@ export function recordDatasetOpen({
   storeType,
   status,
   seconds,
+  attempt = 1,
 }: {
   gatewayUrl: string;
   storeType: string;
   status: RetrievalStatus;
   seconds: number;
+  attempt?: number;
 }): void {
   const attributes = otelAttributes({
     "dclimate_client.ipfs.gateway": gatewayUrl,
     "dclimate_client.ipfs.store_type": storeType,
     "dclimate_client.ipfs.status": status,
+    "dclimate_client.attempt": attempt,
   });
   DATASET_OPEN_COUNTER.add(1, attributes);
   DATASET_OPEN_DURATION.record(seconds, attributes);
@@ -111,26 +128,69 @@ export function recordStoreOpen({
   storeType,
   status,
   seconds,
+  attempt = 1,
 }: {
   gatewayUrl: string;
   storeType: string;
   status: RetrievalStatus;
   seconds: number;
+  attempt?: number;
 }): void {
   const attributes = otelAttributes({
     "dclimate_client.ipfs.gateway": gatewayUrl,
     "dclimate_client.ipfs.store_type": storeType,
     "dclimate_client.ipfs.status": status,
+    "dclimate_client.attempt": attempt,
   });
   STORE_OPEN_COUNTER.add(1, attributes);
   STORE_OPEN_DURATION.record(seconds, attributes);
 }
 
+/**
+ * Adds a `dclimate_client.attempt` event to the active span for one attempt
+ * of a retried operation.
+ */
+export function recordAttempt({
+  operation,
+  attempt,
+  status,
+  delayMs,
+}: {
+  operation: string;
+  attempt: number;
+  status: RetrievalStatus;
+  /** Wait before the next attempt, when one follows. */
+  delayMs?: number;
+}): void {
+  trace.getActiveSpan()?.addEvent(
+    "dclimate_client.attempt",
+    otelAttributes({
+      "dclimate_client.operation": operation,
+      "dclimate_client.attempt": attempt,
+      "dclimate_client.attempt.status": status,
+      "dclimate_client.attempt.retry_in_ms": delayMs,
+    })
+  );
+}
+
 export function secondsSince(startedAt: number): number {
   return (performance.now() - startedAt) / 1000;
 }
 
+const CONNECTION_ERROR_CODES: ReadonlySet<ErrorCode> = new Set([
+  "GATEWAY_UNAVAILABLE",
+  "GATEWAY_TIMEOUT",
+  "NETWORK_ERROR",
+  "TIMEOUT",
+]);
+
 export function classifyRetrievalError(error: unknown): RetrievalStatus {
+  if (error instanceof OperationAbortedError) {
+    return error.timedOut ? "connection_error" : "aborted";
+  }
+  if (error instanceof DClimateClientError && CONNECTION_ERROR_CODES.has(error.code)) {
+    return "connection_error";
+  }
   const message = error instanceof Error ? error.message : String(error);
   if (
     message.includes("Connection refused") ||
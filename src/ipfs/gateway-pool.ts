@@ -0,0 +1,105 @@
+/**
+ * Gateway health tracking for multi-gateway dataset opens.
+ *
+ * Each gateway carries a score in [0, 1] built from the outcomes reported by
+ * `classifyRetrievalError`. Connection failures drag the score down quickly;
+ * generic errors only a little, since they are usually the dataset's fault
+ * rather than the gateway's. A gateway whose score drops below the threshold
+ * is benched for a cooldown period and skipped while healthier ones remain.
+ */
+
+import type { RetrievalStatus } from "../instrumentation.js";
+
+/**
+ * How to spread an open across gateways:
+ * - `"failover"` tries gateways one at a time, in order, until one succeeds.
+ * - `{ race: n }` starts the first `n` gateways at once and keeps the first
+ *   success, falling over to the rest if all of them fail.
+ */
+export type GatewayStrategy = "failover" | { race: number };
+
+export interface GatewayHealthOptions {
+  /** How long an unhealthy gateway is skipped, in milliseconds (default: 60000). */
+  cooldownMs?: number;
+  /** Score below which a gateway is considered unhealthy (default: 0.3). */
+  unhealthyScore?: number;
+}
+
+interface GatewayState {
+  score: number;
+  cooldownUntil: number;
+}
+
+const DEFAULT_COOLDOWN_MS = 60000;
+const DEFAULT_UNHEALTHY_SCORE = 0.3;
+// Weight of the latest outcome in the moving average.
+const SCORE_SMOOTHING = 0.5;
+
+const OUTCOME_SCORES: Record<Exclude<RetrievalStatus, "aborted">, number> = {
+  ok: 1,
+  error: 0.5,
+  connection_error: 0,
+};
+
+export class GatewayHealth {
+  private readonly states: Map<string, GatewayState> = new Map();
+  private readonly cooldownMs: number;
+  private readonly unhealthyScore: number;
+
+  constructor(options: GatewayHealthOptions = {}) {
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.unhealthyScore = options.unhealthyScore ?? DEFAULT_UNHEALTHY_SCORE;
+  }
+
+  score(gatewayUrl: string): number {
+    return this.states.get(gatewayUrl)?.score ?? 1;
+  }
+
+  isHealthy(gatewayUrl: string, now: number = Date.now()): boolean {
+    const state = this.states.get(gatewayUrl);
+    return !state || state.cooldownUntil <= now;
+  }
+
+  record(
+    gatewayUrl: string,
+    status: RetrievalStatus,
+    now: number = Date.now()
+  ): void {
+    // A cancelled open says nothing about the gateway.
+    if (status === "aborted") return;
+    const state = this.states.get(gatewayUrl) ?? { score: 1, cooldownUntil: 0 };
+    state.score =
+      state.score * (1 - SCORE_SMOOTHING) + OUTCOME_SCORES[status] * SCORE_SMOOTHING;
+
+    if (status === "ok") {
+      state.cooldownUntil = 0;
+    } else if (state.score < this.unhealthyScore) {
+      state.cooldownUntil = now + this.cooldownMs;
+    }
+
+    this.states.set(gatewayUrl, state);
+  }
+
+  /**
+   * Picks the gateways to attempt, in order. Healthy gateways keep their
+   * configured order and benched ones are skipped. If every gateway is cooling
+   * down they are all returned, best score first, so an open is never refused
+   * outright.
+   */
+  rank(gateways: string[], now: number = Date.now()): string[] {
+    const unique = [...new Set(gateways)];
+    const healthy = unique.filter((url) => this.isHealthy(url, now));
+    if (healthy.length > 0) {
+      return healthy;
+    }
+    return unique.sort((a, b) => this.score(b) - this.score(a));
+  }
+
+  reset(): void {
+    this.states.clear();
+  }
+}
+
+// Shared by callers that don't bring their own tracker, so health carries over
+// between independent `openDatasetFromCid` calls.
+export const defaultGatewayHealth = new GatewayHealth();
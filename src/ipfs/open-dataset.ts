@@ -1,6 +1,12 @@
-import { Dataset, openIpfsStore } from "@dclimate/jaxray";
+import { createIpfsElements, Dataset, openIpfsStore } from "@dclimate/jaxray";
 import type { IPFSELEMENTS_INTERFACE } from "@dclimate/jaxray";
+import { abortError, raceAbort, throwIfAborted, withPhase } from "../abort.js";
 import { DEFAULT_IPFS_GATEWAY } from "../constants.js";
+import {
+  DatasetOpenError,
+  DClimateClientError,
+  GatewayUnavailableError,
+} from "../errors.js";
 import {
   classifyRetrievalError,
   recordDatasetOpen,
@@ -10,12 +16,45 @@ import {
   withSpan,
   type RetrievalStatus,
 } from "../instrumentation.js";
+import { withRetry } from "../retry.js";
+import type { FetchLike, RetryPolicy } from "../types.js";
+import {
+  defaultGatewayHealth,
+  type GatewayHealth,
+  type GatewayStrategy,
+} from "./gateway-pool.js";
 
 export type IpfsElements = IPFSELEMENTS_INTERFACE;
 
 export interface OpenDatasetOptions {
   gatewayUrl?: string;
   ipfsElements?: IpfsElements;
+  /**
+   * Ordered list of gateways to open from. When more than one is given the
+   * open is spread across them according to `gatewayStrategy`, and
+   * `gatewayUrl`/`ipfsElements` are ignored.
+   */
+  gateways?: string[];
+  /** Default: "failover" */
+  gatewayStrategy?: GatewayStrategy;
+  /** Health tracker shared across opens. Default: a module-wide tracker. */
+  gatewayHealth?: GatewayHealth;
+  /**
+   * Builds the IPFS elements for a gateway. Default: jaxray's
+   * `createIpfsElements` with `fetch`.
+   */
+  ipfsElementsForGateway?: (gatewayUrl: string) => IpfsElements;
+  /** Sends IPFS block requests for default elements. Default: global `fetch`. */
+  fetch?: FetchLike;
+  /** Cancels the open, which then rejects with `OperationAbortedError`. */
+  signal?: AbortSignal;
+  /** Time limit for the whole open, failover included, in milliseconds. */
+  timeoutMs?: number;
+  /**
+   * Retries opening the store on each gateway, and every chunk read of the
+   * opened dataset. Default: no retries.
+   */
+  retry?: RetryPolicy;
 }
 
 export async function openDatasetFromCid(
@@ -23,13 +62,164 @@ export async function openDatasetFromCid(
   options: OpenDatasetOptions = {}
 ): Promise<Dataset> {
   if (!cid) {
-    throw new Error("A CID must be provided to load a dataset.");
+    throw new DClimateClientError("A CID must be provided to load a dataset.", {
+      code: "INVALID_REQUEST",
+    });
   }
 
-  const gatewayUrl = options.gatewayUrl ?? DEFAULT_IPFS_GATEWAY;
+  const gateways = options.gateways ?? [];
+  return withPhase("open", options.signal, options.timeoutMs, (signal) => {
+    if (gateways.length > 1) {
+      return openFromGateways(cid, gateways, options, signal);
+    }
+
+    const gatewayUrl = gateways[0] ?? options.gatewayUrl ?? DEFAULT_IPFS_GATEWAY;
+    const ipfsElements =
+      (gateways.length === 1 ? undefined : options.ipfsElements) ??
+      ipfsElementsFor(gatewayUrl, options);
+    return openFromGateway(cid, gatewayUrl, ipfsElements, signal, options.retry);
+  });
+}
+
+async function openFromGateways(
+  cid: string,
+  gateways: string[],
+  options: OpenDatasetOptions,
+  signal: AbortSignal
+): Promise<Dataset> {
+  const health = options.gatewayHealth ?? defaultGatewayHealth;
+  const strategy = options.gatewayStrategy ?? "failover";
+  const ranked = health.rank(gateways);
+  const failures: Array<{ gatewayUrl: string; error: unknown }> = [];
+
+  const attempt = async (gatewayUrl: string): Promise<Dataset> => {
+    try {
+      const dataset = await openFromGateway(
+        cid,
+        gatewayUrl,
+        ipfsElementsFor(gatewayUrl, options),
+        signal,
+        options.retry
+      );
+      health.record(gatewayUrl, "ok");
+      return dataset;
+    } catch (error) {
+      health.record(gatewayUrl, classifyRetrievalError(error));
+      failures.push({ gatewayUrl, error });
+      throw error;
+    }
+  };
+
+  // Racing a single gateway is just failover, so only race when it's 2+.
+  const raceCount = strategy === "failover" ? 1 : Math.max(1, strategy.race);
+  const racing = raceCount > 1 ? ranked.slice(0, raceCount) : [];
+
+  if (racing.length > 0) {
+    try {
+      return await Promise.any(racing.map(attempt));
+    } catch {
+      // Every racer failed; fall over to the remaining gateways.
+    }
+  }
+
+  for (const gatewayUrl of ranked.slice(racing.length)) {
+    // Once cancelled, don't move on to the next gateway.
+    throwIfAborted(signal, "open");
+    try {
+      return await attempt(gatewayUrl);
+    } catch {
+      // Try the next gateway.
+    }
+  }
+
+  if (signal.aborted) {
+    throw abortError(signal, "open");
+  }
+
+  throw new GatewayUnavailableError(
+    `Failed to open CID ${cid} from any of ${ranked.length} gateway(s): ${failures
+      .map(({ gatewayUrl, error }) =>
+        `${gatewayUrl} (${error instanceof Error ? error.message : String(error)})`
+      )
+      .join("; ")}`,
+    failures,
+    {
+      code: failures.every(({ error }) => isGatewayTimeout(error))
+        ? "GATEWAY_TIMEOUT"
+        : "GATEWAY_UNAVAILABLE",
+      context: { cid },
+    }
+  );
+}
+
+function isGatewayTimeout(error: unknown): boolean {
+  return error instanceof DClimateClientError && error.code === "GATEWAY_TIMEOUT";
+}
+
+/** IPFS elements for `gatewayUrl`, built on the configured fetch by default. */
+function ipfsElementsFor(gatewayUrl: string, options: OpenDatasetOptions): IpfsElements {
+  return (
+    options.ipfsElementsForGateway?.(gatewayUrl) ??
+    createIpfsElements(gatewayUrl, { fetch: options.fetch })
+  );
+}
+
+/**
+ * Wraps a failure from jaxray in a {@link DatasetOpenError}, keeping its
+ * message. Connection failures are retriable; a store that can't be read as
+ * Zarr is not.
+ */
+function toOpenError(error: unknown, cid: string, gatewayUrl: string): unknown {
+  if (error instanceof DClimateClientError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const connectionError = classifyRetrievalError(error) === "connection_error";
+  const timedOut = /timed out|timeout|ETIMEDOUT/i.test(message);
+  return new DatasetOpenError(message, {
+    code: connectionError
+      ? timedOut
+        ? "GATEWAY_TIMEOUT"
+        : "GATEWAY_UNAVAILABLE"
+      : "DATASET_OPEN_FAILED",
+    retriable: connectionError,
+    cause: error,
+    context: { cid, url: gatewayUrl },
+  });
+}
+
+/** Methods of a Zarr store that read chunk or metadata bytes. */
+const STORE_READ_METHODS = new Set<PropertyKey>(["get", "getRange"]);
+
+/**
+ * Wraps `store` so each read is retried per `retry`. Reads can't be
+ * cancelled, so they are not tied to the open's signal.
+ */
+function withChunkRetries<S extends object>(store: S, retry: RetryPolicy | undefined): S {
+  if (!retry) return store;
+  return new Proxy(store, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      if (!STORE_READ_METHODS.has(property) || typeof value !== "function") {
+        return value;
+      }
+      return (...args: unknown[]) =>
+        withRetry(async () => value.apply(target, args), retry, {
+          operation: "ipfs.chunk_read",
+        });
+    },
+  });
+}
+
+async function openFromGateway(
+  cid: string,
+  gatewayUrl: string,
+  ipfsElements: IpfsElements,
+  signal: AbortSignal,
+  retry?: RetryPolicy
+): Promise<Dataset> {
   const storeType = "JaxrayIpfsStore";
   const datasetStartedAt = performance.now();
   let status: RetrievalStatus = "error";
+  let attempts = 1;
 
   return withSpan(
     "dclimate_client.ipfs.load_zarr_dataset",
@@ -46,48 +236,70 @@ export async function openDatasetFromCid(
             "dclimate_client.ipfs.store_type": storeType,
           },
           async (storeSpan) => {
-            const storeStartedAt = performance.now();
             try {
-              const openedStore = await openIpfsStore(
-                cid,
-                options.ipfsElements ?? { gatewayUrl }
+              return await withRetry(
+                async (attempt) => {
+                  attempts = attempt;
+                  const storeStartedAt = performance.now();
+                  try {
+                    // openIpfsStore takes no signal; stop waiting on abort instead.
+                    const openedStore = await raceAbort(
+                      openIpfsStore(cid, ipfsElements),
+                      signal,
+                      "open"
+                    );
+                    recordStoreOpen({
+                      gatewayUrl,
+                      storeType,
+                      status: "ok",
+                      seconds: secondsSince(storeStartedAt),
+                      attempt,
+                    });
+                    return openedStore;
+                  } catch (error) {
+                    const openError = toOpenError(error, cid, gatewayUrl);
+                    recordStoreOpen({
+                      gatewayUrl,
+                      storeType,
+                      status: classifyRetrievalError(openError),
+                      seconds: secondsSince(storeStartedAt),
+                      attempt,
+                    });
+                    throw openError;
+                  }
+                },
+                retry,
+                { operation: "ipfs.store_open", signal, phase: "open" }
               );
-              recordStoreOpen({
-                gatewayUrl,
-                storeType,
-                status: "ok",
-                seconds: secondsSince(storeStartedAt),
-              });
-              return openedStore;
             } catch (error) {
-              const storeStatus = classifyRetrievalError(error);
-              recordStoreOpen({
-                gatewayUrl,
-                storeType,
-                status: storeStatus,
-                seconds: secondsSince(storeStartedAt),
-              });
               recordSpanError(storeSpan, error);
               throw error;
             }
           }
         );
 
-        const dataset = await Dataset.open_zarr(store);
+        const dataset = await raceAbort(
+          Dataset.open_zarr(withChunkRetries(store, retry)),
+          signal,
+          "open"
+        );
         status = "ok";
         return dataset;
       } catch (error) {
-        status = classifyRetrievalError(error);
-        recordSpanError(datasetSpan, error);
-        throw error;
+        const openError = toOpenError(error, cid, gatewayUrl);
+        status = classifyRetrievalError(openError);
+        recordSpanError(datasetSpan, openError);
+        throw openError;
       } finally {
         datasetSpan.setAttribute("dclimate_client.ipfs.store_type", storeType);
         datasetSpan.setAttribute("dclimate_client.ipfs.status", status);
+        datasetSpan.setAttribute("dclimate_client.attempt", attempts);
         recordDatasetOpen({
           gatewayUrl,
           storeType,
           status,
           seconds: secondsSince(datasetStartedAt),
+          attempt: attempts,
         });
       }
     }
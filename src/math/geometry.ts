@@ -0,0 +1,276 @@
+import { InvalidSelectionError } from "../errors.js";
+import type { GeoJsonPosition, PolygonGeometry } from "../types.js";
+import {
+  longitudeConvention,
+  longitudeRanges,
+  stitchLongitudeIndices,
+  type LongitudeConvention,
+} from "./longitudes.js";
+
+/** Rings of one polygon, outer ring first, then holes. */
+export type PolygonRings = GeoJsonPosition[][];
+
+export interface Rect {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+/**
+ * Checks a GeoJSON Polygon/MultiPolygon and returns its polygons as lists of
+ * rings.
+ *
+ * @throws InvalidSelectionError if the geometry is not a valid (multi)polygon
+ */
+export function polygonsOf(geometry: PolygonGeometry): PolygonRings[] {
+  const polygons =
+    geometry?.type === "Polygon"
+      ? [geometry.coordinates]
+      : geometry?.type === "MultiPolygon"
+        ? geometry.coordinates
+        : undefined;
+
+  if (!Array.isArray(polygons) || polygons.length === 0) {
+    throw new InvalidSelectionError(
+      "Polygon selection requires a GeoJSON Polygon or MultiPolygon geometry"
+    );
+  }
+
+  for (const rings of polygons) {
+    if (!Array.isArray(rings) || rings.length === 0) {
+      throw new InvalidSelectionError("Every polygon needs an outer ring");
+    }
+    for (const ring of rings) {
+      if (
+        !Array.isArray(ring) ||
+        ring.length < 4 ||
+        ring.some(
+          (position) =>
+            !Array.isArray(position) ||
+            !Number.isFinite(position[0]) ||
+            !Number.isFinite(position[1])
+        )
+      ) {
+        throw new InvalidSelectionError(
+          "Polygon rings must hold at least four [longitude, latitude] positions"
+        );
+      }
+    }
+  }
+  return polygons;
+}
+
+/** Bounding box of the outer rings. */
+export function polygonsBounds(polygons: PolygonRings[]): Rect {
+  const bounds = { west: Infinity, south: Infinity, east: -Infinity, north: -Infinity };
+  for (const [outer] of polygons) {
+    for (const [lon, lat] of outer) {
+      bounds.west = Math.min(bounds.west, lon);
+      bounds.east = Math.max(bounds.east, lon);
+      bounds.south = Math.min(bounds.south, lat);
+      bounds.north = Math.max(bounds.north, lat);
+    }
+  }
+  return bounds;
+}
+
+/**
+ * Ring with every vertex within 180° of the one before it, starting near
+ * `reference`, so a ring drawn across the antimeridian (170 → -170) runs on
+ * past it (170 → 190).
+ */
+function unwrapRing(ring: GeoJsonPosition[], reference: number): GeoJsonPosition[] {
+  let previous = reference;
+  return ring.map(([lon, lat]) => {
+    previous = lon + 360 * Math.round((previous - lon) / 360);
+    return [previous, lat];
+  });
+}
+
+/**
+ * Rewrites the polygons in a grid's longitude convention. A polygon that
+ * crosses the convention's seam is split into one copy per side, each shifted
+ * onto its side, so the parts beyond the seam land on the grid.
+ */
+export function polygonsInConvention(
+  polygons: PolygonRings[],
+  convention: LongitudeConvention
+): PolygonRings[] {
+  return polygons.flatMap((rings) => {
+    const reference = rings[0][0][0];
+    const unwrapped = rings.map((ring) => unwrapRing(ring, reference));
+    const { west, east } = polygonsBounds([unwrapped]);
+    const ranges = longitudeRanges(west, east, convention);
+    const shift = ranges[0][0] - west;
+    return ranges.map((_, side) =>
+      unwrapped.map((ring) =>
+        ring.map(([lon, lat]) => [lon + shift - 360 * side, lat])
+      )
+    );
+  });
+}
+
+/** Even-odd ray casting test; points exactly on an edge may go either way. */
+export function pointInRing(lon: number, lat: number, ring: GeoJsonPosition[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Inside any polygon's outer ring and outside all of its holes. */
+export function pointInPolygons(lon: number, lat: number, polygons: PolygonRings[]): boolean {
+  return polygons.some(
+    ([outer, ...holes]) =>
+      pointInRing(lon, lat, outer) && !holes.some((hole) => pointInRing(lon, lat, hole))
+  );
+}
+
+/** Liang–Barsky clipping: does the segment a→b touch `rect`? */
+export function segmentIntersectsRect(
+  [ax, ay]: GeoJsonPosition,
+  [bx, by]: GeoJsonPosition,
+  rect: Rect
+): boolean {
+  const dx = bx - ax;
+  const dy = by - ay;
+  let t0 = 0;
+  let t1 = 1;
+  const edges: Array<[number, number]> = [
+    [-dx, ax - rect.west],
+    [dx, rect.east - ax],
+    [-dy, ay - rect.south],
+    [dy, rect.north - ay],
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return false;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      if (t > t1) return false;
+      t0 = Math.max(t0, t);
+    } else {
+      if (t < t0) return false;
+      t1 = Math.min(t1, t);
+    }
+  }
+  return true;
+}
+
+/**
+ * Whether `rect` shares any area with the polygons. Either a ring boundary
+ * passes through the rectangle, or the rectangle lies wholly inside or
+ * outside, which its centre decides.
+ */
+export function rectOverlapsPolygons(rect: Rect, polygons: PolygonRings[]): boolean {
+  const centreLon = (rect.west + rect.east) / 2;
+  const centreLat = (rect.south + rect.north) / 2;
+  if (pointInPolygons(centreLon, centreLat, polygons)) return true;
+
+  return polygons.some((rings) =>
+    rings.some((ring) =>
+      ring.some((position, i) => i > 0 && segmentIntersectsRect(ring[i - 1], position, rect))
+    )
+  );
+}
+
+/**
+ * Extent of each grid cell along one axis, halfway to its neighbours. A
+ * single cell has no extent.
+ */
+export function cellExtents(centres: number[]): Array<[number, number]> {
+  return centres.map((centre, i) => {
+    const previous = centres[i - 1] ?? centre - ((centres[i + 1] ?? centre) - centre);
+    const next = centres[i + 1] ?? centre + (centre - previous);
+    const a = (previous + centre) / 2;
+    const b = (centre + next) / 2;
+    return [Math.min(a, b), Math.max(a, b)];
+  });
+}
+
+const EDGE_TOLERANCE = 1e-9;
+
+export interface PolygonCells {
+  /** Latitude indices of the rows holding at least one selected cell. */
+  latIndices: number[];
+  /** Longitude indices of the columns holding at least one selected cell. */
+  lonIndices: number[];
+  /** `[row][column]` mask over `latIndices` × `lonIndices`. */
+  mask: boolean[][];
+}
+
+/**
+ * Finds the grid cells belonging to the polygons, written in either longitude
+ * convention. Only cells within the polygons' bounding box are tested, and the
+ * result is cropped to the rows and columns that hold a selected cell, with
+ * columns west to east.
+ */
+export function polygonCells(
+  rings: PolygonRings[],
+  latitudes: number[],
+  longitudes: number[],
+  inclusion: "centre" | "overlap" = "centre"
+): PolygonCells {
+  const polygons = polygonsInConvention(rings, longitudeConvention(longitudes));
+  const bounds = polygonsBounds(polygons);
+  const latExtents = cellExtents(latitudes);
+  const lonExtents = cellExtents(longitudes);
+  const overlap = inclusion === "overlap";
+
+  const withinBounds = (
+    centres: number[],
+    extents: Array<[number, number]>,
+    min: number,
+    max: number
+  ) =>
+    centres
+      .map((_, i) => i)
+      .filter((i) =>
+        overlap
+          ? extents[i][1] >= min && extents[i][0] <= max
+          : centres[i] >= min && centres[i] <= max
+      );
+  const rows = withinBounds(latitudes, latExtents, bounds.south, bounds.north);
+  const columns = withinBounds(longitudes, lonExtents, bounds.west, bounds.east);
+
+  const mask = rows.map((latIdx) =>
+    columns.map((lonIdx) => {
+      if (!overlap) return pointInPolygons(longitudes[lonIdx], latitudes[latIdx], polygons);
+      // Shrink the cell a hair so a polygon that only shares an edge with it,
+      // e.g. one drawn along grid lines, doesn't count as overlapping.
+      const [south, north] = latExtents[latIdx];
+      const [west, east] = lonExtents[lonIdx];
+      const latInset = (north - south) * EDGE_TOLERANCE;
+      const lonInset = (east - west) * EDGE_TOLERANCE;
+      return rectOverlapsPolygons(
+        {
+          west: west + lonInset,
+          south: south + latInset,
+          east: east - lonInset,
+          north: north - latInset,
+        },
+        polygons
+      );
+    })
+  );
+
+  const keptRows = rows.map((_, r) => r).filter((r) => mask[r].some(Boolean));
+  const keptColumns = stitchLongitudeIndices(
+    columns.map((_, c) => c).filter((c) => keptRows.some((r) => mask[r][c])),
+    columns.map((lonIdx) => longitudes[lonIdx])
+  );
+
+  return {
+    latIndices: keptRows.map((r) => rows[r]),
+    lonIndices: keptColumns.map((c) => columns[c]),
+    mask: keptRows.map((r) => keptColumns.map((c) => mask[r][c])),
+  };
+}
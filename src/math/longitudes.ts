@@ -0,0 +1,80 @@
+/**
+ * How a dataset writes longitudes: 0 to 360 degrees east, or -180 to 180.
+ */
+export type LongitudeConvention = "0-360" | "-180-180";
+
+/** A grid with any longitude above 180° counts as 0–360. */
+export function longitudeConvention(longitudes: ArrayLike<number>): LongitudeConvention {
+  for (let i = 0; i < longitudes.length; i++) {
+    if (longitudes[i] > 180) return "0-360";
+  }
+  return "-180-180";
+}
+
+/** Same meridian written in `convention`; values already in range are kept. */
+export function toLongitudeConvention(lon: number, convention: LongitudeConvention): number {
+  if (convention === "0-360") {
+    return lon >= 0 && lon <= 360 ? lon : ((lon % 360) + 360) % 360;
+  }
+  return lon >= -180 && lon <= 180 ? lon : ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Converts a query longitude to the convention of `datasetLongitudes`.
+ * Non-numeric coordinates leave it unchanged.
+ */
+export function matchLongitudeConvention(lon: number, datasetLongitudes: unknown): number {
+  if (!Array.isArray(datasetLongitudes) || datasetLongitudes.length === 0) return lon;
+  const numeric = datasetLongitudes.map(Number);
+  if (numeric.some(Number.isNaN)) return lon;
+  return toLongitudeConvention(lon, longitudeConvention(numeric));
+}
+
+/**
+ * Splits the span from `west` eastward to `east` into `[min, max]` ranges in
+ * `convention`, west to east. A span crossing the convention's seam (the
+ * antimeridian for -180–180, Greenwich for 0–360) yields two ranges; a span
+ * of 360° or more covers every longitude.
+ */
+export function longitudeRanges(
+  west: number,
+  east: number,
+  convention: LongitudeConvention
+): Array<[number, number]> {
+  const [min, max] = convention === "0-360" ? [0, 360] : [-180, 180];
+  const span = east > west ? east - west : east - west + 360;
+  if (span >= 360) return [[min, max]];
+
+  const start = toLongitudeConvention(west, convention);
+  const end = start + span;
+  if (end <= max) return [[start, end]];
+  return [
+    [start, max],
+    [min, end - 360],
+  ];
+}
+
+const GAP_TOLERANCE = 1e-9;
+
+/**
+ * Orders selected grid columns west to east. A selection that wraps around
+ * the grid's seam starts after its largest gap, so the two halves are
+ * stitched together; other selections keep grid order.
+ */
+export function stitchLongitudeIndices(indices: number[], longitudes: number[]): number[] {
+  if (indices.length < 2) return indices;
+  const sorted = [...indices].sort((a, b) => longitudes[a] - longitudes[b]);
+
+  let largestGap = -Infinity;
+  let start = 0;
+  sorted.forEach((index, position) => {
+    const previous = sorted[(position - 1 + sorted.length) % sorted.length];
+    const gap = (((longitudes[index] - longitudes[previous]) % 360) + 360) % 360;
+    if (gap > largestGap + GAP_TOLERANCE) {
+      largestGap = gap;
+      start = position;
+    }
+  });
+  if (start === 0) return indices;
+  return [...sorted.slice(start), ...sorted.slice(0, start)];
+}
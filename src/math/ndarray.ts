@@ -0,0 +1,97 @@
+/**
+ * Flat, row-major view of an n-dimensional array. Reductions work on this
+ * rather than on jaxray's nested arrays.
+ */
+export interface NdArray {
+  values: number[];
+  shape: number[];
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "bigint") return Number(value);
+  if (value === null || value === undefined) return NaN;
+  return Number(value);
+}
+
+/**
+ * Flattens nested array data with `ndim` dimensions. Missing values (null,
+ * undefined) become NaN. An empty dimension gives length 0 to every dimension
+ * below it, since there is no element to measure them from.
+ */
+export function fromNested(data: unknown, ndim: number): NdArray {
+  const shape: number[] = [];
+  let level = data;
+  for (let depth = 0; depth < ndim; depth++) {
+    const array = level as ArrayLike<unknown>;
+    shape.push(array.length);
+    if (array.length === 0) break;
+    level = array[0];
+  }
+  while (shape.length < ndim) shape.push(0);
+
+  const values: number[] = [];
+  const visit = (node: unknown, depth: number) => {
+    if (depth === ndim) {
+      values.push(toNumber(node));
+      return;
+    }
+    const array = node as ArrayLike<unknown>;
+    for (let i = 0; i < array.length; i++) {
+      visit(array[i], depth + 1);
+    }
+  };
+  visit(data, 0);
+  return { values, shape };
+}
+
+/**
+ * Rebuilds nested arrays from flat row-major `values`. A 0-d shape yields the
+ * single value itself.
+ */
+export function toNested(values: ArrayLike<number>, shape: number[]): unknown {
+  if (shape.length === 0) return values[0];
+  const strides = stridesOf(shape);
+  const build = (offset: number, depth: number): unknown[] =>
+    Array.from({ length: shape[depth] }, (_, i) =>
+      depth === shape.length - 1
+        ? values[offset + i]
+        : build(offset + i * strides[depth], depth + 1)
+    );
+  return build(0, 0);
+}
+
+export function stridesOf(shape: number[]): number[] {
+  const strides = new Array<number>(shape.length).fill(1);
+  for (let axis = shape.length - 2; axis >= 0; axis--) {
+    strides[axis] = strides[axis + 1] * shape[axis + 1];
+  }
+  return strides;
+}
+
+/**
+ * Groups flat indices by their position along `keptAxes`, collapsing every
+ * other axis. `groups[i]` lists the elements that reduce into output element
+ * `i` of an array shaped `shape`.
+ */
+export function groupAlongAxes(
+  source: number[],
+  keptAxes: number[]
+): { shape: number[]; groups: number[][] } {
+  const shape = keptAxes.map((axis) => source[axis]);
+  const strides = stridesOf(source);
+  const outStrides = stridesOf(shape);
+  const size = shape.reduce((total, length) => total * length, 1);
+  const groups: number[][] = Array.from({ length: size }, () => []);
+  const total = source.reduce((product, length) => product * length, 1);
+
+  for (let index = 0; index < total; index++) {
+    let outIndex = 0;
+    keptAxes.forEach((axis, position) => {
+      const along = Math.floor(index / strides[axis]) % source[axis];
+      outIndex += along * outStrides[position];
+    });
+    groups[outIndex].push(index);
+  }
+  return { shape, groups };
+}
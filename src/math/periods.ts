@@ -0,0 +1,159 @@
+import { InvalidSelectionError } from "../errors.js";
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+// 1970-01-05 was a Monday; weeks start there, as in ISO 8601.
+const MONDAY_ORIGIN_MS = 4 * DAY_MS;
+
+/**
+ * A resampling frequency: either a fixed length of time, aligned to `origin`,
+ * or a whole number of calendar months (years are 12 months).
+ */
+export type Frequency =
+  | { kind: "fixed"; ms: number; origin: number }
+  | { kind: "calendar"; months: number };
+
+const SHORTHAND = /^(\d+)?([HDWMY])$/i;
+const ISO_DURATION =
+  /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+/**
+ * Parses "1D", "6H", "1W", "3M", "1Y" style shorthands and ISO 8601 durations
+ * such as "PT6H", "P1D" or "P1M". Durations can't mix calendar parts (years,
+ * months) with fixed ones.
+ */
+export function parseFrequency(frequency: string): Frequency {
+  const shorthand = SHORTHAND.exec(frequency.trim());
+  if (shorthand) {
+    const count = Number(shorthand[1] ?? 1);
+    if (count > 0) {
+      switch (shorthand[2].toUpperCase()) {
+        case "H":
+          return { kind: "fixed", ms: count * HOUR_MS, origin: 0 };
+        case "D":
+          return { kind: "fixed", ms: count * DAY_MS, origin: 0 };
+        case "W":
+          return { kind: "fixed", ms: count * 7 * DAY_MS, origin: MONDAY_ORIGIN_MS };
+        case "M":
+          return { kind: "calendar", months: count };
+        case "Y":
+          return { kind: "calendar", months: count * 12 };
+      }
+    }
+  }
+
+  const iso = ISO_DURATION.exec(frequency.trim());
+  if (iso) {
+    const [years, months, weeks, days, hours, minutes, seconds] = iso
+      .slice(1)
+      .map((part) => Number(part ?? 0));
+    const fixedMs =
+      weeks * 7 * DAY_MS + days * DAY_MS + hours * HOUR_MS + minutes * 60_000 + seconds * 1000;
+    const calendarMonths = years * 12 + months;
+    if (calendarMonths > 0 && fixedMs === 0) {
+      return { kind: "calendar", months: calendarMonths };
+    }
+    if (fixedMs > 0 && calendarMonths === 0) {
+      const origin = weeks > 0 && fixedMs % (7 * DAY_MS) === 0 ? MONDAY_ORIGIN_MS : 0;
+      return { kind: "fixed", ms: fixedMs, origin };
+    }
+  }
+
+  throw new InvalidSelectionError(
+    `Unsupported resampling frequency "${frequency}". Use e.g. "1D", "1W", "1M", "1Y" or an ISO 8601 duration such as "PT6H".`
+  );
+}
+
+function monthIndex(time: number): number {
+  const date = new Date(time);
+  return (date.getUTCFullYear() - 1970) * 12 + date.getUTCMonth();
+}
+
+function monthStart(index: number): number {
+  return Date.UTC(1970 + Math.floor(index / 12), ((index % 12) + 12) % 12, 1);
+}
+
+/**
+ * Start (epoch milliseconds, UTC) of the period containing `time`. Calendar
+ * periods of several months start on multiples of that count since January
+ * 1970, so "3M" yields quarters and "1Y" calendar years.
+ */
+export function periodStart(time: number, frequency: Frequency): number {
+  if (frequency.kind === "fixed") {
+    const { ms, origin } = frequency;
+    return origin + Math.floor((time - origin) / ms) * ms;
+  }
+  const index = monthIndex(time);
+  return monthStart(index - (((index % frequency.months) + frequency.months) % frequency.months));
+}
+
+/** Start of the period after the one starting at `start`. */
+export function nextPeriodStart(start: number, frequency: Frequency): number {
+  if (frequency.kind === "fixed") return start + frequency.ms;
+  return monthStart(monthIndex(start) + frequency.months);
+}
+
+/** Reads a time coordinate value as epoch milliseconds, NaN if it isn't one. */
+export function toEpochMs(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "number") return value;
+  if (typeof value === "string") return Date.parse(value);
+  return NaN;
+}
+
+/**
+ * Typical spacing of sorted `times`: the median positive gap, or undefined
+ * with fewer than two distinct times.
+ */
+export function samplingInterval(times: number[]): number | undefined {
+  const gaps: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const gap = times[i] - times[i - 1];
+    if (gap > 0) gaps.push(gap);
+  }
+  if (gaps.length === 0) return undefined;
+  gaps.sort((a, b) => a - b);
+  return gaps[Math.floor(gaps.length / 2)];
+}
+
+// Days before each month in a 365-day year
+const CUMULATIVE_DAYS = [0, 31, 59, 90, 120, 151, 181, 212, 243, 273, 304, 334];
+const SEASONS = ["DJF", "MAM", "JJA", "SON"];
+
+/**
+ * Labels of the groups a climatology is computed over: days 1–365, months
+ * 1–12 or the seasons DJF, MAM, JJA and SON.
+ */
+export function seasonalCycleLabels(
+  groupBy: "dayofyear" | "month" | "season"
+): Array<number | string> {
+  switch (groupBy) {
+    case "dayofyear":
+      return Array.from({ length: 365 }, (_, i) => i + 1);
+    case "month":
+      return Array.from({ length: 12 }, (_, i) => i + 1);
+    case "season":
+      return [...SEASONS];
+  }
+}
+
+/**
+ * Position of `time` (UTC) in `seasonalCycleLabels(groupBy)`. Days of year
+ * follow a 365-day calendar so 1 March is always day 60; 29 February shares
+ * day 59 with 28 February.
+ */
+export function seasonalCycleIndex(
+  time: number,
+  groupBy: "dayofyear" | "month" | "season"
+): number {
+  const date = new Date(time);
+  const month = date.getUTCMonth();
+  switch (groupBy) {
+    case "dayofyear":
+      return CUMULATIVE_DAYS[month] + Math.min(date.getUTCDate(), month === 1 ? 28 : 31) - 1;
+    case "month":
+      return month;
+    case "season":
+      return Math.floor(((month + 1) % 12) / 3);
+  }
+}
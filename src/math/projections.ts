@@ -0,0 +1,364 @@
+import { InvalidSelectionError } from "../errors.js";
+
+const DEG = Math.PI / 180;
+const ARC_SECOND = DEG / 3600;
+
+/** Projected `x`/`y` (easting/northing) to WGS84 `[longitude, latitude]` in degrees. */
+export type InverseProjection = (x: number, y: number) => [lon: number, lat: number];
+
+/** A projection with both directions, built from a proj definition. */
+export interface Projection {
+  /** WGS84 longitude/latitude in degrees to projected x/y. */
+  forward(lon: number, lat: number): [x: number, y: number];
+  inverse: InverseProjection;
+}
+
+interface Ellipsoid {
+  a: number;
+  /** First eccentricity. */
+  e: number;
+}
+
+/** Position-vector Helmert parameters to WGS84: metres, radians and a scale factor. */
+type Helmert = [dx: number, dy: number, dz: number, rx: number, ry: number, rz: number, s: number];
+
+const ELLIPSOIDS: Record<string, { a: number; rf?: number; b?: number }> = {
+  WGS84: { a: 6378137, rf: 298.257223563 },
+  GRS80: { a: 6378137, rf: 298.257222101 },
+  airy: { a: 6377563.396, b: 6356256.909 },
+  mod_airy: { a: 6377340.189, b: 6356034.446 },
+  bessel: { a: 6377397.155, rf: 299.1528128 },
+  clrk66: { a: 6378206.4, b: 6356583.8 },
+  intl: { a: 6378388, rf: 297 },
+};
+
+const DATUMS: Record<string, { ellps: string; towgs84?: string }> = {
+  WGS84: { ellps: "WGS84" },
+  NAD83: { ellps: "GRS80" },
+  OSGB36: { ellps: "airy", towgs84: "446.448,-125.157,542.06,0.15,0.247,0.842,-20.489" },
+};
+
+const UNITS: Record<string, number> = {
+  m: 1,
+  km: 1000,
+  ft: 0.3048,
+  "us-ft": 1200 / 3937,
+};
+
+function parseParameters(definition: string): Map<string, string> {
+  const parameters = new Map<string, string>();
+  for (const token of definition.trim().split(/\s+/)) {
+    const match = /^\+([\w-]+)(?:=(.*))?$/.exec(token);
+    if (!match) {
+      throw new InvalidSelectionError(`Unable to read "${token}" in proj definition "${definition}".`);
+    }
+    parameters.set(match[1], match[2] ?? "");
+  }
+  return parameters;
+}
+
+function ellipsoidOf(parameters: Map<string, string>): Ellipsoid {
+  const datum = parameters.has("datum") ? DATUMS[parameters.get("datum")!] : undefined;
+  if (parameters.has("datum") && !datum) {
+    throw new InvalidSelectionError(`Unsupported datum "${parameters.get("datum")}".`);
+  }
+  const name = parameters.get("ellps") ?? datum?.ellps ?? "WGS84";
+  const known = ELLIPSOIDS[name];
+  if (!known && !parameters.has("a")) {
+    throw new InvalidSelectionError(`Unsupported ellipsoid "${name}".`);
+  }
+
+  const a = parameters.has("a") ? Number(parameters.get("a")) : known.a;
+  let f: number;
+  if (parameters.has("rf")) f = 1 / Number(parameters.get("rf"));
+  else if (parameters.has("b")) f = 1 - Number(parameters.get("b")) / a;
+  else if (parameters.has("a")) f = 0;
+  else f = known.rf ? 1 / known.rf : 1 - known.b! / known.a;
+  return { a, e: Math.sqrt(f * (2 - f)) };
+}
+
+function helmertOf(parameters: Map<string, string>): Helmert | undefined {
+  const datum = parameters.has("datum") ? DATUMS[parameters.get("datum")!] : undefined;
+  const towgs84 = parameters.get("towgs84") ?? datum?.towgs84;
+  if (!towgs84) return undefined;
+
+  const values = towgs84.split(",").map(Number);
+  if ((values.length !== 3 && values.length !== 7) || values.some(Number.isNaN)) {
+    throw new InvalidSelectionError(`towgs84 needs 3 or 7 numbers, got "${towgs84}".`);
+  }
+  if (values.every((value) => value === 0)) return undefined;
+  const [dx, dy, dz, rx = 0, ry = 0, rz = 0, ppm = 0] = values;
+  return [dx, dy, dz, rx * ARC_SECOND, ry * ARC_SECOND, rz * ARC_SECOND, ppm * 1e-6];
+}
+
+function toGeocentric(lon: number, lat: number, { a, e }: Ellipsoid): [number, number, number] {
+  const sinLat = Math.sin(lat);
+  const N = a / Math.sqrt(1 - e * e * sinLat * sinLat);
+  return [
+    N * Math.cos(lat) * Math.cos(lon),
+    N * Math.cos(lat) * Math.sin(lon),
+    N * (1 - e * e) * sinLat,
+  ];
+}
+
+function fromGeocentric([X, Y, Z]: [number, number, number], { a, e }: Ellipsoid): [number, number] {
+  const p = Math.hypot(X, Y);
+  let lat = Math.atan2(Z, p * (1 - e * e));
+  for (let i = 0; i < 10; i++) {
+    const sinLat = Math.sin(lat);
+    const N = a / Math.sqrt(1 - e * e * sinLat * sinLat);
+    lat = Math.atan2(Z + e * e * N * sinLat, p);
+  }
+  return [Math.atan2(Y, X), lat];
+}
+
+function applyHelmert(
+  [X, Y, Z]: [number, number, number],
+  [dx, dy, dz, rx, ry, rz, s]: Helmert,
+  direction: 1 | -1
+): [number, number, number] {
+  if (direction === 1) {
+    const k = 1 + s;
+    return [
+      dx + k * (X - rz * Y + ry * Z),
+      dy + k * (rz * X + Y - rx * Z),
+      dz + k * (-ry * X + rx * Y + Z),
+    ];
+  }
+  // The rotations are tiny, so transposing undoes them to well below a millimetre.
+  const [x, y, z] = [X - dx, Y - dy, Z - dz];
+  const k = 1 / (1 + s);
+  return [
+    k * (x + rz * y - ry * z),
+    k * (-rz * x + y + rx * z),
+    k * (ry * x - rx * y + z),
+  ];
+}
+
+function wrapLongitude(lon: number): number {
+  return lon >= -180 && lon <= 180 ? lon : ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+/** Isometric-latitude helper shared by Mercator and Lambert: Snyder's t. */
+function tsfn(lat: number, e: number): number {
+  const eSin = e * Math.sin(lat);
+  return Math.tan(Math.PI / 4 - lat / 2) / Math.pow((1 - eSin) / (1 + eSin), e / 2);
+}
+
+function latitudeFromTs(t: number, e: number): number {
+  let lat = Math.PI / 2 - 2 * Math.atan(t);
+  for (let i = 0; i < 15; i++) {
+    const eSin = e * Math.sin(lat);
+    const next = Math.PI / 2 - 2 * Math.atan(t * Math.pow((1 - eSin) / (1 + eSin), e / 2));
+    if (Math.abs(next - lat) < 1e-14) return next;
+    lat = next;
+  }
+  return lat;
+}
+
+/** Planar projection on the source ellipsoid, in radians and metres. */
+interface PlanarProjection {
+  forward(lon: number, lat: number): [number, number];
+  inverse(x: number, y: number): [number, number];
+}
+
+function number(parameters: Map<string, string>, key: string, fallback: number): number {
+  if (!parameters.has(key)) return fallback;
+  const value = Number(parameters.get(key));
+  if (Number.isNaN(value)) {
+    throw new InvalidSelectionError(`Proj parameter +${key} must be a number.`);
+  }
+  return value;
+}
+
+/**
+ * Transverse Mercator by Krüger's series to third order in n, accurate to
+ * about a millimetre within a few thousand kilometres of the central meridian.
+ */
+function transverseMercator(
+  { a, e }: Ellipsoid,
+  lon0: number,
+  lat0: number,
+  k0: number
+): PlanarProjection {
+  const f = 1 - Math.sqrt(1 - e * e);
+  const n = f / (2 - f);
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const A = (a / (1 + n)) * (1 + n2 / 4 + (n2 * n2) / 64);
+  const alpha = [n / 2 - (2 * n2) / 3 + (5 * n3) / 16, (13 * n2) / 48 - (3 * n3) / 5, (61 * n3) / 240];
+  const beta = [n / 2 - (2 * n2) / 3 + (37 * n3) / 96, n2 / 48 + n3 / 15, (17 * n3) / 480];
+  const delta = [2 * n - (2 * n2) / 3 - 2 * n3, (7 * n2) / 3 - (8 * n3) / 5, (56 * n3) / 15];
+
+  const conformal = (lat: number) =>
+    Math.sinh(Math.atanh(Math.sin(lat)) - e * Math.atanh(e * Math.sin(lat)));
+
+  const project = (lon: number, lat: number): [number, number] => {
+    const t = conformal(lat);
+    const dLon = lon - lon0;
+    const xiPrime = Math.atan2(t, Math.cos(dLon));
+    const etaPrime = Math.atanh(Math.sin(dLon) / Math.sqrt(1 + t * t));
+    let xi = xiPrime;
+    let eta = etaPrime;
+    alpha.forEach((coefficient, index) => {
+      const j = 2 * (index + 1);
+      xi += coefficient * Math.sin(j * xiPrime) * Math.cosh(j * etaPrime);
+      eta += coefficient * Math.cos(j * xiPrime) * Math.sinh(j * etaPrime);
+    });
+    return [k0 * A * eta, k0 * A * xi];
+  };
+  const northingAtOrigin = project(lon0, lat0)[1];
+
+  return {
+    forward: (lon, lat) => {
+      const [x, y] = project(lon, lat);
+      return [x, y - northingAtOrigin];
+    },
+    inverse: (x, y) => {
+      const xi = (y + northingAtOrigin) / (k0 * A);
+      const eta = x / (k0 * A);
+      let xiPrime = xi;
+      let etaPrime = eta;
+      beta.forEach((coefficient, index) => {
+        const j = 2 * (index + 1);
+        xiPrime -= coefficient * Math.sin(j * xi) * Math.cosh(j * eta);
+        etaPrime -= coefficient * Math.cos(j * xi) * Math.sinh(j * eta);
+      });
+      const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime));
+      let lat = chi;
+      delta.forEach((coefficient, index) => {
+        lat += coefficient * Math.sin(2 * (index + 1) * chi);
+      });
+      return [lon0 + Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime)), lat];
+    },
+  };
+}
+
+function mercator({ a, e }: Ellipsoid, lon0: number, k0: number): PlanarProjection {
+  return {
+    forward: (lon, lat) => [a * k0 * (lon - lon0), -a * k0 * Math.log(tsfn(lat, e))],
+    inverse: (x, y) => [lon0 + x / (a * k0), latitudeFromTs(Math.exp(-y / (a * k0)), e)],
+  };
+}
+
+/** Lambert Conformal Conic with one or two standard parallels (Snyder, 15). */
+function lambertConformalConic(
+  { a, e }: Ellipsoid,
+  lon0: number,
+  lat0: number,
+  lat1: number,
+  lat2: number,
+  k0: number
+): PlanarProjection {
+  const m = (lat: number) => Math.cos(lat) / Math.sqrt(1 - (e * Math.sin(lat)) ** 2);
+  const n =
+    Math.abs(lat1 - lat2) < 1e-10
+      ? Math.sin(lat1)
+      : (Math.log(m(lat1)) - Math.log(m(lat2))) /
+        (Math.log(tsfn(lat1, e)) - Math.log(tsfn(lat2, e)));
+  const F = m(lat1) / (n * Math.pow(tsfn(lat1, e), n));
+  const rho0 = a * k0 * F * Math.pow(tsfn(lat0, e), n);
+
+  return {
+    forward: (lon, lat) => {
+      const rho = a * k0 * F * Math.pow(tsfn(lat, e), n);
+      const theta = n * (lon - lon0);
+      return [rho * Math.sin(theta), rho0 - rho * Math.cos(theta)];
+    },
+    inverse: (x, y) => {
+      const sign = Math.sign(n);
+      const dy = rho0 - y;
+      const rho = sign * Math.hypot(x, dy);
+      const theta = Math.atan2(sign * x, sign * dy);
+      const t = Math.pow(rho / (a * k0 * F), 1 / n);
+      return [lon0 + theta / n, latitudeFromTs(t, e)];
+    },
+  };
+}
+
+function planarProjectionOf(parameters: Map<string, string>, ellipsoid: Ellipsoid): PlanarProjection | undefined {
+  const name = parameters.get("proj");
+  const lon0 = number(parameters, "lon_0", 0) * DEG;
+  const lat0 = number(parameters, "lat_0", 0) * DEG;
+  const k0 = number(parameters, "k_0", number(parameters, "k", 1));
+
+  switch (name) {
+    case "longlat":
+    case "latlong":
+      return undefined;
+    case "utm": {
+      const zone = number(parameters, "zone", NaN);
+      if (!Number.isInteger(zone) || zone < 1 || zone > 60) {
+        throw new InvalidSelectionError("+proj=utm needs a +zone between 1 and 60.");
+      }
+      return transverseMercator(ellipsoid, (zone * 6 - 183) * DEG, 0, 0.9996);
+    }
+    case "tmerc":
+      return transverseMercator(ellipsoid, lon0, lat0, k0);
+    case "merc": {
+      const latTs = number(parameters, "lat_ts", 0) * DEG;
+      const scale = parameters.has("lat_ts")
+        ? Math.cos(latTs) / Math.sqrt(1 - (ellipsoid.e * Math.sin(latTs)) ** 2)
+        : k0;
+      return mercator(ellipsoid, lon0, scale);
+    }
+    case "lcc": {
+      const lat1 = number(parameters, "lat_1", lat0 / DEG) * DEG;
+      const lat2 = number(parameters, "lat_2", lat1 / DEG) * DEG;
+      return lambertConformalConic(ellipsoid, lon0, lat0, lat1, lat2, k0);
+    }
+    default:
+      throw new InvalidSelectionError(
+        `Unsupported projection "+proj=${name ?? ""}". Supported: longlat, utm, tmerc, merc and lcc.`
+      );
+  }
+}
+
+/**
+ * Builds a projection from a PROJ.4-style definition such as
+ * "+proj=utm +zone=33 +datum=WGS84". Supports the longlat, utm, tmerc, merc
+ * and lcc projections, the WGS84, GRS80, Airy, Bessel, Clarke 1866 and
+ * International ellipsoids, and 3- or 7-parameter `+towgs84` datum shifts.
+ *
+ * @throws InvalidSelectionError for unsupported or malformed definitions
+ */
+export function parseProjDefinition(definition: string): Projection {
+  const parameters = parseParameters(definition);
+  const ellipsoid = ellipsoidOf(parameters);
+  const helmert = helmertOf(parameters);
+  const planar = planarProjectionOf(parameters, ellipsoid);
+  const wgs84 = ellipsoidOf(new Map([["datum", "WGS84"]]));
+
+  const units = parameters.get("units") ?? "m";
+  const toMeter = parameters.has("to_meter") ? number(parameters, "to_meter", 1) : UNITS[units];
+  if (toMeter === undefined) {
+    throw new InvalidSelectionError(`Unsupported units "${units}".`);
+  }
+  const x0 = number(parameters, "x_0", 0);
+  const y0 = number(parameters, "y_0", 0);
+  const south = parameters.has("south") && parameters.get("proj") === "utm";
+  const falseNorthing = south ? 10_000_000 : 0;
+  const falseEasting = parameters.get("proj") === "utm" ? 500_000 : x0;
+  const yOffset = parameters.get("proj") === "utm" ? falseNorthing : y0;
+
+  return {
+    forward: (lon, lat) => {
+      let [lambda, phi] = [lon * DEG, lat * DEG];
+      if (helmert) {
+        [lambda, phi] = fromGeocentric(applyHelmert(toGeocentric(lambda, phi, wgs84), helmert, -1), ellipsoid);
+      }
+      if (!planar) return [lambda / DEG, phi / DEG];
+      const [x, y] = planar.forward(lambda, phi);
+      return [(x + falseEasting) / toMeter, (y + yOffset) / toMeter];
+    },
+    inverse: (x, y) => {
+      let [lambda, phi] = planar
+        ? planar.inverse(x * toMeter - falseEasting, y * toMeter - yOffset)
+        : [x * DEG, y * DEG];
+      if (helmert) {
+        [lambda, phi] = fromGeocentric(applyHelmert(toGeocentric(lambda, phi, ellipsoid), helmert, 1), wgs84);
+      }
+      return [wrapLongitude(lambda / DEG), phi / DEG];
+    },
+  };
+}
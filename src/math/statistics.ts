@@ -0,0 +1,101 @@
+export type ReductionMethod = "mean" | "sum" | "min" | "max" | "std";
+
+/**
+ * Reduces `values` to one number, skipping NaNs. With `weights`, `mean` and
+ * `std` are weighted; `sum`, `min` and `max` ignore weights. Returns NaN when
+ * no value is left.
+ */
+export function reduceValues(
+  values: ArrayLike<number>,
+  method: ReductionMethod,
+  weights?: ArrayLike<number>
+): number {
+  let count = 0;
+  let total = 0;
+  let weightTotal = 0;
+  let weightedSum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    const weight = weights ? weights[i] : 1;
+    if (Number.isNaN(value) || Number.isNaN(weight)) continue;
+    count++;
+    total += value;
+    weightTotal += weight;
+    weightedSum += weight * value;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+
+  if (count === 0) return NaN;
+
+  switch (method) {
+    case "sum":
+      return total;
+    case "min":
+      return min;
+    case "max":
+      return max;
+    case "mean":
+      return weightTotal === 0 ? NaN : weightedSum / weightTotal;
+    case "std": {
+      if (weightTotal === 0) return NaN;
+      const mean = weightedSum / weightTotal;
+      let squares = 0;
+      for (let i = 0; i < values.length; i++) {
+        const value = values[i];
+        const weight = weights ? weights[i] : 1;
+        if (Number.isNaN(value) || Number.isNaN(weight)) continue;
+        squares += weight * (value - mean) ** 2;
+      }
+      return Math.sqrt(squares / weightTotal);
+    }
+  }
+}
+
+/**
+ * Area weight of a grid cell centred at `latitude`: cells shrink with the
+ * cosine of their latitude on a regular lat/lon grid.
+ */
+export function cosLatitudeWeight(latitude: number): number {
+  return Math.max(0, Math.cos((latitude * Math.PI) / 180));
+}
+
+/** The values that aren't NaN, in ascending order. */
+export function sortedValid(values: ArrayLike<number>): number[] {
+  const valid: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    if (!Number.isNaN(values[i])) valid.push(values[i]);
+  }
+  return valid.sort((a, b) => a - b);
+}
+
+/**
+ * Quantile `q` (0–1) of ascending `sorted` values, interpolating linearly
+ * between neighbours as NumPy does by default. NaN for no values.
+ */
+export function quantileOfSorted(sorted: number[], q: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = q * (sorted.length - 1);
+  const below = Math.floor(position);
+  const above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+/**
+ * Percentage (0–100) of ascending `sorted` values at or below `value`. NaN
+ * for no values or a NaN `value`.
+ */
+export function percentileRankOfSorted(sorted: number[], value: number): number {
+  if (sorted.length === 0 || Number.isNaN(value)) return NaN;
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] <= value) low = middle + 1;
+    else high = middle;
+  }
+  return (100 * low) / sorted.length;
+}
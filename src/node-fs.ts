@@ -0,0 +1,17 @@
+// Minimal slice of `node:fs/promises` used by the client. Declared here so the
+// browser build doesn't need Node typings.
+export interface FsPromises {
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+  writeFile(path: string, data: Uint8Array | string, encoding?: "utf8"): Promise<void>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+  rename(from: string, to: string): Promise<void>;
+  rm(path: string, options: { force: true }): Promise<void>;
+}
+
+// Held in a variable so bundlers leave the Node-only import alone.
+const FS_MODULE = "node:fs/promises";
+
+/** Loads `node:fs/promises` (Node only). */
+export function loadFs(): Promise<FsPromises> {
+  return import(/* @vite-ignore */ FS_MODULE) as Promise<FsPromises>;
+}
@@ -0,0 +1,251 @@
+/**
+ * Parametric payouts from an index series and a call or put contract
+ */
+
+import { InvalidContractError, NoDataFoundError } from "./errors.js";
+import { toEpochMs } from "./math/periods.js";
+import { reduceValues } from "./math/statistics.js";
+import type {
+  DatasetMetadata,
+  PayoutAuditSource,
+  PayoutContract,
+  PayoutIndexSeries,
+  PayoutPeriod,
+  PayoutResult,
+} from "./types.js";
+
+interface Strike {
+  type: "call" | "put";
+  trigger: number;
+  exit?: number;
+  tickSize: number;
+  limit: number;
+}
+
+const WEIGHT_TOLERANCE = 1e-9;
+const PHASE_AGGREGATIONS = ["sum", "mean", "min", "max"];
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Checks one set of strike levels and fills in the tick size implied by the
+ * exit. `label` names the contract or phase in errors.
+ */
+function resolveStrike(
+  type: "call" | "put",
+  trigger: number,
+  exit: number | undefined,
+  tickSize: number | undefined,
+  limit: number,
+  label: string
+): Strike {
+  if (!isFiniteNumber(trigger)) {
+    throw new InvalidContractError(`The trigger of ${label} must be a number.`);
+  }
+  if (exit !== undefined) {
+    if (!isFiniteNumber(exit)) {
+      throw new InvalidContractError(`The exit of ${label} must be a number.`);
+    }
+    if (type === "put" ? exit >= trigger : exit <= trigger) {
+      throw new InvalidContractError(
+        `The exit of ${label} must lie ${type === "put" ? "below" : "above"} its trigger for a ${type}.`
+      );
+    }
+  }
+  if (tickSize !== undefined && !(isFiniteNumber(tickSize) && tickSize > 0)) {
+    throw new InvalidContractError(`The tick size of ${label} must be a positive number.`);
+  }
+  if (exit === undefined && tickSize === undefined) {
+    throw new InvalidContractError(`An exit, a tick size or both are required for ${label}.`);
+  }
+  return {
+    type,
+    trigger,
+    exit,
+    tickSize: tickSize ?? limit / Math.abs(trigger - exit!),
+    limit,
+  };
+}
+
+/**
+ * Payout for one index value: nothing up to the trigger, then `tickSize`
+ * per unit beyond it, up to the limit, which is always paid at the exit.
+ */
+function strikePayout(index: number, strike: Strike): number {
+  const { type, trigger, exit, tickSize, limit } = strike;
+  const distance = type === "put" ? trigger - index : index - trigger;
+  if (distance <= 0) return 0;
+  if (exit !== undefined && (type === "put" ? index <= exit : index >= exit)) {
+    return limit;
+  }
+  return Math.min(limit, tickSize * distance);
+}
+
+function auditSource(metadata: DatasetMetadata): PayoutAuditSource {
+  const source: PayoutAuditSource = {
+    dataset: metadata.dataset,
+    organization: metadata.organization,
+    collection: metadata.collection,
+    variant: metadata.variant,
+    cid: metadata.cid,
+    fetchedAt: new Date(metadata.fetchedAt).toISOString(),
+  };
+  if (metadata.concatenatedVariants) {
+    source.concatenatedVariants = [...metadata.concatenatedVariants];
+  }
+  if (metadata.concatenatedCids) {
+    source.concatenatedCids = [...metadata.concatenatedCids];
+  }
+  if (metadata.catalogRootCid) {
+    source.catalogRootCid = metadata.catalogRootCid;
+  }
+  return source;
+}
+
+/**
+ * Computes the payouts of a parametric (index) contract.
+ *
+ * Without phases every index value is a period, paying up to the limit on
+ * its own; this suits a series of seasonal totals, one per year. With
+ * phases the index values inside each phase are aggregated, and each phase
+ * pays up to `weight × limit`, e.g. a rainfall deficit cover split into
+ * establishment, flowering and grain filling.
+ *
+ * A put pays when the index is below the trigger, a call when it's above.
+ * Beyond the trigger the payout grows by `tickSize` per unit of index and is
+ * capped at the (phase) limit, which is always paid once the index reaches
+ * the exit. Without a tick size, the payout grows linearly from the trigger
+ * to the exit.
+ *
+ * @param series - Index values with their times and source dataset metadata
+ * @param contract - Contract terms
+ * @returns Payouts per period, their total and an audit trail of the
+ *   contract and the dataset CIDs used
+ * @throws InvalidContractError if the contract terms are inconsistent
+ * @throws NoDataFoundError if an index value is missing or a phase has none
+ *
+ * @example
+ * ```typescript
+ * const rainfall = await dataset.point(-1.29, 36.82);
+ * const seasonal = await rainfall.resample({ frequency: "1Y", method: "sum" });
+ * const result = await seasonal.payouts({
+ *   type: "put",
+ *   trigger: 300,
+ *   exit: 150,
+ *   limit: 10_000,
+ * });
+ * ```
+ */
+export function calculatePayouts(
+  series: PayoutIndexSeries,
+  contract: PayoutContract
+): PayoutResult {
+  const { type, limit, phases } = contract;
+  if (type !== "call" && type !== "put") {
+    throw new InvalidContractError(`Unsupported contract type "${type}". Use "call" or "put".`);
+  }
+  if (!(isFiniteNumber(limit) && limit > 0)) {
+    throw new InvalidContractError("The contract limit must be a positive number.");
+  }
+  if (series.time.length !== series.values.length || series.values.length === 0) {
+    throw new NoDataFoundError("The index series needs one value per time step.");
+  }
+
+  const times = series.time.map(toEpochMs);
+  if (times.some((time) => Number.isNaN(time))) {
+    throw new NoDataFoundError("Unable to read the index series times.");
+  }
+  const iso = (time: number) => new Date(time).toISOString();
+  const requireValue = (value: number, period: string) => {
+    if (!isFiniteNumber(value)) {
+      throw new NoDataFoundError(`The index has no value for ${period}.`);
+    }
+    return value;
+  };
+
+  let periods: PayoutPeriod[];
+  if (!phases || phases.length === 0) {
+    const strike = resolveStrike(
+      type,
+      contract.trigger,
+      contract.exit,
+      contract.tickSize,
+      limit,
+      "the contract"
+    );
+    periods = times.map((time, position) => {
+      const period = iso(time);
+      const index = requireValue(series.values[position], period);
+      return {
+        period,
+        start: period,
+        end: period,
+        index,
+        weight: 1,
+        payout: strikePayout(index, strike),
+      };
+    });
+  } else {
+    const totalWeight = phases.reduce((sum, phase) => sum + phase.weight, 0);
+    if (totalWeight > 1 + WEIGHT_TOLERANCE) {
+      throw new InvalidContractError(`Phase weights add up to ${totalWeight}, more than 1.`);
+    }
+
+    periods = phases.map((phase, position) => {
+      const name = phase.name ?? `phase ${position + 1}`;
+      if (!(isFiniteNumber(phase.weight) && phase.weight > 0)) {
+        throw new InvalidContractError(`The weight of ${name} must be a positive number.`);
+      }
+      const start = toEpochMs(phase.start);
+      const end = toEpochMs(phase.end);
+      if (Number.isNaN(start) || Number.isNaN(end) || start > end) {
+        throw new InvalidContractError(`The start of ${name} must be a valid time before its end.`);
+      }
+      const aggregation = phase.aggregation ?? "sum";
+      if (!PHASE_AGGREGATIONS.includes(aggregation)) {
+        throw new InvalidContractError(
+          `Unsupported aggregation "${aggregation}" for ${name}. Use "sum", "mean", "min" or "max".`
+        );
+      }
+      const strike = resolveStrike(
+        type,
+        phase.trigger ?? contract.trigger,
+        phase.exit ?? contract.exit,
+        phase.tickSize ?? contract.tickSize,
+        phase.weight * limit,
+        name
+      );
+
+      const values = times
+        .map((time, index) => ({ time, index }))
+        .filter(({ time }) => time >= start && time <= end)
+        .map(({ time, index }) => requireValue(series.values[index], iso(time)));
+      if (values.length === 0) {
+        throw new NoDataFoundError(`The index has no values within ${name}.`);
+      }
+      const index = reduceValues(values, aggregation);
+
+      return {
+        period: name,
+        start: iso(start),
+        end: iso(end),
+        index,
+        weight: phase.weight,
+        payout: strikePayout(index, strike),
+      };
+    });
+  }
+
+  return {
+    periods,
+    total: periods.reduce((sum, period) => sum + period.payout, 0),
+    audit: {
+      contract: structuredClone(contract),
+      variable: series.variable,
+      sources: (series.sources ?? []).map(auditSource),
+      calculatedAt: new Date().toISOString(),
+    },
+  };
+}
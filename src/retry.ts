@@ -0,0 +1,94 @@
+import { abortError, throwIfAborted } from "./abort.js";
+import { DClimateClientError, OperationAbortedError } from "./errors.js";
+import { classifyRetrievalError, recordAttempt } from "./instrumentation.js";
+import type { OperationPhase, RetryPolicy } from "./types.js";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_INITIAL_DELAY_MS = 200;
+const DEFAULT_BACKOFF_FACTOR = 2;
+const DEFAULT_MAX_DELAY_MS = 5000;
+const DEFAULT_JITTER = 0.5;
+
+export interface RetryOptions {
+  /** Name of the operation, recorded on every attempt event. */
+  operation: string;
+  /** Stops retrying, and cuts a pending delay short, once aborted. */
+  signal?: AbortSignal;
+  phase?: OperationPhase;
+}
+
+/**
+ * Default `retryOn`: errors that say they are retriable, and anything
+ * {@link classifyRetrievalError} sees as a connection failure. Cancellations
+ * are never retried.
+ */
+export function isRetriableError(error: unknown): boolean {
+  if (error instanceof OperationAbortedError) return false;
+  if (error instanceof DClimateClientError) return error.retriable;
+  return classifyRetrievalError(error) === "connection_error";
+}
+
+/**
+ * Delay before retry number `retry` (1 for the first retry), jitter included.
+ */
+export function retryDelayMs(policy: RetryPolicy, retry: number): number {
+  const initial = policy.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+  const factor = policy.backoffFactor ?? DEFAULT_BACKOFF_FACTOR;
+  const max = policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const jitter = Math.min(1, Math.max(0, policy.jitter ?? DEFAULT_JITTER));
+  const delay = Math.min(max, initial * factor ** (retry - 1));
+  return delay * (1 - jitter * Math.random());
+}
+
+function sleep(ms: number, signal?: AbortSignal, phase?: OperationPhase): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!, phase));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `task` until it succeeds, `policy` gives up, or `signal` aborts. Every
+ * attempt is recorded as an event on the active span. Without a policy the
+ * task runs once.
+ */
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  policy: RetryPolicy | undefined,
+  options: RetryOptions
+): Promise<T> {
+  const maxAttempts = policy
+    ? Math.max(1, Math.floor(policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS))
+    : 1;
+  const retryOn = policy?.retryOn ?? isRetriableError;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(options.signal, options.phase);
+    try {
+      const result = await task(attempt);
+      recordAttempt({ operation: options.operation, attempt, status: "ok" });
+      return result;
+    } catch (error) {
+      const retry =
+        attempt < maxAttempts &&
+        !options.signal?.aborted &&
+        retryOn(error, attempt);
+      const delayMs = retry ? retryDelayMs(policy!, attempt) : undefined;
+      recordAttempt({
+        operation: options.operation,
+        attempt,
+        status: classifyRetrievalError(error),
+        delayMs,
+      });
+      if (delayMs === undefined) throw error;
+      await sleep(delayMs, options.signal, options.phase);
+    }
+  }
+}
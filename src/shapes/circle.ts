@@ -1,10 +1,15 @@
 import { Dataset, DataArray } from "@dclimate/jaxray";
 import { haversine } from "../math/haversine.js";
 import { InvalidSelectionError } from "../errors.js";
+import { stitchLongitudeIndices } from "../math/longitudes.js";
 
 /**
  * Selects data points within a circular region defined by center coordinates and radius
  *
+ * Distances are measured on the sphere, so either longitude convention works
+ * and circles may cross the antimeridian; the selected columns are then
+ * stitched together west to east.
+ *
  * @param dataset - The jaxray Dataset to filter
  * @param centerLat - Latitude of circle center in decimal degrees
  * @param centerLon - Longitude of circle center in decimal degrees
@@ -172,6 +177,8 @@ export async function circle(
     return new Dataset({});
   }
 
+  validLonIndices = stitchLongitudeIndices(validLonIndices, lonArray);
+
   // Use isel to select only the valid indices
   let filtered = await masked.isel({
     [latitudeKey]: validLatIndices,
@@ -1,3 +1,4 @@
 export { points } from "./points.js";
 export { circle } from "./circle.js";
 export { rectangle } from "./rectangle.js";
+export { polygon } from "./polygon.js";
@@ -1,19 +1,25 @@
 import { Dataset, DataArray, type Selection } from "@dclimate/jaxray";
+import { inverseProjection } from "../crs.js";
 import { InvalidSelectionError, NoDataFoundError } from "../errors.js";
+import { matchLongitudeConvention } from "../math/longitudes.js";
 
 /**
  * Selects data at specific point coordinates with optional CRS transformation
  *
  * @param dataset - The jaxray Dataset to filter
- * @param pointLats - Array of latitude coordinates (in the dataset's CRS or specified EPSG)
- * @param pointLons - Array of longitude coordinates (in the dataset's CRS or specified EPSG)
+ * @param pointLats - Array of latitudes, or northings (y) when `epsgCrs` is projected
+ * @param pointLons - Array of longitudes in either convention, or eastings (x) when `epsgCrs` is projected
  * @param options - Configuration options
- * @param options.epsgCrs - EPSG code of the input coordinates (default: 4326)
+ * @param options.epsgCrs - EPSG code of the input coordinates, built in or added with `registerProjection` (default: 4326)
  * @param options.snapToGrid - Whether to snap to nearest grid points (default: true)
  * @param options.tolerance - Maximum distance for snapping when snapToGrid is true (default: 10e-5)
  * @param options.latitudeKey - Name of latitude coordinate (default: "latitude")
  * @param options.longitudeKey - Name of longitude coordinate (default: "longitude")
- * @returns A new Dataset with data at the specified points
+ * @returns A new Dataset with data at the specified points. The
+ *   `requested_latitude` and `requested_longitude` coordinates along `point`
+ *   (and the `requested_epsg` attribute for projected input) hold the
+ *   coordinates as requested
+ * @throws InvalidSelectionError if the EPSG code is unknown
  * @throws NoDataFoundError if no data is found and snapToGrid is false
  *
  * @example
@@ -22,6 +28,9 @@ import { InvalidSelectionError, NoDataFoundError } from "../errors.js";
  * const pointLats = [45.5, 46.0];
  * const pointLons = [-73.5, -74.0];
  * const result = await points(data, pointLats, pointLons);
+ *
+ * // UTM zone 18N northings and eastings
+ * const field = await points(data, [4511322], [585628], { epsgCrs: 32618 });
  * ```
  */
 export async function points(
@@ -59,17 +68,23 @@ export async function points(
     throw new InvalidSelectionError("At least one point coordinate is required");
   }
 
-  // TODO: Add CRS transformation if epsgCrs !== 4326
-  // For now, assuming input is already in EPSG:4326 (WGS84)
+  // Reproject to EPSG:4326 (WGS84), which dataset grids use
+  let latitudes = pointLats;
+  let longitudes = pointLons;
   if (epsgCrs !== 4326) {
-    throw new InvalidSelectionError(
-      "CRS transformation not yet implemented. Please provide coordinates in EPSG:4326"
-    );
+    const inverse = inverseProjection(epsgCrs);
+    const projected = pointLats.map((y, i) => inverse(pointLons[i], y));
+    longitudes = projected.map(([lon]) => lon);
+    latitudes = projected.map(([, lat]) => lat);
   }
 
+  // Match the dataset's longitude convention (0–360 or -180–180)
+  const datasetLons = dataset.coords[longitudeKey];
+  longitudes = longitudes.map((lon) => matchLongitudeConvention(lon, datasetLons));
+
   // Create DataArrays for the point coordinates
-  const lats = new DataArray(pointLats, { dims: ["point"] });
-  const lons = new DataArray(pointLons, { dims: ["point"] });
+  const lats = new DataArray(latitudes, { dims: ["point"] });
+  const lons = new DataArray(longitudes, { dims: ["point"] });
 
   // Perform the selection
   let selectedData: Dataset;
@@ -106,5 +121,30 @@ export async function points(
   // Force computation to speed up aggregations
   const computed = await selectedData.compute();
 
-  return computed;
+  // Keep the requested coordinates next to the snapped grid coordinates
+  const requested = {
+    requested_latitude: [...pointLats],
+    requested_longitude: [...pointLons],
+  };
+  const attrs =
+    epsgCrs === 4326 ? computed.attrs : { ...computed.attrs, requested_epsg: epsgCrs };
+  return new Dataset(
+    Object.fromEntries(
+      computed.dataVars.map((name: string) => {
+        const variable = computed.getVariable(name);
+        const dims: string[] = [...variable.dims];
+        return [
+          name,
+          new DataArray(variable.data, {
+            dims,
+            coords: dims.includes("point")
+              ? { ...variable.coords, ...requested }
+              : variable.coords,
+            attrs: variable.attrs,
+          }),
+        ];
+      })
+    ),
+    { attrs }
+  );
 }
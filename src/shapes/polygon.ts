@@ -0,0 +1,105 @@
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "../errors.js";
+import { polygonCells, polygonsOf } from "../math/geometry.js";
+import type { PolygonGeometry, PolygonSelectionOptions } from "../types.js";
+
+/**
+ * Reads a coordinate as numbers, as the other shapes do.
+ */
+function numericCoordinate(values: unknown[], label: string): number[] {
+  return values.map((v) => {
+    const num = typeof v === "number" ? v : Number(v);
+    if (isNaN(num)) {
+      throw new InvalidSelectionError(`Invalid ${label} coordinate: ${v}`);
+    }
+    return num;
+  });
+}
+
+/**
+ * Selects data within a GeoJSON Polygon or MultiPolygon, holes excluded
+ *
+ * @param dataset - The jaxray Dataset to filter
+ * @param geometry - GeoJSON Polygon or MultiPolygon in [longitude, latitude] order, in either longitude convention
+ * @param options - Configuration options
+ * @param options.inclusion - "centre" keeps cells whose centre is inside, "overlap" every cell the polygon touches (default: "centre")
+ * @param options.latitudeKey - Name of latitude coordinate (default: "latitude")
+ * @param options.longitudeKey - Name of longitude coordinate (default: "longitude")
+ * @returns A new Dataset cropped to the polygon, with cells outside it set to NaN
+ * @throws InvalidSelectionError if the geometry is invalid or coordinates not found
+ *
+ * @example
+ * ```typescript
+ * const data = await Dataset.open_zarr(store);
+ * const farm = {
+ *   type: "Polygon",
+ *   coordinates: [[[-74, 40], [-73, 40], [-73, 41], [-74, 41], [-74, 40]]],
+ * };
+ * const result = await polygon(data, farm, { inclusion: "overlap" });
+ * ```
+ */
+export async function polygon(
+  dataset: Dataset,
+  geometry: PolygonGeometry,
+  options: PolygonSelectionOptions = {}
+): Promise<Dataset> {
+  const {
+    inclusion = "centre",
+    latitudeKey = "latitude",
+    longitudeKey = "longitude",
+  } = options;
+
+  const polygons = polygonsOf(geometry);
+
+  // Get the latitude and longitude coordinates
+  const coords = dataset.coords;
+  const latCoords = coords[latitudeKey];
+  const lonCoords = coords[longitudeKey];
+
+  if (!latCoords || !lonCoords) {
+    throw new InvalidSelectionError(
+      `Latitude (${latitudeKey}) and/or longitude (${longitudeKey}) coordinates not found in dataset`
+    );
+  }
+
+  if (
+    !Array.isArray(latCoords) ||
+    !Array.isArray(lonCoords) ||
+    latCoords.length === 0 ||
+    lonCoords.length === 0
+  ) {
+    throw new InvalidSelectionError(
+      "Latitude and longitude coordinates must be non-empty arrays"
+    );
+  }
+
+  const latArray = numericCoordinate(latCoords, "latitude");
+  const lonArray = numericCoordinate(lonCoords, "longitude");
+
+  const { latIndices, lonIndices, mask } = polygonCells(
+    polygons,
+    latArray,
+    lonArray,
+    inclusion
+  );
+
+  // If no cells belong to the polygon, return empty dataset immediately
+  if (latIndices.length === 0) {
+    return new Dataset({});
+  }
+
+  // Crop to the polygon's extent before masking
+  let cropped = await dataset.isel({ [latitudeKey]: latIndices });
+  cropped = await cropped.isel({ [longitudeKey]: lonIndices });
+
+  const maskArray = new DataArray(mask, {
+    dims: [latitudeKey, longitudeKey],
+    coords: {
+      [latitudeKey]: latIndices.map((i) => latArray[i]),
+      [longitudeKey]: lonIndices.map((i) => lonArray[i]),
+    },
+  });
+
+  // Use where to mask the dataset (values outside the polygon become NaN)
+  return cropped.where(maskArray);
+}
@@ -1,9 +1,15 @@
 import { Dataset } from "@dclimate/jaxray";
 import { InvalidSelectionError } from "../errors.js";
+import { longitudeConvention, longitudeRanges } from "../math/longitudes.js";
 
 /**
  * Selects data points within a rectangular bounding box region
  *
+ * Query longitudes may use either the -180–180 or the 0–360 convention and
+ * are matched to the dataset's. A box with `minLon` greater than `maxLon`
+ * crosses the antimeridian: it is selected in two parts, stitched together
+ * west to east.
+ *
  * @param dataset - The jaxray Dataset to filter
  * @param minLat - Southern latitude boundary in decimal degrees
  * @param minLon - Western longitude boundary in decimal degrees
@@ -20,6 +26,8 @@ import { InvalidSelectionError } from "../errors.js";
  * const data = await Dataset.open_zarr(store);
  * // Get all data within a rectangle
  * const result = await rectangle(data, 40.0, -75.0, 41.0, -74.0);
+ * // Fiji, across the antimeridian
+ * const fiji = await rectangle(data, -21.0, 176.0, -12.0, -178.0);
  * ```
  */
 export async function rectangle(
@@ -42,9 +50,9 @@ export async function rectangle(
     );
   }
 
-  if (minLon >= maxLon) {
+  if (minLon === maxLon) {
     throw new InvalidSelectionError(
-      `minLon (${minLon}) must be less than maxLon (${maxLon})`
+      `minLon (${minLon}) must differ from maxLon (${maxLon})`
     );
   }
 
@@ -84,33 +92,26 @@ export async function rectangle(
   // Convert and validate longitude coordinates
   const lonArray = lonCoords.map((v) => {
     const num = typeof v === "number" ? v : Number(v);
-    if (isNaN(num) || num < -180 || num > 180) {
+    if (isNaN(num) || num < -180 || num > 360) {
       throw new InvalidSelectionError(
-        `Invalid longitude coordinate: ${v}. Must be between -180 and 180.`
+        `Invalid longitude coordinate: ${v}. Must be between -180 and 360.`
       );
     }
     return num;
   });
 
-  // Find coordinates within the rectangle bounds
-  const selectedLats: number[] = [];
-  const selectedLons: number[] = [];
-
-  for (let i = 0; i < latArray.length; i++) {
-    const lat = latArray[i];
-    if (lat >= minLat && lat <= maxLat) {
-      for (let j = 0; j < lonArray.length; j++) {
-        const lon = lonArray[j];
-        if (lon >= minLon && lon <= maxLon) {
-          selectedLats.push(lat);
-          selectedLons.push(lon);
-        }
-      }
-    }
-  }
+  // Find coordinates within the rectangle bounds, west to east
+  const selectedLats = latArray.filter((lat) => lat >= minLat && lat <= maxLat);
+  const selectedLons = longitudeRanges(
+    minLon,
+    maxLon,
+    longitudeConvention(lonArray)
+  ).flatMap(([west, east]) =>
+    lonArray.filter((lon) => lon >= west && lon <= east)
+  );
 
   // If no points in rectangle, return empty dataset
-  if (selectedLats.length === 0) {
+  if (selectedLats.length === 0 || selectedLons.length === 0) {
     return new Dataset({});
   }
 
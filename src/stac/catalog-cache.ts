@@ -0,0 +1,154 @@
+/**
+ * Persistent storage for loaded STAC catalogs.
+ *
+ * The in-memory cache in `stac-catalog.ts` is lost on every process start or
+ * page reload. A {@link CatalogCacheStore} keeps walked catalogs across runs so
+ * a cold start can serve the last known catalog immediately while a fresh one
+ * is fetched in the background.
+ */
+
+import type { StacCatalog } from "./stac-catalog.js";
+import { DClimateClientError } from "../errors.js";
+import { loadFs } from "../node-fs.js";
+
+export interface CatalogCacheEntry {
+  catalog: StacCatalog;
+  timestamp: number; // When the catalog was walked (ms since epoch)
+  rootCid: string;
+}
+
+/**
+ * Key/value storage for catalog cache entries. Implementations only need to
+ * round-trip JSON-serializable entries; keys are short ASCII strings.
+ */
+export interface CatalogCacheStore {
+  get(key: string): Promise<CatalogCacheEntry | undefined>;
+  set(key: string, entry: CatalogCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Stores each cache entry as a JSON file in `directory` (Node only).
+ *
+ * @example
+ * ```typescript
+ * const client = new DClimateClient({
+ *   catalogCacheStore: new FileSystemCatalogCacheStore(".cache/dclimate"),
+ * });
+ * ```
+ */
+export class FileSystemCatalogCacheStore implements CatalogCacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CatalogCacheEntry | undefined> {
+    const fs = await loadFs();
+    try {
+      const contents = await fs.readFile(this.pathFor(key), "utf8");
+      return JSON.parse(contents) as CatalogCacheEntry;
+    } catch {
+      // Missing or unreadable entries are treated as cache misses.
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CatalogCacheEntry): Promise<void> {
+    const fs = await loadFs();
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so a concurrent reader never sees a partial file. The
+    // random suffix keeps writes to the same key in one millisecond apart.
+    const path = this.pathFor(key);
+    const tempPath = `${path}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry), "utf8");
+    await fs.rename(tempPath, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await loadFs();
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    const directory = this.directory.replace(/[\\/]+$/, "");
+    return `${directory}/${encodeURIComponent(key)}.json`;
+  }
+}
+
+/**
+ * Stores cache entries in an IndexedDB object store (browser only).
+ */
+export class IndexedDbCatalogCacheStore implements CatalogCacheStore {
+  private db?: Promise<IDBDatabase>;
+
+  constructor(
+    private readonly databaseName = "dclimate-client",
+    private readonly storeName = "stac-catalogs"
+  ) {}
+
+  async get(key: string): Promise<CatalogCacheEntry | undefined> {
+    const result = await this.request("readonly", (store) => store.get(key));
+    return (result as CatalogCacheEntry | undefined) ?? undefined;
+  }
+
+  async set(key: string, entry: CatalogCacheEntry): Promise<void> {
+    await this.request("readwrite", (store) => store.put(entry, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request("readwrite", (store) => store.delete(key));
+  }
+
+  private async request(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<unknown> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      // Settle with the transaction, so a write has been committed
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(request.error ?? transaction.error);
+      transaction.onabort = () => reject(request.error ?? transaction.error);
+    });
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    this.db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(
+          new DClimateClientError("IndexedDB is not available in this environment", {
+            code: "UNSUPPORTED_ENVIRONMENT",
+          })
+        );
+        return;
+      }
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      // Another tab holds an older version open. Give up rather than wait for
+      // it, and close the connection if the upgrade later goes through.
+      let blocked = false;
+      request.onblocked = () => {
+        blocked = true;
+        reject(
+          new DClimateClientError("IndexedDB upgrade is blocked by another open connection", {
+            retriable: true,
+          })
+        );
+      };
+      request.onsuccess = () => {
+        if (blocked) request.result.close();
+        else resolve(request.result);
+      };
+      request.onerror = () => reject(request.error);
+    }).catch((error: unknown) => {
+      // Forget the failed open so the next call tries again.
+      this.db = undefined;
+      throw error;
+    });
+    return this.db;
+  }
+}
@@ -0,0 +1,319 @@
+/**
+ * Search over a {@link DatasetCatalog} by area, time window and keyword.
+ *
+ * Works on the catalog shape shared by the STAC server and the IPFS walker, so
+ * results are the same whichever path produced the catalog. Matching happens
+ * per variant, since that is where spatial and temporal extents live.
+ */
+
+import type { TimeRange } from "../types.js";
+import type {
+  DatasetCatalog,
+  SpatialExtent,
+  TemporalExtent,
+} from "./stac-catalog.js";
+
+export interface DatasetSearchQuery {
+  /** Area of interest as `[west, south, east, north]`; variants must overlap it. */
+  bbox?: readonly [west: number, south: number, east: number, north: number];
+  /** Location that variants must cover. */
+  point?: { latitude: number; longitude: number };
+  /** Time window that variants must overlap. */
+  timeRange?: TimeRange;
+  /** Keywords matched against dataset, variant, collection and title. All must match. */
+  text?: string;
+  organization?: string;
+  category?: string;
+}
+
+export type DatasetSearchCriterion =
+  | "bbox"
+  | "point"
+  | "timeRange"
+  | "text"
+  | "organization"
+  | "category";
+
+export interface DatasetSearchReason {
+  criterion: DatasetSearchCriterion;
+  /** How well this criterion matched, from 0 (barely) to 1 (fully). */
+  score: number;
+  message: string;
+}
+
+export interface DatasetSearchMatch {
+  collection: string;
+  dataset: string;
+  variant: string;
+  organization?: string;
+  title?: string;
+  category?: string;
+  cid?: string;
+  spatialExtent?: SpatialExtent;
+  temporalExtent?: TemporalExtent;
+  /** Mean of the reason scores; results are sorted by it, best first. */
+  score: number;
+  reasons: DatasetSearchReason[];
+}
+
+type LonInterval = [number, number];
+
+function normalizeLongitude(lon: number): number {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Splits a west/east longitude pair into intervals on [-180, 180], so bboxes
+ * that cross the antimeridian (west > east) or use 0–360 longitudes compare
+ * correctly.
+ */
+function longitudeIntervals(west: number, east: number): LonInterval[] {
+  if (east - west >= 360) return [[-180, 180]];
+  const w = normalizeLongitude(west);
+  const e = normalizeLongitude(east);
+  if (w <= e && !(east > west && w === e)) return [[w, e]];
+  return [
+    [w, 180],
+    [-180, e],
+  ];
+}
+
+function intervalsLength(intervals: LonInterval[]): number {
+  return intervals.reduce((sum, [start, end]) => sum + Math.max(0, end - start), 0);
+}
+
+function intervalsOverlap(a: LonInterval[], b: LonInterval[]): number {
+  let overlap = 0;
+  for (const [aStart, aEnd] of a) {
+    for (const [bStart, bEnd] of b) {
+      overlap += Math.max(0, Math.min(aEnd, bEnd) - Math.max(aStart, bStart));
+    }
+  }
+  return overlap;
+}
+
+function intervalsIntersect(a: LonInterval[], b: LonInterval[]): boolean {
+  return a.some(([aStart, aEnd]) =>
+    b.some(([bStart, bEnd]) => aStart <= bEnd && bStart <= aEnd)
+  );
+}
+
+function intervalsContain(intervals: LonInterval[], lon: number): boolean {
+  const normalized = normalizeLongitude(lon);
+  return intervals.some(([start, end]) => normalized >= start && normalized <= end);
+}
+
+function matchBbox(
+  query: NonNullable<DatasetSearchQuery["bbox"]>,
+  extent: SpatialExtent | undefined
+): DatasetSearchReason | null {
+  if (!extent) return null;
+  const [west, south, east, north] = query;
+  const [minLon, minLat, maxLon, maxLat] = extent.bbox;
+
+  const queryLons = longitudeIntervals(west, east);
+  const extentLons = longitudeIntervals(minLon, maxLon);
+  if (south > maxLat || north < minLat) return null;
+  if (!intervalsIntersect(queryLons, extentLons)) return null;
+
+  const latOverlap = Math.min(north, maxLat) - Math.max(south, minLat);
+  const queryArea = intervalsLength(queryLons) * (north - south);
+  // A degenerate query box (a line or a point) that touches the extent is
+  // fully covered.
+  const coverage =
+    queryArea > 0
+      ? Math.min(1, (intervalsOverlap(queryLons, extentLons) * latOverlap) / queryArea)
+      : 1;
+  if (queryArea > 0 && coverage <= 0) return null;
+
+  return {
+    criterion: "bbox",
+    score: coverage,
+    message: `Covers ${Math.round(coverage * 100)}% of the requested area`,
+  };
+}
+
+function matchPoint(
+  query: NonNullable<DatasetSearchQuery["point"]>,
+  extent: SpatialExtent | undefined
+): DatasetSearchReason | null {
+  if (!extent) return null;
+  const [minLon, minLat, maxLon, maxLat] = extent.bbox;
+  const { latitude, longitude } = query;
+  if (latitude < minLat || latitude > maxLat) return null;
+  if (!intervalsContain(longitudeIntervals(minLon, maxLon), longitude)) return null;
+  return {
+    criterion: "point",
+    score: 1,
+    message: `Covers (${latitude}, ${longitude})`,
+  };
+}
+
+function toTime(value: Date | string | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const time = value instanceof Date ? value.getTime() : new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+function matchTimeRange(
+  query: TimeRange,
+  extent: TemporalExtent | undefined
+): DatasetSearchReason | null {
+  if (!extent) return null;
+  let start = toTime(query.start);
+  let end = toTime(query.end);
+  if (start === null || end === null) return null;
+  if (start > end) [start, end] = [end, start];
+
+  // Null extent bounds are open-ended.
+  const extentStart = toTime(extent.start) ?? -Infinity;
+  const extentEnd = toTime(extent.end) ?? Infinity;
+  const overlapStart = Math.max(start, extentStart);
+  const overlapEnd = Math.min(end, extentEnd);
+  if (overlapStart > overlapEnd) return null;
+
+  const coverage = end > start ? (overlapEnd - overlapStart) / (end - start) : 1;
+  return {
+    criterion: "timeRange",
+    score: coverage,
+    message: `Covers ${Math.round(coverage * 100)}% of the requested time window`,
+  };
+}
+
+function tokenize(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Where a keyword matched, best first, with the score it contributes.
+const TEXT_FIELDS = [
+  { field: "dataset", score: 1 },
+  { field: "variant", score: 0.8 },
+  { field: "title", score: 0.7 },
+  { field: "collection", score: 0.6 },
+  { field: "organization", score: 0.5 },
+] as const;
+
+function matchText(
+  query: string,
+  fields: Record<(typeof TEXT_FIELDS)[number]["field"], string | undefined>
+): DatasetSearchReason | null {
+  const keywords = tokenize(query);
+  if (keywords.length === 0) return null;
+
+  const fieldTokens = TEXT_FIELDS.map(({ field, score }) => ({
+    field,
+    score,
+    tokens: tokenize(fields[field] ?? ""),
+  }));
+
+  let total = 0;
+  const matchedIn: string[] = [];
+  for (const keyword of keywords) {
+    const exact = fieldTokens.find(({ tokens }) => tokens.includes(keyword));
+    const partial =
+      exact ?? fieldTokens.find(({ tokens }) => tokens.some((t) => t.startsWith(keyword)));
+    if (!partial) return null;
+    // Prefix matches ("temp" → "temperature") count for a little less.
+    total += exact ? partial.score : partial.score * 0.75;
+    matchedIn.push(`"${keyword}" in ${partial.field}`);
+  }
+
+  return {
+    criterion: "text",
+    score: total / keywords.length,
+    message: `Matched ${matchedIn.join(", ")}`,
+  };
+}
+
+function sameName(a: string | undefined, b: string): boolean {
+  return a !== undefined && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Finds the dataset variants in `catalog` that satisfy every criterion of
+ * `query`, ranked by how well they match. Variants without a spatial or
+ * temporal extent never match a `bbox`, `point` or `timeRange` criterion.
+ */
+export function searchDatasetCatalog(
+  catalog: DatasetCatalog,
+  query: DatasetSearchQuery
+): DatasetSearchMatch[] {
+  const matches: DatasetSearchMatch[] = [];
+
+  for (const collection of catalog) {
+    if (query.organization && !sameName(collection.organization, query.organization)) {
+      continue;
+    }
+    if (query.category && !sameName(collection.category, query.category)) {
+      continue;
+    }
+
+    for (const dataset of collection.datasets) {
+      for (const variant of dataset.variants) {
+        const reasons: DatasetSearchReason[] = [];
+
+        if (query.organization) {
+          reasons.push({
+            criterion: "organization",
+            score: 1,
+            message: `Published by ${collection.organization}`,
+          });
+        }
+        if (query.category) {
+          reasons.push({
+            criterion: "category",
+            score: 1,
+            message: `In category ${collection.category}`,
+          });
+        }
+
+        const candidates: Array<DatasetSearchReason | null> = [];
+        if (query.bbox) candidates.push(matchBbox(query.bbox, variant.spatialExtent));
+        if (query.point) candidates.push(matchPoint(query.point, variant.spatialExtent));
+        if (query.timeRange) {
+          candidates.push(matchTimeRange(query.timeRange, variant.temporalExtent));
+        }
+        if (query.text) {
+          candidates.push(
+            matchText(query.text, {
+              dataset: dataset.dataset,
+              variant: variant.variant,
+              title: collection.title,
+              collection: collection.collection,
+              organization: collection.organization,
+            })
+          );
+        }
+
+        if (candidates.some((reason) => reason === null)) continue;
+        reasons.push(...(candidates as DatasetSearchReason[]));
+
+        const score =
+          reasons.length > 0
+            ? reasons.reduce((sum, reason) => sum + reason.score, 0) / reasons.length
+            : 1;
+
+        const match: DatasetSearchMatch = {
+          collection: collection.collection,
+          dataset: dataset.dataset,
+          variant: variant.variant,
+          score,
+          reasons,
+        };
+        if (collection.organization) match.organization = collection.organization;
+        if (collection.title) match.title = collection.title;
+        if (collection.category) match.category = collection.category;
+        if (variant.cid) match.cid = variant.cid;
+        if (variant.spatialExtent) match.spatialExtent = variant.spatialExtent;
+        if (variant.temporalExtent) match.temporalExtent = variant.temporalExtent;
+        matches.push(match);
+      }
+    }
+  }
+
+  // Array.prototype.sort is stable, so ties keep catalog order.
+  return matches.sort((a, b) => b.score - a.score);
+}
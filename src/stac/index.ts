@@ -19,6 +19,21 @@ export {
   type TemporalExtent,
 } from "./stac-catalog.js";
 
+export {
+  FileSystemCatalogCacheStore,
+  IndexedDbCatalogCacheStore,
+  type CatalogCacheEntry,
+  type CatalogCacheStore,
+} from "./catalog-cache.js";
+
+export {
+  searchDatasetCatalog,
+  type DatasetSearchQuery,
+  type DatasetSearchMatch,
+  type DatasetSearchReason,
+  type DatasetSearchCriterion,
+} from "./catalog-search.js";
+
 export {
   StacCatalogError,
   StacLoadError,
@@ -29,7 +44,11 @@ export {
   resolveCidFromStacServer,
   resolveDatasetCidFromStacServer,
   listAvailableDatasetsFromStacServer,
+  searchStacServer,
   DEFAULT_STAC_SERVER_URL,
+  type StacSearchParameters,
+  type StacServerRequestOptions,
+  type StacSearchOptions,
   type StacServerSearchResponse,
   type StacServerItem,
   type ResolvedCidFromServer,
@@ -1,27 +1,22 @@
+import type { CatalogCacheEntry, CatalogCacheStore } from "./catalog-cache.js";
+import { abortError, withPhase } from "../abort.js";
+import {
+  DClimateClientError,
+  OperationAbortedError,
+  StacCatalogError,
+  StacLoadError,
+  StacResolutionError,
+} from "../errors.js";
+import { DEFAULT_STAC_ROOT_URL } from "../constants.js";
+import { withRetry } from "../retry.js";
+import type { FetchLike, RetryPolicy } from "../types.js";
+
 // ============================================================================
 // Error Classes
 // ============================================================================
 
-export class StacCatalogError extends Error {
-  constructor(message: string, public cause?: Error) {
-    super(message);
-    this.name = "StacCatalogError";
-  }
-}
-
-export class StacLoadError extends StacCatalogError {
-  constructor(message: string, cause?: Error) {
-    super(message, cause);
-    this.name = "StacLoadError";
-  }
-}
-
-export class StacResolutionError extends StacCatalogError {
-  constructor(message: string) {
-    super(message);
-    this.name = "StacResolutionError";
-  }
-}
+// Defined with the rest of the hierarchy; re-exported for existing imports.
+export { StacCatalogError, StacLoadError, StacResolutionError };
 
 // ============================================================================
 // STAC Interfaces
@@ -125,12 +120,7 @@ export interface StacCatalog {
   links: StacLink[];
   collections?: StacCollection[]; // Loaded collections
   organizations?: StacOrganization[];
-}
-
-interface CatalogCacheEntry {
-  catalog: StacCatalog;
-  timestamp: number;
-  rootCid: string;
+  rootCid?: string; // CID the catalog was loaded from
 }
 
 export function getStringProperty(
@@ -153,8 +143,17 @@ export interface StacCatalogOptions {
   gatewayUrl?: string;
   cacheTtlMs?: number; // Default: 3600000 (1 hour)
   rootCid?: string; // Optional: use specific catalog version
+  cacheStore?: CatalogCacheStore; // Optional: persist catalogs across runs
+  concurrency?: number; // Max parallel requests during the IPFS walk. Default: 8
+  requestTimeoutMs?: number; // Per-request timeout during the walk and root CID discovery. Default: 30000
+  signal?: AbortSignal; // Cancels the load with an OperationAbortedError
+  timeoutMs?: number; // Time limit for the whole load ("catalog" phase)
+  fetch?: FetchLike; // Used for the walk and root CID discovery. Default: global fetch
+  retry?: RetryPolicy; // Retries each walk request and root CID discovery. Default: no retries
 }
 
+type CatalogLoadOptions = Omit<StacCatalogOptions, "gatewayUrl" | "rootCid">;
+
 export interface ConcatenableStacItem {
   variant: string;
   cid: string;
@@ -181,30 +180,123 @@ export interface ResolvedDatasetFromStac {
 // Cache Implementation
 // ============================================================================
 
+const DEFAULT_CACHE_TTL_MS = 3600000; // 1 hour
+const DEFAULT_WALK_CONCURRENCY = 8;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+// Catalogs are keyed by root CID: a CID is immutable, so the same root always
+// yields the same catalog regardless of which gateway served it. Unpinned loads
+// go through `latestRootCids`, which remembers the most recently discovered
+// root per gateway. Once that entry is older than the TTL it is still served,
+// but the next load kicks off a background refresh (stale-while-revalidate).
 const catalogCache: Map<string, CatalogCacheEntry> = new Map();
+const latestRootCids: Map<string, { rootCid: string; timestamp: number }> = new Map();
+const pendingRefreshes: Map<string, Promise<StacCatalog>> = new Map();
 
-function getCachedCatalog(gatewayUrl: string, ttlMs: number): StacCatalog | null {
-  const key = `stac:${gatewayUrl}`;
-  const entry = catalogCache.get(key);
+function catalogKey(rootCid: string): string {
+  return `stac:${rootCid}`;
+}
 
-  if (!entry) return null;
+function latestCatalogKey(gatewayUrl: string): string {
+  return `stac:latest:${gatewayUrl}`;
+}
 
-  const age = Date.now() - entry.timestamp;
-  if (age > ttlMs) {
-    catalogCache.delete(key);
-    return null;
+async function readStore(
+  store: CatalogCacheStore | undefined,
+  key: string
+): Promise<CatalogCacheEntry | undefined> {
+  if (!store) return undefined;
+  try {
+    return await store.get(key);
+  } catch (error) {
+    console.warn(`Failed to read STAC catalog cache entry ${key}:`, error);
+    return undefined;
   }
+}
 
-  return entry.catalog;
+async function writeStore(
+  store: CatalogCacheStore | undefined,
+  key: string,
+  entry: CatalogCacheEntry
+): Promise<void> {
+  if (!store) return;
+  try {
+    await store.set(key, entry);
+  } catch (error) {
+    console.warn(`Failed to write STAC catalog cache entry ${key}:`, error);
+  }
 }
 
-function setCachedCatalog(gatewayUrl: string, catalog: StacCatalog, rootCid: string): void {
-  const key = `stac:${gatewayUrl}`;
-  catalogCache.set(key, {
-    catalog,
+function setCachedCatalog(entry: CatalogCacheEntry): void {
+  catalogCache.set(catalogKey(entry.rootCid), entry);
+}
+
+/**
+ * Returns the catalog for a pinned root from memory or the persistent store,
+ * walking IPFS only when neither has it.
+ */
+async function loadPinnedCatalog(
+  gatewayUrl: string,
+  rootCid: string,
+  options: CatalogLoadOptions
+): Promise<StacCatalog> {
+  const store = options.cacheStore;
+  const key = catalogKey(rootCid);
+  const cached = catalogCache.get(key) ?? (await readStore(store, key));
+  if (cached) {
+    setCachedCatalog(cached);
+    return cached.catalog;
+  }
+
+  const entry: CatalogCacheEntry = {
+    catalog: await walkStacCatalog(gatewayUrl, rootCid, options),
     timestamp: Date.now(),
     rootCid,
+  };
+  setCachedCatalog(entry);
+  await writeStore(store, key, entry);
+  return entry.catalog;
+}
+
+/**
+ * Discovers the latest root CID and loads its catalog. Concurrent refreshes
+ * for the same gateway share one request.
+ */
+function refreshLatestCatalog(
+  gatewayUrl: string,
+  options: CatalogLoadOptions
+): Promise<StacCatalog> {
+  const pending = pendingRefreshes.get(gatewayUrl);
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    const rootCid = await getRootCatalogCid({
+      fetch: options.fetch,
+      retry: options.retry,
+      timeoutMs: options.requestTimeoutMs,
+    });
+    // The full catalog is persisted under the latest key only, not twice.
+    // The refresh is shared between callers, so no single caller's signal
+    // may cancel it; each caller stops waiting on its own abort instead.
+    const catalog = await loadPinnedCatalog(gatewayUrl, rootCid, {
+      ...options,
+      cacheStore: undefined,
+      signal: undefined,
+    });
+    const timestamp = Date.now();
+    latestRootCids.set(gatewayUrl, { rootCid, timestamp });
+    await writeStore(options.cacheStore, latestCatalogKey(gatewayUrl), {
+      catalog,
+      timestamp,
+      rootCid,
+    });
+    return catalog;
+  })().finally(() => {
+    pendingRefreshes.delete(gatewayUrl);
   });
+
+  pendingRefreshes.set(gatewayUrl, refresh);
+  return refresh;
 }
 
 function extractCollectionsFromOrgLink(link: StacLink): Set<string> {
@@ -243,32 +335,148 @@ function buildCollectionCategoryMap(link: StacLink): Map<string, string> {
   return map;
 }
 
-// ============================================================================
-// Core STAC Functions
-// ============================================================================
+/**
+ * Returns a scheduler that runs at most `concurrency` tasks at a time, in the
+ * order they were submitted. A finished task hands its slot straight to the
+ * next queued one so the limit is never exceeded.
+ */
+function createLimiter(concurrency: number) {
+  const maxActive = Math.max(1, Math.floor(concurrency));
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= maxActive) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+type StacJsonResponse<T> =
+  | { ok: true; body: T }
+  | { ok: false; status: number; statusText: string };
+
+/**
+ * A non-OK response worth retrying (5xx, 429). Thrown so the retry loop sees
+ * it, then unwrapped back into the response once retries run out.
+ */
+class RetriableResponseError extends StacLoadError {
+  constructor(
+    readonly response: Extract<StacJsonResponse<never>, { ok: false }>,
+    url: string
+  ) {
+    super(`Request to ${url} failed with HTTP ${response.status}`, undefined, {
+      context: { url, status: response.status },
+    });
+  }
+}
+
+function isRetriableStatus(status: number): boolean {
+  return status >= 500 || status === 429;
+}
 
 /**
- * Fetches the root catalog CID from the STAC API endpoint
+ * Fetches and parses a catalog document, aborting if the response (including
+ * its body) takes longer than `timeoutMs` or `signal` fires.
  */
-export async function getRootCatalogCid(): Promise<string> {
+async function fetchStacJson<T>(
+  url: string,
+  timeoutMs: number,
+  signal?: AbortSignal,
+  fetchFn: FetchLike = fetch
+): Promise<StacJsonResponse<T>> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
   try {
-    const response = await fetch("https://ipfs-gateway.dclimate.net/stac");
+    const response = await fetchFn(url, { signal: controller.signal });
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      return { ok: false, status: response.status, statusText: response.statusText };
     }
-
-    const data = await response.json();
-    if (!data.cid || typeof data.cid !== "string") {
-      throw new Error("Invalid response: missing or invalid 'cid' field");
+    return { ok: true, body: (await response.json()) as T };
+  } catch (error) {
+    if (signal?.aborted) {
+      throw abortError(signal, "catalog");
     }
+    if (controller.signal.aborted) {
+      throw new DClimateClientError(`Request to ${url} timed out after ${timeoutMs}ms`, {
+        code: "TIMEOUT",
+        retriable: true,
+        cause: error,
+        context: { url },
+      });
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
 
-    return data.cid;
-  } catch (error) {
-    throw new StacLoadError(
-      "Failed to fetch root catalog CID from STAC API",
-      error as Error
-    );
+// ============================================================================
+// Core STAC Functions
+// ============================================================================
+
+/**
+ * Fetches the root catalog CID from the STAC discovery endpoint. Each attempt
+ * is cut off after `timeoutMs` (default 30s), so a hung endpoint cannot stall
+ * the catalog refresh that every caller shares.
+ */
+export async function getRootCatalogCid(
+  options: { url?: string; fetch?: FetchLike; retry?: RetryPolicy; timeoutMs?: number } = {}
+): Promise<string> {
+  const url = options.url ?? DEFAULT_STAC_ROOT_URL;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  const message = "Failed to fetch root catalog CID from STAC API";
+  const data = await withRetry(
+    async () => {
+      let response: StacJsonResponse<{ cid?: unknown }>;
+      try {
+        response = await fetchStacJson<{ cid?: unknown }>(url, timeoutMs, undefined, options.fetch);
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          throw new StacLoadError(message, error, {
+            code: "INVALID_CATALOG_ENTRY",
+            retriable: false,
+            context: { url },
+          });
+        }
+        const code = error instanceof DClimateClientError ? error.code : "NETWORK_ERROR";
+        throw new StacLoadError(message, error, { code, context: { url } });
+      }
+      if (!response.ok) {
+        throw new StacLoadError(message, undefined, {
+          retriable: isRetriableStatus(response.status),
+          context: { url, status: response.status },
+        });
+      }
+      return response.body;
+    },
+    options.retry,
+    { operation: "stac_catalog.root_cid" }
+  );
+
+  if (!data.cid || typeof data.cid !== "string") {
+    throw new StacLoadError(message, undefined, {
+      code: "INVALID_CATALOG_ENTRY",
+      retriable: false,
+      context: { url },
+    });
   }
+  return data.cid;
 }
 
 /**
@@ -283,132 +491,245 @@ export function resolveIpfsUri(uri: string, gatewayUrl: string): string {
 }
 
 /**
- * Loads the STAC catalog from IPFS, with recursive loading of collections and items
+ * Loads the STAC catalog from IPFS, with recursive loading of collections and items.
+ *
+ * When `rootCid` is given the catalog is loaded from that exact version and the
+ * `/stac` discovery endpoint is never contacted, so repeated loads with the
+ * same root always resolve to the same dataset CIDs.
+ *
+ * Without a pinned root, a catalog older than `cacheTtlMs` is still returned
+ * immediately while a fresh one is loaded in the background. Pass a
+ * `cacheStore` to keep catalogs across process starts and page reloads.
+ *
+ * Aborting `signal` or exceeding `timeoutMs` rejects with
+ * `OperationAbortedError`. A refresh shared with other callers keeps running
+ * in the background so its result still lands in the cache.
  */
 export async function loadStacCatalog(
   gatewayUrl: string,
-  rootCid?: string
+  rootCid?: string,
+  options: CatalogLoadOptions = {}
 ): Promise<StacCatalog> {
-  const cacheTtl = 3600000; // 1 hour
+  return withPhase("catalog", options.signal, options.timeoutMs, (signal) =>
+    loadCatalog(gatewayUrl, rootCid, { ...options, signal })
+  );
+}
 
-  // Check cache first
-  const cached = getCachedCatalog(gatewayUrl, cacheTtl);
-  if (cached) {
-    return cached;
+async function loadCatalog(
+  gatewayUrl: string,
+  rootCid: string | undefined,
+  options: CatalogLoadOptions
+): Promise<StacCatalog> {
+  const cacheTtl = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+  const store = options.cacheStore;
+
+  if (rootCid) {
+    return loadPinnedCatalog(gatewayUrl, rootCid, options);
+  }
+
+  // Reuse the last discovered root, from memory or the persistent store
+  let latest = latestRootCids.get(gatewayUrl);
+  let catalog = latest ? catalogCache.get(catalogKey(latest.rootCid))?.catalog : undefined;
+  if (!catalog) {
+    const stored = await readStore(store, latestCatalogKey(gatewayUrl));
+    if (stored) {
+      latest = { rootCid: stored.rootCid, timestamp: stored.timestamp };
+      latestRootCids.set(gatewayUrl, latest);
+      setCachedCatalog(stored);
+      catalog = stored.catalog;
+    }
   }
 
-  // Fetch root CID if not provided
-  const cid = rootCid || (await getRootCatalogCid());
+  if (!catalog || !latest) {
+    return refreshLatestCatalog(gatewayUrl, options);
+  }
 
-  try {
-    const catalogUrl = resolveIpfsUri(`ipfs://${cid}`, gatewayUrl);
-    const catalogResponse = await fetch(catalogUrl);
+  if (Date.now() - latest.timestamp > cacheTtl) {
+    refreshLatestCatalog(gatewayUrl, options).catch((error) => {
+      console.warn("Background STAC catalog refresh failed:", error);
+    });
+  }
 
-    if (!catalogResponse.ok) {
-      throw new Error(`HTTP ${catalogResponse.status}: ${catalogResponse.statusText}`);
+  return catalog;
+}
+
+/**
+ * Walks the IPFS-hosted catalog tree under `cid`: organizations, then their
+ * collections, then every item. Siblings are fetched in parallel, with at most
+ * `concurrency` requests in flight across the whole walk. Results keep link
+ * order, so the catalog matches what a one-at-a-time walk would produce.
+ */
+async function walkStacCatalog(
+  gatewayUrl: string,
+  cid: string,
+  options: CatalogLoadOptions = {}
+): Promise<StacCatalog> {
+  const limit = createLimiter(options.concurrency ?? DEFAULT_WALK_CONCURRENCY);
+  const timeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  const signal = options.signal;
+  const fetchDocument = <T>(href: string): Promise<StacJsonResponse<T>> => {
+    const url = resolveIpfsUri(href, gatewayUrl);
+    // Waits between retries happen outside the limiter, freeing the slot.
+    return withRetry(
+      async () => {
+        const response = await limit(() => {
+          if (signal?.aborted) throw abortError(signal, "catalog");
+          return fetchStacJson<T>(url, timeoutMs, signal, options.fetch);
+        });
+        if (!response.ok && isRetriableStatus(response.status)) {
+          throw new RetriableResponseError(response, url);
+        }
+        return response;
+      },
+      options.retry,
+      { operation: "stac_catalog.fetch", signal, phase: "catalog" }
+    ).catch((error: unknown) => {
+      if (error instanceof RetriableResponseError) return error.response;
+      throw error;
+    });
+  };
+
+  const loadItem = async (itemLink: StacLink): Promise<StacItem | null> => {
+    try {
+      const itemResponse = await fetchDocument<StacItem>(itemLink.href);
+      if (!itemResponse.ok) {
+        console.warn(`Failed to load item from ${itemLink.href}: ${itemResponse.status}`);
+        return null;
+      }
+      return itemResponse.body;
+    } catch (itemError) {
+      if (itemError instanceof OperationAbortedError) throw itemError;
+      console.warn(`Error loading item ${itemLink.href}:`, itemError);
+      return null;
     }
+  };
 
-    const catalog: StacCatalog = await catalogResponse.json();
+  const loadCollection = async (
+    collectionLink: StacLink,
+    orgLink: StacLink,
+    collectionCategories: Map<string, string>,
+    datasetSlugs: string[]
+  ): Promise<StacCollection | null> => {
+    try {
+      const collectionResponse = await fetchDocument<StacCollection>(collectionLink.href);
+      if (!collectionResponse.ok) {
+        console.warn(`Failed to load collection from ${collectionLink.href}: ${collectionResponse.status}`);
+        return null;
+      }
 
-    const organizations: StacOrganization[] = [];
-    const collections: StacCollection[] = [];
-    const orgLinks = catalog.links.filter(
-      (link) => link.rel === "child" && typeof link?.["dclimate:id"] === "string"
-    );
+      const collection = collectionResponse.body;
 
-    for (const link of orgLinks) {
-      const orgId = link["dclimate:id"] as string;
-      const orgUrl = resolveIpfsUri(link.href, gatewayUrl);
-      const collectionCategories = buildCollectionCategoryMap(link);
-      const datasetSlugs = extractDatasetSlugsFromOrgLink(link);
+      // Load items for this collection
+      const itemLinks = collection.links.filter((itemLink) => itemLink.rel === "item");
+      const items = await Promise.all(itemLinks.map(loadItem));
 
-      try {
-        const orgResponse = await fetch(orgUrl);
-        if (!orgResponse.ok) {
-          console.warn(`Failed to load organization catalog from ${link.href}: ${orgResponse.status}`);
-          continue;
-        }
+      collection.items = items.filter((item): item is StacItem => item !== null);
+      collection.organizationId = orgLink["dclimate:id"] as string;
+      collection.organizationTitle = orgLink.title;
+      const category = collectionCategories.get(collection.id);
+      if (category) {
+        collection.category = category;
+      }
+
+      const datasetNames = datasetSlugs
+        .filter((slug) => slug.startsWith(`${collection.id}/`))
+        .map((slug) => slug.split("/")[1])
+        .filter(Boolean);
+      if (datasetNames.length) {
+        collection.datasetNames = datasetNames;
+      }
 
-        const orgCatalog: StacCatalog = await orgResponse.json();
-        organizations.push({
+      return collection;
+    } catch (collectionError) {
+      if (collectionError instanceof OperationAbortedError) throw collectionError;
+      console.warn(`Error loading collection ${collectionLink.href}:`, collectionError);
+      return null;
+    }
+  };
+
+  const loadOrganization = async (
+    link: StacLink
+  ): Promise<{ organization: StacOrganization; collections: StacCollection[] } | null> => {
+    const orgId = link["dclimate:id"] as string;
+    const collectionCategories = buildCollectionCategoryMap(link);
+    const datasetSlugs = extractDatasetSlugsFromOrgLink(link);
+
+    try {
+      const orgResponse = await fetchDocument<StacCatalog>(link.href);
+      if (!orgResponse.ok) {
+        console.warn(`Failed to load organization catalog from ${link.href}: ${orgResponse.status}`);
+        return null;
+      }
+
+      const orgCatalog = orgResponse.body;
+      const collectionLinks = orgCatalog.links.filter((orgLink) => orgLink.rel === "child");
+      const collections = await Promise.all(
+        collectionLinks.map((collectionLink) =>
+          loadCollection(collectionLink, link, collectionCategories, datasetSlugs)
+        )
+      );
+
+      return {
+        organization: {
           id: orgId,
           title: link.title,
           link,
           catalog: orgCatalog,
-        });
+        },
+        collections: collections.filter(
+          (collection): collection is StacCollection => collection !== null
+        ),
+      };
+    } catch (orgError) {
+      if (orgError instanceof OperationAbortedError) throw orgError;
+      console.warn(`Error loading organization ${link.href}:`, orgError);
+      return null;
+    }
+  };
 
-        const collectionLinks = orgCatalog.links.filter((orgLink) => orgLink.rel === "child");
-
-        for (const collectionLink of collectionLinks) {
-          try {
-            const collectionUrl = resolveIpfsUri(collectionLink.href, gatewayUrl);
-            const collectionResponse = await fetch(collectionUrl);
-
-            if (!collectionResponse.ok) {
-              console.warn(`Failed to load collection from ${collectionLink.href}: ${collectionResponse.status}`);
-              continue;
-            }
-
-            const collection: StacCollection = await collectionResponse.json();
-
-            // Load items for this collection
-            const items: StacItem[] = [];
-            const itemLinks = collection.links.filter((itemLink) => itemLink.rel === "item");
-
-            for (const itemLink of itemLinks) {
-              try {
-                const itemUrl = resolveIpfsUri(itemLink.href, gatewayUrl);
-                const itemResponse = await fetch(itemUrl);
-
-                if (!itemResponse.ok) {
-                  console.warn(`Failed to load item from ${itemLink.href}: ${itemResponse.status}`);
-                  continue;
-                }
-
-                const item: StacItem = await itemResponse.json();
-                items.push(item);
-              } catch (itemError) {
-                console.warn(`Error loading item ${itemLink.href}:`, itemError);
-              }
-            }
-
-            collection.items = items;
-            collection.organizationId = orgId;
-            collection.organizationTitle = link.title;
-            const category = collectionCategories.get(collection.id);
-            if (category) {
-              collection.category = category;
-            }
-
-            const datasetNames = datasetSlugs
-              .filter((slug) => slug.startsWith(`${collection.id}/`))
-              .map((slug) => slug.split("/")[1])
-              .filter(Boolean);
-            if (datasetNames.length) {
-              collection.datasetNames = datasetNames;
-            }
-
-            collections.push(collection);
-          } catch (collectionError) {
-            console.warn(`Error loading collection ${collectionLink.href}:`, collectionError);
-          }
+  try {
+    const catalogResponse = await fetchDocument<StacCatalog>(`ipfs://${cid}`);
+
+    if (!catalogResponse.ok) {
+      throw new StacLoadError(
+        `Failed to load STAC catalog from IPFS CID: ${cid} (HTTP ${catalogResponse.status}: ${catalogResponse.statusText})`,
+        undefined,
+        {
+          retriable: isRetriableStatus(catalogResponse.status),
+          context: {
+            cid,
+            url: resolveIpfsUri(`ipfs://${cid}`, gatewayUrl),
+            status: catalogResponse.status,
+          },
         }
-      } catch (orgError) {
-        console.warn(`Error loading organization ${link.href}:`, orgError);
-      }
+      );
     }
 
+    const catalog = catalogResponse.body;
+
+    const orgLinks = catalog.links.filter(
+      (link) => link.rel === "child" && typeof link?.["dclimate:id"] === "string"
+    );
+    const loaded = (await Promise.all(orgLinks.map(loadOrganization))).filter(
+      (result): result is NonNullable<typeof result> => result !== null
+    );
+
+    const organizations = loaded.map((result) => result.organization);
+    const collections = loaded.flatMap((result) => result.collections);
+
     catalog.collections = collections;
     catalog.organizations = organizations;
-
-    setCachedCatalog(gatewayUrl, catalog, cid);
+    catalog.rootCid = cid;
 
     return catalog;
   } catch (error) {
-    throw new StacLoadError(
-      `Failed to load STAC catalog from IPFS CID: ${cid}`,
-      error as Error
-    );
+    if (error instanceof OperationAbortedError || error instanceof StacLoadError) {
+      throw error;
+    }
+    throw new StacLoadError(`Failed to load STAC catalog from IPFS CID: ${cid}`, error, {
+      retriable: !(error instanceof SyntaxError),
+      context: { cid },
+    });
   }
 }
 
@@ -464,7 +785,8 @@ function selectCollectionFromCatalog(
 
   if (!resolvedOrganization) {
     throw new StacResolutionError(
-      `Unable to determine organization for collection "${collection}". Provide an organization or verify the catalog metadata.`
+      `Unable to determine organization for collection "${collection}". Provide an organization or verify the catalog metadata.`,
+      { code: "COLLECTION_NOT_FOUND", context: { collection, dataset } }
     );
   }
 
@@ -484,7 +806,11 @@ function selectCollectionFromCatalog(
 
   if (!collectionObj) {
     throw new StacResolutionError(
-      `Collection "${collection}" not found under organization "${resolvedOrganization}".`
+      `Collection "${collection}" not found under organization "${resolvedOrganization}".`,
+      {
+        code: "COLLECTION_NOT_FOUND",
+        context: { organization: resolvedOrganization, collection, dataset },
+      }
     );
   }
 
@@ -529,7 +855,11 @@ export function resolveDatasetFromStac(
       }) || [];
     const uniqueDatasets = [...new Set(availableDatasets)];
     throw new StacResolutionError(
-      `Dataset "${dataset}" not found in collection "${resolvedCollectionId}". Available datasets: ${uniqueDatasets.join(", ")}`
+      `Dataset "${dataset}" not found in collection "${resolvedCollectionId}". Available datasets: ${uniqueDatasets.join(", ")}`,
+      {
+        code: "DATASET_NOT_FOUND",
+        context: { organization: organizationId, collection: resolvedCollectionId, dataset },
+      }
     );
   }
 
@@ -550,7 +880,16 @@ export function resolveDatasetFromStac(
     if (!selectedItem) {
       const availableVariants = candidates.map((c) => c.variant);
       throw new StacResolutionError(
-        `Variant "${variant}" not found for dataset "${resolvedCollectionId}-${dataset}". Available variants: ${availableVariants.join(", ")}`
+        `Variant "${variant}" not found for dataset "${resolvedCollectionId}-${dataset}". Available variants: ${availableVariants.join(", ")}`,
+        {
+          code: "VARIANT_NOT_FOUND",
+          context: {
+            organization: organizationId,
+            collection: resolvedCollectionId,
+            dataset,
+            variant,
+          },
+        }
       );
     }
     resolvedVariant = variant;
@@ -571,7 +910,11 @@ export function resolveDatasetFromStac(
       if (!selectedItem) {
         const availableVariants = candidates.map((c) => c.variant);
         throw new StacResolutionError(
-          `Multiple variants available for "${resolvedCollectionId}-${dataset}". Please specify one of: ${availableVariants.join(", ")}`
+          `Multiple variants available for "${resolvedCollectionId}-${dataset}". Please specify one of: ${availableVariants.join(", ")}`,
+          {
+            code: "VARIANT_AMBIGUOUS",
+            context: { organization: organizationId, collection: resolvedCollectionId, dataset },
+          }
         );
       }
     }
@@ -579,7 +922,16 @@ export function resolveDatasetFromStac(
 
   if (!selectedItem?.assets?.data) {
     throw new StacResolutionError(
-      `No data asset found for item "${selectedItem?.id ?? "unknown"}"`
+      `No data asset found for item "${selectedItem?.id ?? "unknown"}"`,
+      {
+        code: "INVALID_CATALOG_ENTRY",
+        context: {
+          organization: organizationId,
+          collection: resolvedCollectionId,
+          dataset,
+          variant: resolvedVariant || undefined,
+        },
+      }
     );
   }
 
@@ -10,8 +10,17 @@ import type {
   CatalogDataset,
   DatasetCatalog,
   DatasetVariantConfig,
+  StacLink,
 } from "./stac-catalog.js";
 import { getStringProperty } from "./stac-catalog.js";
+import { throwIfAborted, withPhase } from "../abort.js";
+import {
+  DatasetNotFoundError,
+  StacResolutionError,
+  StacServerError,
+} from "../errors.js";
+import { withRetry } from "../retry.js";
+import type { FetchLike, RetryPolicy } from "../types.js";
 
 export const DEFAULT_STAC_SERVER_URL = "https://api.stac.dclimate.net";
 
@@ -20,16 +29,176 @@ export interface StacServerSearchResponse {
   features: StacServerItem[];
   numberMatched?: number;
   numberReturned?: number;
+  links?: StacLink[];
 }
 
 export interface StacServerItem {
   type: "Feature";
   id: string;
   collection?: string;
+  bbox?: number[];
   properties: Record<string, unknown>;
   assets: Record<string, { href: string; type?: string; title?: string }>;
 }
 
+/**
+ * Body of a STAC API `POST /search` request.
+ */
+export interface StacSearchParameters {
+  limit?: number;
+  collections?: string[];
+  [key: string]: unknown;
+}
+
+export interface StacSearchOptions {
+  /** Stop after this many pages, as a guard against servers that loop. Default: 1000 */
+  maxPages?: number;
+  /** Cancels the search; the pending page rejects with `OperationAbortedError`. */
+  signal?: AbortSignal;
+  /** `fetch` used for every page. Default: the global `fetch`. */
+  fetch?: FetchLike;
+  /** Retries each page request. Default: no retries. */
+  retry?: RetryPolicy;
+}
+
+export interface StacServerRequestOptions {
+  /** Cancels the request; it rejects with `OperationAbortedError`. */
+  signal?: AbortSignal;
+  /** Time limit for the whole request, every page included, in milliseconds. */
+  timeoutMs?: number;
+  /** `fetch` used for every request. Default: the global `fetch`. */
+  fetch?: FetchLike;
+  /** Retries each request. Default: no retries. */
+  retry?: RetryPolicy;
+}
+
+const DEFAULT_MAX_SEARCH_PAGES = 1000;
+
+interface SearchPageRequest {
+  url: string;
+  method: "GET" | "POST";
+  body?: Record<string, unknown>;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Builds the request for the page a `next` link points to. STAC API servers
+ * express it either as a plain GET URL (token in the query string) or as a
+ * POST with its own body, optionally to be merged into the previous body.
+ */
+function nextPageRequest(
+  link: StacLink,
+  previous: SearchPageRequest,
+  serverUrl: string
+): SearchPageRequest {
+  const url = new URL(link.href, `${serverUrl}/`).toString();
+  const method =
+    typeof link.method === "string" && link.method.toUpperCase() === "POST"
+      ? "POST"
+      : "GET";
+  const headers =
+    link.headers && typeof link.headers === "object"
+      ? (link.headers as Record<string, string>)
+      : undefined;
+
+  if (method === "GET") {
+    return { url, method, headers };
+  }
+
+  const linkBody =
+    link.body && typeof link.body === "object"
+      ? (link.body as Record<string, unknown>)
+      : {};
+  const body = link.merge === true ? { ...previous.body, ...linkBody } : linkBody;
+  return { url, method, body, headers };
+}
+
+/**
+ * Sends one request to the STAC server and parses its JSON body, retrying
+ * per `options.retry`. `endpoint` names the route in error messages.
+ */
+async function fetchServerJson<T>(
+  url: string,
+  init: RequestInit,
+  endpoint: string,
+  options: Pick<StacSearchOptions, "signal" | "fetch" | "retry">
+): Promise<T> {
+  const fetchFn = options.fetch ?? fetch;
+  return withRetry(
+    async () => {
+      let response: Response;
+      try {
+        response = await fetchFn(url, { ...init, signal: options.signal });
+      } catch (error) {
+        throwIfAborted(options.signal);
+        throw new StacServerError(`STAC server request to ${url} failed`, {
+          code: "NETWORK_ERROR",
+          cause: error,
+          context: { url },
+        });
+      }
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new StacServerError(`STAC server ${endpoint} error ${response.status}: ${text}`, {
+          context: { url, status: response.status },
+        });
+      }
+
+      return (await response.json()) as T;
+    },
+    options.retry,
+    { operation: "stac_server.request", signal: options.signal }
+  );
+}
+
+/**
+ * Iterate over every feature matched by a STAC API search, following `next`
+ * links page by page.
+ *
+ * @param parameters - Body of the initial `POST /search` request
+ * @param serverUrl - STAC server base URL
+ * @throws StacServerError if any page request fails
+ */
+export async function* searchStacServer(
+  parameters: StacSearchParameters,
+  serverUrl: string = DEFAULT_STAC_SERVER_URL,
+  options: StacSearchOptions = {}
+): AsyncGenerator<StacServerItem> {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_SEARCH_PAGES;
+  const seen = new Set<string>();
+  let request: SearchPageRequest | undefined = {
+    url: `${serverUrl}/search`,
+    method: "POST",
+    body: parameters,
+  };
+
+  for (let page = 0; request && page < maxPages; page++) {
+    // A server that hands back the same page again would loop forever.
+    const requestKey = `${request.method} ${request.url} ${JSON.stringify(request.body ?? null)}`;
+    if (seen.has(requestKey)) break;
+    seen.add(requestKey);
+
+    const data: StacServerSearchResponse = await fetchServerJson(
+      request.url,
+      {
+        method: request.method,
+        headers: {
+          ...(request.method === "POST" ? { "Content-Type": "application/json" } : {}),
+          ...request.headers,
+        },
+        body: request.method === "POST" ? JSON.stringify(request.body ?? {}) : undefined,
+      },
+      "/search",
+      options
+    );
+    yield* data.features ?? [];
+
+    const next = data.links?.find((link) => link.rel === "next");
+    request = next ? nextPageRequest(next, request, serverUrl) : undefined;
+  }
+}
+
 export interface ResolvedCidFromServer {
   cid: string;
   collectionId: string;
@@ -73,92 +242,95 @@ function featureMatchesDataset(
  * @param dataset - Dataset name (e.g., 'temperature', 'precipitation')
  * @param variant - Optional variant name (e.g., 'ensemble', 'deterministic')
  * @param serverUrl - STAC server base URL
+ * @param options - Abort signal and timeout for the "resolve" phase
  * @returns The resolved CID and metadata
- * @throws Error if dataset or variant is not found, or if server request fails
+ * @throws DatasetNotFoundError if the dataset or variant is not found
+ * @throws StacServerError if a server request fails
+ * @throws OperationAbortedError if the request is cancelled or times out
  */
 export async function resolveCidFromStacServer(
   collection: string,
   dataset: string,
   variant?: string,
-  serverUrl: string = DEFAULT_STAC_SERVER_URL
+  serverUrl: string = DEFAULT_STAC_SERVER_URL,
+  options: StacServerRequestOptions = {}
 ): Promise<ResolvedCidFromServer> {
-  // Search by collection
-  const body = {
-    limit: 100,
-    collections: [collection],
-  };
-
-  const response = await fetch(`${serverUrl}/search`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`STAC server error ${response.status}: ${text}`);
-  }
-
-  const data: StacServerSearchResponse = await response.json();
-  const features = data.features || [];
-
-  // Filter to the exact dataset. A prefix match would conflate datasets such
-  // as precipitation_total and precipitation_total_land.
-  const matches = features.filter((f) =>
-    featureMatchesDataset(f, collection, dataset)
-  );
+  return withPhase("resolve", options.signal, options.timeoutMs, async (signal) => {
+    // Search by collection, across every page. Filter to the exact dataset: a
+    // prefix match would conflate datasets such as precipitation_total and
+    // precipitation_total_land.
+    const matches: StacServerItem[] = [];
+    for await (const feature of searchStacServer(
+      { limit: 100, collections: [collection] },
+      serverUrl,
+      { signal, fetch: options.fetch, retry: options.retry }
+    )) {
+      if (featureMatchesDataset(feature, collection, dataset)) {
+        matches.push(feature);
+      }
+    }
 
-  if (matches.length === 0) {
-    throw new Error(`No items found for ${collection}/${dataset}`);
-  }
+    if (matches.length === 0) {
+      throw new DatasetNotFoundError(`No items found for ${collection}/${dataset}`, {
+        context: { collection, dataset, url: serverUrl },
+      });
+    }
 
-  // Select by variant or use default preference
-  let selectedItem: StacServerItem | undefined;
-  let resolvedVariant: string;
+    // Select by variant or use default preference
+    let selectedItem: StacServerItem | undefined;
+    let resolvedVariant: string;
 
-  if (variant) {
-    selectedItem = matches.find(
-      (f) => getStringProperty(f.properties, "dclimate:variant") === variant
-    );
-    if (!selectedItem) {
-      throw new Error(
-        `Variant '${variant}' not found for ${collection}/${dataset}`
+    if (variant) {
+      selectedItem = matches.find(
+        (f) => getStringProperty(f.properties, "dclimate:variant") === variant
       );
-    }
-    resolvedVariant = variant;
-  } else {
-    // Prefer: default > final > finalized > latest > first match
-    selectedItem = matches[0];
-    resolvedVariant =
-      getStringProperty(matches[0].properties, "dclimate:variant") ?? "default";
-
-    const preferredOrder = ["default", "final", "finalized", "latest"];
-    for (const preferred of preferredOrder) {
-      const found = matches.find(
-        (f) => getStringProperty(f.properties, "dclimate:variant") === preferred
-      );
-      if (found) {
-        selectedItem = found;
-        resolvedVariant = preferred;
-        break;
+      if (!selectedItem) {
+        throw new DatasetNotFoundError(
+          `Variant '${variant}' not found for ${collection}/${dataset}`,
+          {
+            code: "VARIANT_NOT_FOUND",
+            context: { collection, dataset, variant, url: serverUrl },
+          }
+        );
+      }
+      resolvedVariant = variant;
+    } else {
+      // Prefer: default > final > finalized > latest > first match
+      selectedItem = matches[0];
+      resolvedVariant =
+        getStringProperty(matches[0].properties, "dclimate:variant") ?? "default";
+
+      const preferredOrder = ["default", "final", "finalized", "latest"];
+      for (const preferred of preferredOrder) {
+        const found = matches.find(
+          (f) => getStringProperty(f.properties, "dclimate:variant") === preferred
+        );
+        if (found) {
+          selectedItem = found;
+          resolvedVariant = preferred;
+          break;
+        }
       }
     }
-  }
 
-  // Extract CID from asset
-  const href = selectedItem.assets?.data?.href || "";
-  if (!href) {
-    throw new Error(`Item '${selectedItem.id}' has no data asset`);
-  }
+    // Extract CID from asset
+    const href = selectedItem.assets?.data?.href || "";
+    if (!href) {
+      throw new StacResolutionError(`Item '${selectedItem.id}' has no data asset`, {
+        code: "INVALID_CATALOG_ENTRY",
+        context: { collection, dataset, variant: resolvedVariant, url: serverUrl },
+      });
+    }
 
-  const cid = href.startsWith("ipfs://") ? href.replace("ipfs://", "") : href;
+    const cid = href.startsWith("ipfs://") ? href.replace("ipfs://", "") : href;
 
-  return {
-    cid,
-    collectionId: collection,
-    dataset,
-    variant: resolvedVariant,
-  };
+    return {
+      cid,
+      collectionId: collection,
+      dataset,
+      variant: resolvedVariant,
+    };
+  });
 }
 
 /**
@@ -168,13 +340,15 @@ export async function resolveDatasetCidFromStacServer(
   collection: string,
   dataset: string,
   variant?: string,
-  serverUrl: string = DEFAULT_STAC_SERVER_URL
+  serverUrl: string = DEFAULT_STAC_SERVER_URL,
+  options: StacServerRequestOptions = {}
 ): Promise<string> {
   const result = await resolveCidFromStacServer(
     collection,
     dataset,
     variant,
-    serverUrl
+    serverUrl,
+    options
   );
   return result.cid;
 }
@@ -187,17 +361,6 @@ interface StacServerCollectionsResponse {
   }>;
 }
 
-interface StacServerSearchFeature {
-  id: string;
-  collection?: string;
-  bbox?: number[];
-  properties: Record<string, unknown>;
-}
-
-interface StacServerSearchPage {
-  features: StacServerSearchFeature[];
-}
-
 function stripIpfsScheme(cid: string | undefined): string | undefined {
   if (!cid) return undefined;
   return cid.startsWith("ipfs://") ? cid.replace(/^ipfs:\/\//, "") : cid;
@@ -222,146 +385,143 @@ function stripIpfsScheme(cid: string | undefined): string | undefined {
  *   - Category (historical/forecast) isn't populated here — the IPFS walker
  *     pulls it from `dclimate:collections:<category>` on the org link, which
  *     has no STAC API equivalent.
- *   - The fixed `limit: 1000` covers today's catalog (~45 items) by a wide
- *     margin. If the catalog grows past that, switch to following the
- *     STAC `next` link instead of a single request.
  */
 export async function listAvailableDatasetsFromStacServer(
-  serverUrl: string = DEFAULT_STAC_SERVER_URL
+  serverUrl: string = DEFAULT_STAC_SERVER_URL,
+  options: StacServerRequestOptions = {}
 ): Promise<DatasetCatalog> {
-  const [collectionsResp, searchResp] = await Promise.all([
-    fetch(`${serverUrl}/collections`),
-    fetch(`${serverUrl}/search`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ limit: 1000 }),
-    }),
-  ]);
-
-  if (!collectionsResp.ok) {
-    const text = await collectionsResp.text();
-    throw new Error(
-      `STAC server /collections error ${collectionsResp.status}: ${text}`
-    );
-  }
-  if (!searchResp.ok) {
-    const text = await searchResp.text();
-    throw new Error(
-      `STAC server /search error ${searchResp.status}: ${text}`
-    );
-  }
-
-  const collectionsBody = (await collectionsResp.json()) as StacServerCollectionsResponse;
-  const searchBody = (await searchResp.json()) as StacServerSearchPage;
-
-  interface CollectionAccumulator {
-    title?: string;
-    organization?: string;
-    // Categories seen across items in this collection. Used to roll up to a
-    // single `category` value on the output — see the unanimity check below.
-    observations: Set<string>;
-    datasets: Map<string, Map<string, DatasetVariantConfig>>;
-  }
-
-  const accumulators = new Map<string, CollectionAccumulator>();
+  return withPhase("catalog", options.signal, options.timeoutMs, async (signal) => {
+    const collectSearchFeatures = async (): Promise<StacServerItem[]> => {
+      const features: StacServerItem[] = [];
+      for await (const feature of searchStacServer({ limit: 1000 }, serverUrl, {
+        signal,
+        fetch: options.fetch,
+        retry: options.retry,
+      })) {
+        features.push(feature);
+      }
+      return features;
+    };
 
-  for (const coll of collectionsBody.collections ?? []) {
-    const organization = coll.id.includes("_") ? coll.id.split("_")[0] : undefined;
-    accumulators.set(coll.id, {
-      title: coll.title,
-      organization,
-      observations: new Set(),
-      datasets: new Map(),
-    });
-  }
+    const [collectionsBody, searchFeatures] = await Promise.all([
+      fetchServerJson<StacServerCollectionsResponse>(
+        `${serverUrl}/collections`,
+        {},
+        "/collections",
+        { signal, fetch: options.fetch, retry: options.retry }
+      ),
+      collectSearchFeatures(),
+    ]);
+
+    interface CollectionAccumulator {
+      title?: string;
+      organization?: string;
+      // Categories seen across items in this collection. Used to roll up to a
+      // single `category` value on the output — see the unanimity check below.
+      observations: Set<string>;
+      datasets: Map<string, Map<string, DatasetVariantConfig>>;
+    }
 
-  for (const feature of searchBody.features ?? []) {
-    const collectionId =
-      feature.collection ??
-      (feature.id.includes("-") ? feature.id.split("-")[0] : undefined);
-    if (!collectionId) continue;
+    const accumulators = new Map<string, CollectionAccumulator>();
 
-    let entry = accumulators.get(collectionId);
-    if (!entry) {
-      entry = {
-        organization: collectionId.includes("_") ? collectionId.split("_")[0] : undefined,
+    for (const coll of collectionsBody.collections ?? []) {
+      const organization = coll.id.includes("_") ? coll.id.split("_")[0] : undefined;
+      accumulators.set(coll.id, {
+        title: coll.title,
+        organization,
         observations: new Set(),
         datasets: new Map(),
-      };
-      accumulators.set(collectionId, entry);
+      });
     }
 
-    const props = feature.properties ?? {};
-    const observation = props["dclimate:observation"];
-    if (typeof observation === "string" && observation.length > 0) {
-      entry.observations.add(observation);
-    }
-    // Prefer the explicit property fields; fall back to id-parsing for items
-    // that pre-date the dclimate:* property convention.
-    const idParts = feature.id.split("-");
-    const datasetName =
-      getStringProperty(props, "dclimate:dataset_id") ??
-      (idParts.length >= 2 ? idParts[1] : undefined);
-    const variantName =
-      getStringProperty(props, "dclimate:variant") ??
-      (idParts.length >= 3 ? idParts.slice(2).join("-") : "default");
-    if (!datasetName) continue;
-
-    const cid = stripIpfsScheme(
-      getStringProperty(props, "dclimate:latest_dataset_cid")
-    );
+    for (const feature of searchFeatures) {
+      const collectionId =
+        feature.collection ??
+        (feature.id.includes("-") ? feature.id.split("-")[0] : undefined);
+      if (!collectionId) continue;
+
+      let entry = accumulators.get(collectionId);
+      if (!entry) {
+        entry = {
+          organization: collectionId.includes("_") ? collectionId.split("_")[0] : undefined,
+          observations: new Set(),
+          datasets: new Map(),
+        };
+        accumulators.set(collectionId, entry);
+      }
 
-    const variantConfig: DatasetVariantConfig = { variant: variantName };
-    if (cid) variantConfig.cid = cid;
+      const props = feature.properties ?? {};
+      const observation = props["dclimate:observation"];
+      if (typeof observation === "string" && observation.length > 0) {
+        entry.observations.add(observation);
+      }
+      // Prefer the explicit property fields; fall back to id-parsing for items
+      // that pre-date the dclimate:* property convention.
+      const idParts = feature.id.split("-");
+      const datasetName =
+        getStringProperty(props, "dclimate:dataset_id") ??
+        (idParts.length >= 2 ? idParts[1] : undefined);
+      const variantName =
+        getStringProperty(props, "dclimate:variant") ??
+        (idParts.length >= 3 ? idParts.slice(2).join("-") : "default");
+      if (!datasetName) continue;
+
+      const cid = stripIpfsScheme(
+        getStringProperty(props, "dclimate:latest_dataset_cid")
+      );
 
-    const bbox = feature.bbox;
-    if (Array.isArray(bbox) && bbox.length >= 4) {
-      variantConfig.spatialExtent = {
-        bbox: [bbox[0], bbox[1], bbox[2], bbox[3]],
-      };
-    }
+      const variantConfig: DatasetVariantConfig = { variant: variantName };
+      if (cid) variantConfig.cid = cid;
 
-    const startDt =
-      getStringProperty(props, "start_datetime") ??
-      getStringProperty(props, "datetime") ??
-      null;
-    const endDt =
-      getStringProperty(props, "end_datetime") ??
-      getStringProperty(props, "datetime") ??
-      null;
-    if (startDt !== null || endDt !== null) {
-      variantConfig.temporalExtent = { start: startDt, end: endDt };
-    }
+      const bbox = feature.bbox;
+      if (Array.isArray(bbox) && bbox.length >= 4) {
+        variantConfig.spatialExtent = {
+          bbox: [bbox[0], bbox[1], bbox[2], bbox[3]],
+        };
+      }
 
-    let datasetVariants = entry.datasets.get(datasetName);
-    if (!datasetVariants) {
-      datasetVariants = new Map();
-      entry.datasets.set(datasetName, datasetVariants);
-    }
-    datasetVariants.set(variantName, variantConfig);
-  }
+      const startDt =
+        getStringProperty(props, "start_datetime") ??
+        getStringProperty(props, "datetime") ??
+        null;
+      const endDt =
+        getStringProperty(props, "end_datetime") ??
+        getStringProperty(props, "datetime") ??
+        null;
+      if (startDt !== null || endDt !== null) {
+        variantConfig.temporalExtent = { start: startDt, end: endDt };
+      }
 
-  const result: DatasetCatalog = [];
-  for (const [collectionId, entry] of accumulators) {
-    if (entry.datasets.size === 0) continue;
-    const datasets: CatalogDataset[] = [];
-    for (const [datasetName, variants] of entry.datasets) {
-      datasets.push({ dataset: datasetName, variants: [...variants.values()] });
+      let datasetVariants = entry.datasets.get(datasetName);
+      if (!datasetVariants) {
+        datasetVariants = new Map();
+        entry.datasets.set(datasetName, datasetVariants);
+      }
+      datasetVariants.set(variantName, variantConfig);
     }
-    const collection: CatalogCollection = {
-      collection: collectionId,
-      datasets,
-    };
-    if (entry.organization) collection.organization = entry.organization;
-    if (entry.title) collection.title = entry.title;
-    // Only roll up to a collection-level category when every item in the
-    // collection agrees. Mixed observations would be a meaningful ambiguity
-    // — leave undefined and let callers handle it rather than picking a
-    // misleading value.
-    if (entry.observations.size === 1) {
-      collection.category = [...entry.observations][0];
+
+    const result: DatasetCatalog = [];
+    for (const [collectionId, entry] of accumulators) {
+      if (entry.datasets.size === 0) continue;
+      const datasets: CatalogDataset[] = [];
+      for (const [datasetName, variants] of entry.datasets) {
+        datasets.push({ dataset: datasetName, variants: [...variants.values()] });
+      }
+      const collection: CatalogCollection = {
+        collection: collectionId,
+        datasets,
+      };
+      if (entry.organization) collection.organization = entry.organization;
+      if (entry.title) collection.title = entry.title;
+      // Only roll up to a collection-level category when every item in the
+      // collection agrees. Mixed observations would be a meaningful ambiguity
+      // — leave undefined and let callers handle it rather than picking a
+      // misleading value.
+      if (entry.observations.size === 1) {
+        collection.category = [...entry.observations][0];
+      }
+      result.push(collection);
     }
-    result.push(collection);
-  }
-  return result;
+    return result;
+  });
 }
@@ -1,16 +1,143 @@
 import type { IPFSELEMENTS_INTERFACE } from "@dclimate/jaxray";
+import type { GatewayStrategy } from "./ipfs/gateway-pool.js";
+import type { CatalogCacheStore } from "./stac/catalog-cache.js";
+import type { GeoTemporalDataset } from "./geotemporal-dataset.js";
 
 export type IpfsElements = IPFSELEMENTS_INTERFACE;
 
+/**
+ * Steps of a dataset load that can be given their own timeout:
+ * loading the STAC catalog, resolving the dataset CID, opening the Zarr store,
+ * and computing selections or concatenations.
+ */
+export type OperationPhase = "catalog" | "resolve" | "open" | "compute";
+
+/** Timeout per phase, in milliseconds. Phases left out have no timeout. */
+export type PhaseTimeouts = Partial<Record<OperationPhase, number>>;
+
+/** The subset of `fetch` the client relies on. */
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/** An outgoing HTTP request as seen by a {@link RequestInterceptor}. */
+export interface HttpRequest {
+  url: string;
+  init: RequestInit & { headers: Headers };
+}
+
+/**
+ * Called before every HTTP request the client makes. Modify the request in
+ * place or return a replacement.
+ */
+export type RequestInterceptor = (
+  request: HttpRequest
+) => HttpRequest | void | Promise<HttpRequest | void>;
+
+/**
+ * How failed network calls are retried: exponential backoff from
+ * `initialDelayMs`, growing by `backoffFactor` up to `maxDelayMs`, with part
+ * of each delay randomised by `jitter`.
+ */
+export interface RetryPolicy {
+  /** Total attempts per call, the first one included. Default: 3 */
+  maxAttempts?: number;
+  /** Delay before the first retry, in milliseconds. Default: 200 */
+  initialDelayMs?: number;
+  /** Factor the delay grows by after each retry. Default: 2 */
+  backoffFactor?: number;
+  /** Upper bound for a single delay, in milliseconds. Default: 5000 */
+  maxDelayMs?: number;
+  /**
+   * Fraction of each delay that is randomised, from 0 (fixed delays) to 1
+   * (anywhere between zero and the full delay). Default: 0.5
+   */
+  jitter?: number;
+  /**
+   * Decides whether a failed attempt is retried. Default: errors marked
+   * `retriable` and connection failures.
+   */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+}
+
 export interface ClientOptions {
   gatewayUrl?: string;
   ipfsElements?: IpfsElements;
+  /**
+   * Ordered list of IPFS gateways to open datasets from. The first entry is the
+   * preferred gateway (and the catalog gateway when `gatewayUrl` is not set).
+   */
+  gateways?: string[];
+  /**
+   * How dataset opens use `gateways`: "failover" (default) tries them in order,
+   * `{ race: n }` opens from the first `n` healthy gateways at once.
+   */
+  gatewayStrategy?: GatewayStrategy;
+  /**
+   * How long a gateway that keeps failing is skipped, in milliseconds.
+   * Default: 60000
+   */
+  gatewayCooldownMs?: number;
   /**
    * STAC server URL for fast CID resolution.
    * If provided, the client will try this server first before falling back to IPFS catalog.
    * Default: "http://localhost:8081"
    */
   stacServerUrl?: string | null;
+  /**
+   * Root CID of the STAC catalog to resolve datasets against.
+   * Pinning a root makes loads reproducible: the STAC server and the `/stac`
+   * discovery endpoint are skipped and every lookup uses that catalog version.
+   */
+  catalogRootCid?: string;
+  /**
+   * Persistent store for the IPFS-walked STAC catalog, e.g.
+   * `FileSystemCatalogCacheStore` in Node or `IndexedDbCatalogCacheStore` in
+   * the browser. A stored catalog is served immediately on cold start and
+   * refreshed in the background once it is older than an hour.
+   */
+  catalogCacheStore?: CatalogCacheStore;
+  /**
+   * Maximum number of parallel requests while walking the IPFS catalog.
+   * Default: 8
+   */
+  catalogConcurrency?: number;
+  /**
+   * Timeout for each request of the IPFS catalog walk, in milliseconds.
+   * Documents that time out are skipped like any other failed fetch.
+   * Default: 30000
+   */
+  catalogRequestTimeoutMs?: number;
+  /**
+   * `fetch` implementation for all STAC traffic: the STAC server, the IPFS
+   * catalog walk and root CID discovery. Default: the global `fetch`.
+   */
+  fetch?: FetchLike;
+  /**
+   * Headers sent with every request, e.g. proxy credentials. Headers set on an
+   * individual request take precedence.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Hook run before every request, after `headers` are applied. Use it to
+   * rewrite URLs, add per-request auth or record traffic.
+   */
+  onRequest?: RequestInterceptor;
+  /**
+   * Builds the IPFS elements used to open Zarr stores from a gateway. It
+   * receives the client's `fetch` (with `headers` and `onRequest` applied) so
+   * block requests can share it. Default: jaxray's `createIpfsElements` with
+   * that `fetch`.
+   */
+  createIpfsElements?: (gatewayUrl: string, fetch: FetchLike) => IpfsElements;
+  /**
+   * Default per-phase timeouts for every load. An expired phase throws
+   * `OperationAbortedError` with `timedOut: true`.
+   */
+  timeouts?: PhaseTimeouts;
+  /**
+   * Retries STAC server calls, catalog fetches, store opens and chunk reads.
+   * Default: no retries.
+   */
+  retry?: RetryPolicy;
 }
 
 export interface LoadDatasetOptions {
@@ -18,6 +145,23 @@ export interface LoadDatasetOptions {
   ipfsElements?: IpfsElements;
   returnJaxrayDataset?: boolean;
   autoConcatenate?: boolean;
+  /**
+   * Root CID of the STAC catalog for this load (overrides the client option).
+   */
+  catalogRootCid?: string;
+  /**
+   * Cancels the load. The pending request rejects with `OperationAbortedError`.
+   */
+  signal?: AbortSignal;
+  /**
+   * Per-phase timeouts for this load, merged over the client's `timeouts`.
+   */
+  timeouts?: PhaseTimeouts;
+}
+
+export interface CatalogRequestOptions {
+  signal?: AbortSignal;
+  timeouts?: PhaseTimeouts;
 }
 
 export interface PointQueryOptions {
@@ -32,6 +176,290 @@ export interface BoundsSelectionOptions {
   longitudeKey?: string;
 }
 
+export type SpatialAggregationMethod = "mean" | "sum" | "min" | "max" | "std";
+
+export interface SpatialAggregationOptions {
+  /** Default: "mean" */
+  method?: SpatialAggregationMethod;
+  /**
+   * "cos-lat" weights each cell by the cosine of its latitude, so cells that
+   * cover less area toward the poles count for less in a mean or std; sums,
+   * minima and maxima are unweighted. Default: "cos-lat"
+   */
+  weights?: "cos-lat" | "none";
+  latitudeKey?: string;
+  longitudeKey?: string;
+}
+
+/**
+ * "1D", "1W", "1M", "1Y" (any count, plus "H" for hours) or an ISO 8601
+ * duration such as "PT6H" or "P3M".
+ */
+export type ResampleFrequency = "1D" | "1W" | "1M" | "1Y" | (string & {});
+
+export type ResampleMethod = "mean" | "sum" | "min" | "max" | "first" | "last";
+
+export interface ResampleOptions {
+  frequency: ResampleFrequency;
+  /** Default: "mean" */
+  method?: ResampleMethod;
+  /**
+   * What to do with periods the data only partly covers, e.g. the first day
+   * of hourly data starting at noon: "keep" them and list their labels in
+   * the `partial_periods` attribute, or "drop" them. Default: "keep"
+   */
+  partial?: "keep" | "drop";
+  /** Time dimension to resample. Default: inferred */
+  dimension?: string;
+}
+
+/**
+ * "dayofyear" (1–365, with 29 February counted as 28 February), "month"
+ * (1–12) or "season" (DJF, MAM, JJA, SON).
+ */
+export type ClimatologyGroup = "dayofyear" | "month" | "season";
+
+export interface ClimatologyOptions {
+  /** Period the normals are averaged over, e.g. 1991–2020 */
+  baseline: TimeRange;
+  groupBy: ClimatologyGroup;
+  /** Time dimension. Default: inferred */
+  dimension?: string;
+}
+
+export interface AnomalyOptions {
+  /**
+   * Normals from `climatology()`, on the same grid. It may come from another
+   * variant or CID than the dataset itself.
+   */
+  climatology: GeoTemporalDataset;
+  /**
+   * "absolute" departures in the variable's units, or "percent" departures
+   * relative to normal: 100 × (value − normal) / normal. Default: "absolute"
+   */
+  mode?: "absolute" | "percent";
+  /** Time dimension. Default: inferred */
+  dimension?: string;
+}
+
+export interface QuantileOptions {
+  /** Dimension to compute quantiles along. Default: the time dimension */
+  dim?: string;
+}
+
+export interface PercentileRankOptions {
+  /** Dimension whose values rank `value`. Default: the time dimension */
+  dim?: string;
+}
+
+export type DegreeDayKind = "heating" | "cooling" | "growing";
+
+export interface DegreeDayOptions {
+  kind: DegreeDayKind;
+  /** Base temperature in °C. Default: 18 for heating/cooling, 10 for growing */
+  base?: number;
+  /** Upper temperature cap in °C for growing degree days, e.g. 30 for maize */
+  cap?: number;
+  /**
+   * "mean" uses a daily mean temperature variable; "average" the mean of
+   * daily minimum and maximum; "modified" (growing only) clips the maximum
+   * at `cap` and the minimum at `base` before averaging. Default: "mean"
+   */
+  method?: "mean" | "average" | "modified";
+  /** Daily mean temperature variable. Default: the only data variable */
+  variable?: string;
+  /** Daily minimum and maximum variables for "average" and "modified" */
+  minVariable?: string;
+  maxVariable?: string;
+  /** Accumulate per period, e.g. "1M", instead of over the whole series */
+  frequency?: ResampleFrequency;
+  /** Time dimension. Default: inferred */
+  dimension?: string;
+}
+
+export interface ThresholdOptions {
+  /** Threshold in the variable's units; temperatures in °C */
+  threshold: number;
+  /** Count days strictly "above" or "below" the threshold. Default: "above" */
+  comparison?: "above" | "below";
+  /** Default: the only data variable */
+  variable?: string;
+  /** Evaluate per period, e.g. "1Y", instead of over the whole series */
+  frequency?: ResampleFrequency;
+  /** Time dimension. Default: inferred */
+  dimension?: string;
+}
+
+export interface PayoutPhase {
+  /** Label of the phase in results, e.g. "flowering". Default: its position */
+  name?: string;
+  start: Date | string;
+  end: Date | string;
+  /** Share of the contract limit this phase can pay out, e.g. 0.4 */
+  weight: number;
+  /** How index values within the phase are combined. Default: "sum" */
+  aggregation?: "sum" | "mean" | "min" | "max";
+  /** Phase-specific strike levels; default to the contract's */
+  trigger?: number;
+  exit?: number;
+  tickSize?: number;
+}
+
+export interface PayoutContract {
+  /** "put" pays when the index falls below the trigger, "call" above it */
+  type: "call" | "put";
+  trigger: number;
+  /** Index level at which the full limit is paid */
+  exit?: number;
+  /** Payout per unit of index beyond the trigger. Default: limit / |trigger − exit| */
+  tickSize?: number;
+  /** Maximum payout over all phases (or per period without phases) */
+  limit: number;
+  phases?: PayoutPhase[];
+}
+
+export interface PayoutIndexSeries {
+  time: Array<Date | string | number>;
+  values: number[];
+  /** Variable the index was computed from, for the audit trail */
+  variable?: string;
+  /** Metadata of the datasets the index was computed from */
+  sources?: DatasetMetadata[];
+}
+
+export interface PayoutPeriod {
+  /** ISO time of the index value, or the phase name */
+  period: string;
+  start: string;
+  end: string;
+  index: number;
+  /** Share of the limit; 1 without phases */
+  weight: number;
+  payout: number;
+}
+
+export interface PayoutAuditSource {
+  dataset: string;
+  organization?: string;
+  collection?: string;
+  variant?: string;
+  cid: string;
+  concatenatedVariants?: string[];
+  concatenatedCids?: string[];
+  catalogRootCid?: string;
+  fetchedAt: string;
+}
+
+export interface PayoutResult {
+  periods: PayoutPeriod[];
+  total: number;
+  audit: {
+    contract: PayoutContract;
+    variable?: string;
+    sources: PayoutAuditSource[];
+    calculatedAt: string;
+  };
+}
+
+export interface PayoutOptions {
+  /** Default: the only data variable */
+  variable?: string;
+  /** Time dimension. Default: inferred */
+  dimension?: string;
+}
+
+export interface CsvOptions {
+  /** Columns after the coordinates. Default: every data variable */
+  variables?: string[];
+  /** Decimal places to round values to */
+  precision?: number;
+  /**
+   * "iso" (default) for ISO 8601, "date" for YYYY-MM-DD, "epoch" for
+   * milliseconds since 1970, or a function of the time
+   */
+  timeFormat?: "iso" | "date" | "epoch" | ((time: Date) => string);
+  /** Default: "," */
+  delimiter?: string;
+  /** Time steps read and written per chunk by streams. Default: 500 */
+  chunkSize?: number;
+  /** Time dimension to chunk along. Default: inferred */
+  dimension?: string;
+}
+
+export interface GeoJsonExportOptions {
+  /** Feature properties. Default: every data variable */
+  variables?: string[];
+  /**
+   * "point" for the cell centre, "cell" for the cell polygon with bounds
+   * halfway to neighbouring cells. Default: "point"
+   */
+  geometry?: "point" | "cell";
+  /**
+   * "series" puts a `time` array and one array per variable on each feature;
+   * "features" emits one feature per cell and time step. Default: "series"
+   */
+  time?: "series" | "features";
+  /** Decimal places to round values to */
+  precision?: number;
+  latitudeKey?: string;
+  longitudeKey?: string;
+  /** Time dimension. Default: inferred */
+  dimension?: string;
+}
+
+/** NetCDF-3 external types, named as in CDL. */
+export type NetCDFDataType = "byte" | "short" | "int" | "float" | "double";
+
+export interface NetCDFOptions {
+  /** "classic" (CDF-1, up to 2 GiB) or "64bit-offset" (CDF-2). Default: "classic" */
+  format?: "classic" | "64bit-offset";
+  /** Data variables to write. Default: every data variable */
+  variables?: string[];
+  /**
+   * Type per variable or coordinate. Default: the type matching typed array
+   * storage (e.g. "float" for `Float32Array`), otherwise "double"
+   */
+  dtypes?: Record<string, NetCDFDataType>;
+  /** Global attributes added to the dataset's own */
+  attrs?: Record<string, unknown>;
+  /** Time dimension, written with CF time units. Default: inferred */
+  dimension?: string;
+}
+
+export interface ArrowOptions {
+  /** Value columns after the coordinates. Default: every data variable */
+  variables?: string[];
+  /**
+   * "stream" for the IPC streaming format (.arrows), "file" for the IPC file
+   * format (.arrow, Feather v2). Default: "stream"
+   */
+  format?: "stream" | "file";
+  /** Type of the value columns. Default: "float64" */
+  valueType?: "float32" | "float64";
+  /** Time steps per record batch in streams. Default: 500 */
+  chunkSize?: number;
+  /** Schema metadata added to the dataset's attributes */
+  metadata?: Record<string, unknown>;
+  /** Time dimension, written as timestamps and chunked along. Default: inferred */
+  dimension?: string;
+}
+
+export interface GeoTiffOptions {
+  /** Variable or variables to write, one band each. Default: every data variable */
+  variable?: string | string[];
+  /**
+   * Time step or steps to write, one band each per variable. Default: every
+   * step along the time dimension
+   */
+  time?: Date | string | Array<Date | string>;
+  /** Metadata items added to the dataset's attributes */
+  metadata?: Record<string, unknown>;
+  latitudeKey?: string;
+  longitudeKey?: string;
+  /** Time dimension. Default: inferred */
+  dimension?: string;
+}
+
 export interface TimeRange {
   start: Date | string;
   end: Date | string;
@@ -47,6 +475,69 @@ export type BoundsSelection =
       options?: BoundsSelectionOptions;
     };
 
+/** A GeoJSON position: `[longitude, latitude]`, extra members ignored. */
+export type GeoJsonPosition = number[];
+
+export interface GeoJsonPoint {
+  type: "Point";
+  coordinates: GeoJsonPosition;
+}
+
+export interface GeoJsonPolygon {
+  type: "Polygon";
+  /** Outer ring first, then holes. */
+  coordinates: GeoJsonPosition[][];
+}
+
+export interface GeoJsonMultiPolygon {
+  type: "MultiPolygon";
+  coordinates: GeoJsonPosition[][][];
+}
+
+export type PolygonGeometry = GeoJsonPolygon | GeoJsonMultiPolygon;
+
+export interface GeoJsonFeature<G = PolygonGeometry> {
+  type: "Feature";
+  id?: string | number;
+  geometry: G;
+  properties: Record<string, unknown> | null;
+}
+
+export interface GeoJsonFeatureCollection<G = PolygonGeometry> {
+  type: "FeatureCollection";
+  features: Array<GeoJsonFeature<G>>;
+}
+
+export interface PolygonSelectionOptions {
+  /**
+   * Which grid cells belong to the polygon: "centre" keeps cells whose centre
+   * lies inside it, "overlap" keeps every cell it touches. Default: "centre"
+   */
+  inclusion?: "centre" | "overlap";
+  latitudeKey?: string;
+  longitudeKey?: string;
+}
+
+export type ZonalStatistic = "mean" | "min" | "max" | "count";
+
+export interface ZonalStatisticsOptions extends PolygonSelectionOptions {
+  /** Variable to summarise. Default: the dataset's only data variable */
+  variable?: string;
+  /**
+   * Feature property whose value keys the results. Default: the feature's
+   * `id`, or its position in the collection
+   */
+  keyProperty?: string;
+  /** Default: all of "mean", "min", "max" and "count" */
+  statistics?: ZonalStatistic[];
+}
+
+/**
+ * Per-feature statistics, keyed by feature. Each record holds the remaining
+ * coordinates (usually the time step) and the requested statistics.
+ */
+export type ZonalStatistics = Record<string, Array<Record<string, unknown>>>;
+
 export interface GeoSelectionOptions {
   point?: {
     latitude: number;
@@ -55,6 +546,9 @@ export interface GeoSelectionOptions {
   };
   bounds?: BoundsSelection;
   boundsOptions?: BoundsSelectionOptions;
+  /** A GeoJSON Polygon or MultiPolygon, bare or wrapped in a Feature. */
+  polygon?: PolygonGeometry | GeoJsonFeature;
+  polygonOptions?: PolygonSelectionOptions;
   timeRange?: TimeRange;
 }
 
@@ -67,12 +561,21 @@ export interface DatasetMetadata {
    * Array of variants that were concatenated together (if STAC-based concatenation was used)
    */
   concatenatedVariants?: string[];
+  /**
+   * CIDs of the concatenated variants, in the same order as `concatenatedVariants`
+   */
+  concatenatedCids?: string[];
   /**
    * Dimension used for concatenation (e.g., "time")
    */
   concatDimension?: string;
   path: string;
   cid: string;
+  /**
+   * Root CID of the STAC catalog the dataset CID was resolved from.
+   * Pass it back as `catalogRootCid` to reproduce the same resolution later.
+   */
+  catalogRootCid?: string;
   /**
    * Source type: "stac" for STAC resolution, "stac_concatenated" for STAC-based concatenation, or "direct_cid" for direct CID loading
    */
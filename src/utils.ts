@@ -1,5 +1,6 @@
 import type { TimeRange } from "./types.js";
 import { Dataset } from "@dclimate/jaxray";
+import { InvalidSelectionError } from "./errors.js";
 
 export function normalizeSegment(value: string): string {
   return value.trim().toLowerCase().replace(/\s+/g, "_");
@@ -37,7 +38,7 @@ function coerceBySample(
     if (!Number.isNaN(numeric)) return numeric;
     const parsed = toDate(input);
     if (parsed) return parsed.valueOf();
-    throw new TypeError(
+    throw new InvalidSelectionError(
       `Unable to coerce value "${input}" to a numeric coordinate`
     );
   }
@@ -45,7 +46,7 @@ function coerceBySample(
   if (sample instanceof Date) {
     const parsed = toDate(input);
     if (parsed) return parsed;
-    throw new TypeError(
+    throw new InvalidSelectionError(
       `Unable to coerce value "${input}" to a Date coordinate`
     );
   }
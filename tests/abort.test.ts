@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { withPhase } from "../src/abort.js";
+import { OperationAbortedError } from "../src/errors.js";
+import { classifyRetrievalError } from "../src/instrumentation.js";
+import { GatewayHealth } from "../src/ipfs/gateway-pool.js";
+import { openDatasetFromCid } from "../src/ipfs/open-dataset.js";
+import { loadStacCatalog } from "../src/stac/stac-catalog.js";
+import { resolveCidFromStacServer } from "../src/stac/stac-server.js";
+
+const openIpfsStoreMock = vi.hoisted(() => vi.fn());
+const openZarrMock = vi.hoisted(() => vi.fn());
+
+vi.mock("@dclimate/jaxray", () => ({
+  Dataset: {
+    open_zarr: openZarrMock,
+  },
+  openIpfsStore: openIpfsStoreMock,
+  createIpfsElements: (gatewayUrl: string) => ({ gatewayUrl }),
+}));
+
+/** A fetch that never answers until its signal aborts. */
+function stubHangingFetch() {
+  const fetchMock = vi.fn(
+    (_url: string, init?: { signal?: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () =>
+          reject(new DOMException("This operation was aborted", "AbortError"))
+        );
+      })
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("withPhase", () => {
+  it("rejects with a timed-out OperationAbortedError for the phase", async () => {
+    const error = await withPhase("compute", undefined, 10, () => new Promise(() => {}))
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OperationAbortedError);
+    expect(error).toMatchObject({ phase: "compute", timedOut: true });
+    expect(classifyRetrievalError(error)).toBe("connection_error");
+  });
+
+  it("rejects at once when the signal is already aborted", async () => {
+    const task = vi.fn(async () => "never");
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await withPhase("open", controller.signal, undefined, task).catch(
+      (e: unknown) => e
+    );
+
+    expect(task).not.toHaveBeenCalled();
+    expect(error).toMatchObject({ phase: "open", timedOut: false });
+    expect(classifyRetrievalError(error)).toBe("aborted");
+  });
+});
+
+describe("cancelling network paths", () => {
+  beforeEach(() => {
+    openIpfsStoreMock.mockReset();
+    openZarrMock.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("stops a gateway failover without blaming the gateway", async () => {
+    const controller = new AbortController();
+    openIpfsStoreMock.mockImplementation(() => {
+      controller.abort();
+      return new Promise(() => {});
+    });
+    const health = new GatewayHealth();
+
+    const error = await openDatasetFromCid("bafyabort", {
+      gateways: ["https://a.invalid", "https://b.invalid"],
+      gatewayHealth: health,
+      signal: controller.signal,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OperationAbortedError);
+    expect(error).toMatchObject({ phase: "open" });
+    expect(openIpfsStoreMock).toHaveBeenCalledTimes(1);
+    expect(health.score("https://a.invalid")).toBe(1);
+  });
+
+  it("times out a STAC server resolve and cancels its request", async () => {
+    const fetchMock = stubHangingFetch();
+
+    const error = await resolveCidFromStacServer(
+      "ecmwf_era5",
+      "temperature_2m",
+      undefined,
+      "https://stac.invalid",
+      { timeoutMs: 20 }
+    ).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ phase: "resolve", timedOut: true });
+    const init = fetchMock.mock.calls[0][1] as { signal: AbortSignal };
+    expect(init.signal.aborted).toBe(true);
+  });
+
+  it("aborts a pinned catalog walk instead of skipping documents", async () => {
+    stubHangingFetch();
+    const controller = new AbortController();
+    const loading = loadStacCatalog("https://walk-abort.test", "bafyroot-abort", {
+      signal: controller.signal,
+    });
+
+    controller.abort();
+    const error = await loading.catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OperationAbortedError);
+    expect(error).toMatchObject({ phase: "catalog", timedOut: false });
+  });
+});
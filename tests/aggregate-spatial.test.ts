@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { aggregateSpatial } from "../src/actions/aggregate-spatial.js";
+import { GeoTemporalDataset } from "../src/geotemporal-dataset.js";
+import { InvalidSelectionError } from "../src/errors.js";
+import type { DatasetMetadata } from "../src/types.js";
+
+const metadata: DatasetMetadata = {
+  dataset: "temperature_2m",
+  path: "ecmwf_era5-temperature_2m-finalized",
+  cid: "bafy-test",
+  source: "direct_cid",
+  fetchedAt: new Date("2024-01-01T00:00:00Z"),
+};
+
+// time x latitude x longitude; the 60°N row counts half as much as the equator.
+function createRegionalDataset(): Dataset {
+  const temperature = new DataArray(
+    [
+      [
+        [10, 10],
+        [20, 20],
+      ],
+      [
+        [30, NaN],
+        [0, 0],
+      ],
+    ],
+    {
+      dims: ["time", "latitude", "longitude"],
+      coords: {
+        time: [new Date("2024-01-01T00:00:00Z"), new Date("2024-01-02T00:00:00Z")],
+        latitude: [0, 60],
+        longitude: [10, 11],
+      },
+      attrs: { units: "celsius" },
+    }
+  );
+  return new Dataset({ temperature }, { attrs: { source: "ERA5" } });
+}
+
+describe("aggregateSpatial", () => {
+  it("computes a cos-lat weighted regional mean per time step", async () => {
+    const result = await aggregateSpatial(createRegionalDataset());
+    const temperature = result.getVariable("temperature");
+
+    expect(temperature.dims).toEqual(["time"]);
+    expect(temperature.data[0]).toBeCloseTo((10 * 2 + 20 * 2 * 0.5) / 3, 10);
+    expect(temperature.data[1]).toBeCloseTo(30 / 2, 10);
+    expect(temperature.attrs).toMatchObject({
+      units: "celsius",
+      cell_methods: "latitude: longitude: mean",
+    });
+    expect(result.attrs).toEqual({ source: "ERA5" });
+  });
+
+  it("supports unweighted reductions", async () => {
+    const result = await aggregateSpatial(createRegionalDataset(), {
+      method: "max",
+      weights: "none",
+    });
+
+    expect(result.getVariable("temperature").data).toEqual([20, 30]);
+  });
+
+  it("infers coordinate names through GeoTemporalDataset", async () => {
+    const dataset = new GeoTemporalDataset(createRegionalDataset(), metadata);
+
+    const series = await dataset.aggregateSpatial({ method: "sum", weights: "none" });
+    const weighted = await dataset.aggregateSpatial({ method: "sum" });
+
+    expect(series.coords.time).toHaveLength(2);
+    expect(series.getVariable("temperature").data).toEqual([60, 30]);
+    expect(weighted.getVariable("temperature").data).toEqual([60, 30]);
+  });
+
+  it("rejects datasets without spatial coordinates", async () => {
+    const dataset = new Dataset({
+      temperature: new DataArray([1, 2], { dims: ["time"], coords: { time: [0, 1] } }),
+    });
+
+    await expect(aggregateSpatial(dataset)).rejects.toThrow(InvalidSelectionError);
+  });
+});
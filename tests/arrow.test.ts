@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { RecordBatchReader, tableFromIPC, Type } from "apache-arrow";
+import { toArrow, toArrowStream } from "../src/export/index.js";
+import { InvalidSelectionError } from "../src/errors.js";
+
+const time = [
+  new Date(Date.UTC(2024, 0, 1)),
+  new Date(Date.UTC(2024, 0, 2)),
+  new Date(Date.UTC(2024, 0, 3)),
+];
+
+// time x station, with one missing value
+function createDataset(): Dataset {
+  const layout = { dims: ["time", "station"], coords: { time, station: ["Central Park", "JFK"] } };
+  return new Dataset({
+    precip: new DataArray(
+      [
+        [1.5, NaN],
+        [0, 2],
+        [3, 4],
+      ],
+      { ...layout, attrs: { units: "mm" } }
+    ),
+    tmax: new DataArray(
+      [
+        [10, 11],
+        [12, 13],
+        [14, 15],
+      ],
+      layout
+    ),
+  });
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+describe("toArrow", () => {
+  it("writes a long table with typed and dictionary-encoded columns", async () => {
+    const table = tableFromIPC(
+      await toArrow(createDataset(), { metadata: { source: "dClimate" } })
+    );
+
+    expect(
+      table.schema.fields.map(({ name, typeId, nullable }) => [name, typeId, nullable])
+    ).toEqual([
+      ["time", Type.Timestamp, false],
+      ["station", Type.Dictionary, false],
+      ["precip", Type.Float, true],
+      ["tmax", Type.Float, true],
+    ]);
+    expect(table.schema.fields[1].type.dictionary.typeId).toBe(Type.Utf8);
+    expect(Object.fromEntries(table.schema.fields[2].metadata)).toEqual({ units: "mm" });
+    expect(Object.fromEntries(table.schema.metadata)).toEqual({ source: "dClimate" });
+
+    expect(table.batches).toHaveLength(1);
+    expect(table.getChild("time")?.toArray().slice(0, 3)).toEqual(
+      BigInt64Array.of(
+        BigInt(Date.UTC(2024, 0, 1)),
+        BigInt(Date.UTC(2024, 0, 1)),
+        BigInt(Date.UTC(2024, 0, 2))
+      )
+    );
+    expect(table.getChild("station")?.toJSON()).toEqual([
+      "Central Park",
+      "JFK",
+      "Central Park",
+      "JFK",
+      "Central Park",
+      "JFK",
+    ]);
+    expect(table.getChild("precip")?.toJSON()).toEqual([1.5, null, 0, 2, 3, 4]);
+    expect(table.getChild("tmax")?.toJSON()).toEqual([10, 11, 12, 13, 14, 15]);
+  });
+
+  it("writes the file format with a footer", async () => {
+    const reader = RecordBatchReader.from(
+      await toArrow(createDataset(), { format: "file", variables: ["tmax"] })
+    ).open();
+
+    expect(reader.isFile()).toBe(true);
+    expect(reader.isFile() && reader.numRecordBatches).toBe(1);
+    const table = tableFromIPC(reader);
+    expect(table.schema.fields.map((field) => field.name)).toEqual(["time", "station", "tmax"]);
+    expect(table.getChild("tmax")?.toJSON()).toEqual([10, 11, 12, 13, 14, 15]);
+  });
+
+  it("streams one record batch per chunk along time", async () => {
+    const bytes = await readStream(
+      toArrowStream(createDataset(), { chunkSize: 2, valueType: "float32" })
+    );
+    const reader = RecordBatchReader.from(bytes);
+    const batches = [...reader];
+
+    expect(reader.isStream()).toBe(true);
+    expect(batches.map((batch) => batch.getChild("precip")?.toJSON())).toEqual([
+      [1.5, null, 0, 2],
+      [3, 4],
+    ]);
+    expect(batches[0].schema.fields[2].type.precision).toBe(1);
+    expect(batches[1].getChild("time")?.toJSON()).toEqual([
+      Date.UTC(2024, 0, 3),
+      Date.UTC(2024, 0, 3),
+    ]);
+    expect(batches[1].getChild("station")?.toJSON()).toEqual(["Central Park", "JFK"]);
+  });
+
+  it("rejects missing variables and unknown formats", async () => {
+    await expect(toArrow(createDataset(), { variables: ["wind"] })).rejects.toThrow(
+      InvalidSelectionError
+    );
+    await expect(
+      toArrow(createDataset(), { format: "feather" as "file" })
+    ).rejects.toThrow(InvalidSelectionError);
+  });
+});
@@ -0,0 +1,242 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadStacCatalog, type StacCatalog } from "../src/stac/stac-catalog.js";
+import {
+  FileSystemCatalogCacheStore,
+  IndexedDbCatalogCacheStore,
+  type CatalogCacheEntry,
+  type CatalogCacheStore,
+} from "../src/stac/catalog-cache.js";
+import { calledUrls, stubCatalogFetch } from "./helpers/stac-catalog-fixture.js";
+
+class MemoryStore implements CatalogCacheStore {
+  readonly entries = new Map<string, CatalogCacheEntry>();
+
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CatalogCacheEntry) {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+function storedCatalog(rootCid: string): StacCatalog {
+  return {
+    type: "Catalog",
+    stac_version: "1.0.0",
+    id: "dclimate",
+    links: [],
+    collections: [],
+    rootCid,
+  };
+}
+
+describe("FileSystemCatalogCacheStore", () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (directory) await rm(directory, { recursive: true, force: true });
+  });
+
+  it("round-trips entries and treats missing keys as misses", async () => {
+    directory = await mkdtemp(join(tmpdir(), "dclimate-cache-"));
+    const store = new FileSystemCatalogCacheStore(join(directory, "nested"));
+    const entry: CatalogCacheEntry = {
+      catalog: storedCatalog("bafyroot-fs"),
+      timestamp: 1700000000000,
+      rootCid: "bafyroot-fs",
+    };
+
+    expect(await store.get("stac:latest:https://gateway.test")).toBeUndefined();
+
+    await store.set("stac:latest:https://gateway.test", entry);
+    expect(await store.get("stac:latest:https://gateway.test")).toEqual(entry);
+
+    await store.delete("stac:latest:https://gateway.test");
+    expect(await store.get("stac:latest:https://gateway.test")).toBeUndefined();
+  });
+
+  it("keeps concurrent writes to the same key apart", async () => {
+    directory = await mkdtemp(join(tmpdir(), "dclimate-cache-"));
+    const store = new FileSystemCatalogCacheStore(directory);
+    const entries = ["bafyroot-a", "bafyroot-b", "bafyroot-c"].map((rootCid) => ({
+      catalog: storedCatalog(rootCid),
+      timestamp: 1700000000000,
+      rootCid,
+    }));
+    vi.spyOn(Date, "now").mockReturnValue(1700000000000);
+
+    await Promise.all(entries.map((entry) => store.set("latest", entry)));
+
+    expect(entries).toContainEqual(await store.get("latest"));
+  });
+});
+
+describe("IndexedDbCatalogCacheStore", () => {
+  interface FakeTransaction {
+    error: DOMException | null;
+    objectStore: () => { put: () => { result: undefined; error: null } };
+    oncomplete?: () => void;
+    onerror?: () => void;
+    onabort?: () => void;
+  }
+
+  // Transactions are handed to the test, which decides when they finish.
+  // `firstOpen` makes the first open fail with an error or a blocked upgrade.
+  function stubIndexedDb(firstOpen?: "error" | "blocked"): FakeTransaction[] {
+    const transactions: FakeTransaction[] = [];
+    const db = {
+      objectStoreNames: { contains: () => true },
+      transaction: () => {
+        const transaction: FakeTransaction = {
+          error: null,
+          objectStore: () => ({ put: () => ({ result: undefined, error: null }) }),
+        };
+        transactions.push(transaction);
+        return transaction;
+      },
+    };
+    let opens = 0;
+    vi.stubGlobal("indexedDB", {
+      open: () => {
+        const open: {
+          result: unknown;
+          error: DOMException | null;
+          onsuccess?: () => void;
+          onerror?: () => void;
+          onblocked?: () => void;
+        } = { result: db, error: null };
+        const outcome = opens++ === 0 ? firstOpen : undefined;
+        if (outcome === "error") {
+          open.error = new DOMException("Database unavailable", "InvalidStateError");
+          queueMicrotask(() => open.onerror?.());
+        } else if (outcome === "blocked") {
+          queueMicrotask(() => open.onblocked?.());
+        } else {
+          queueMicrotask(() => open.onsuccess?.());
+        }
+        return open;
+      },
+    });
+    return transactions;
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("resolves a write once its transaction commits and rejects an aborted one", async () => {
+    const transactions = stubIndexedDb();
+    const store = new IndexedDbCatalogCacheStore();
+    const entry = { catalog: storedCatalog("bafy-root"), timestamp: 0, rootCid: "bafy-root" };
+
+    let written = false;
+    const write = store.set("latest", entry).then(() => {
+      written = true;
+    });
+    await vi.waitFor(() => expect(transactions).toHaveLength(1));
+    await Promise.resolve();
+    expect(written).toBe(false);
+    transactions[0].oncomplete?.();
+    await write;
+    expect(written).toBe(true);
+
+    const failed = store.set("latest", entry);
+    await vi.waitFor(() => expect(transactions).toHaveLength(2));
+    transactions[1].error = new DOMException("Quota exceeded", "QuotaExceededError");
+    transactions[1].onabort?.();
+    await expect(failed).rejects.toThrow("Quota exceeded");
+  });
+
+  it.each([
+    ["error", "Database unavailable"],
+    ["blocked", "blocked by another open connection"],
+  ] as const)("opens the database again after a failed open (%s)", async (outcome, message) => {
+    const transactions = stubIndexedDb(outcome);
+    const store = new IndexedDbCatalogCacheStore();
+    const entry = { catalog: storedCatalog("bafy-root"), timestamp: 0, rootCid: "bafy-root" };
+
+    await expect(store.set("latest", entry)).rejects.toThrow(message);
+
+    const write = store.set("latest", entry);
+    await vi.waitFor(() => expect(transactions).toHaveLength(1));
+    transactions[0].oncomplete?.();
+    await expect(write).resolves.toBeUndefined();
+  });
+});
+
+describe("loadStacCatalog with a persistent cache store", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("serves a fresh stored catalog on cold start without any requests", async () => {
+    const gatewayUrl = "https://cold-fresh.test";
+    const fetchMock = stubCatalogFetch(["bafyroot-new"], gatewayUrl);
+    const store = new MemoryStore();
+    const stored = storedCatalog("bafyroot-stored");
+    await store.set(`stac:latest:${gatewayUrl}`, {
+      catalog: stored,
+      timestamp: Date.now(),
+      rootCid: "bafyroot-stored",
+    });
+
+    const catalog = await loadStacCatalog(gatewayUrl, undefined, {
+      cacheStore: store,
+    });
+
+    expect(catalog).toEqual(stored);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("serves a stale catalog at once and refreshes it in the background", async () => {
+    const gatewayUrl = "https://cold-stale.test";
+    const fetchMock = stubCatalogFetch(["bafyroot-fresh"], gatewayUrl);
+    const store = new MemoryStore();
+    await store.set(`stac:latest:${gatewayUrl}`, {
+      catalog: storedCatalog("bafyroot-stale"),
+      timestamp: Date.now() - 2 * 3600000,
+      rootCid: "bafyroot-stale",
+    });
+
+    const stale = await loadStacCatalog(gatewayUrl, undefined, {
+      cacheStore: store,
+    });
+    expect(stale.rootCid).toBe("bafyroot-stale");
+
+    await vi.waitFor(() => {
+      expect(store.entries.get(`stac:latest:${gatewayUrl}`)?.rootCid).toBe(
+        "bafyroot-fresh"
+      );
+    });
+    expect(calledUrls(fetchMock).some((url) => url.endsWith("/stac"))).toBe(true);
+
+    const fresh = await loadStacCatalog(gatewayUrl, undefined, {
+      cacheStore: store,
+    });
+    expect(fresh.rootCid).toBe("bafyroot-fresh");
+    expect(fresh.collections?.map((c) => c.id)).toEqual(["ecmwf_era5"]);
+  });
+
+  it("persists pinned catalogs under their root CID", async () => {
+    const gatewayUrl = "https://pinned-store.test";
+    stubCatalogFetch(["bafyroot-persisted"], gatewayUrl);
+    const store = new MemoryStore();
+
+    await loadStacCatalog(gatewayUrl, "bafyroot-persisted", {
+      cacheStore: store,
+    });
+
+    expect(store.entries.get("stac:bafyroot-persisted")?.catalog.rootCid).toBe(
+      "bafyroot-persisted"
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DClimateClient } from "../src/client.js";
+import { loadStacCatalog } from "../src/stac/stac-catalog.js";
+import {
+  GATEWAY,
+  calledUrls,
+  stubCatalogFetch,
+} from "./helpers/stac-catalog-fixture.js";
+
+const openDatasetFromCidMock = vi.hoisted(() => vi.fn());
+
+vi.mock("@dclimate/jaxray", () => ({
+  Dataset: class {},
+  DataArray: class {},
+  createIpfsElements: vi.fn((gatewayUrl: string) => ({ gatewayUrl })),
+}));
+
+vi.mock("../src/ipfs/open-dataset.js", () => ({
+  openDatasetFromCid: openDatasetFromCidMock,
+  default: openDatasetFromCidMock,
+}));
+
+describe("pinned catalog root CID", () => {
+  beforeEach(() => {
+    openDatasetFromCidMock.mockReset();
+    openDatasetFromCidMock.mockResolvedValue({ attrs: {} });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("loads a pinned catalog without the /stac discovery endpoint", async () => {
+    const fetchMock = stubCatalogFetch(["bafyroot-pinned-a"]);
+
+    const catalog = await loadStacCatalog(GATEWAY, "bafyroot-pinned-a");
+
+    expect(catalog.rootCid).toBe("bafyroot-pinned-a");
+    expect(catalog.collections?.map((c) => c.id)).toEqual(["ecmwf_era5"]);
+    expect(calledUrls(fetchMock).some((url) => url.endsWith("/stac"))).toBe(false);
+  });
+
+  it("caches catalogs per root CID", async () => {
+    const fetchMock = stubCatalogFetch(["bafyroot-cache-a", "bafyroot-cache-b"]);
+
+    const first = await loadStacCatalog(GATEWAY, "bafyroot-cache-a");
+    const second = await loadStacCatalog(GATEWAY, "bafyroot-cache-b");
+    const again = await loadStacCatalog(GATEWAY, "bafyroot-cache-a");
+
+    expect(first.rootCid).toBe("bafyroot-cache-a");
+    expect(second.rootCid).toBe("bafyroot-cache-b");
+    expect(again).toBe(first);
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+  });
+
+  it("resolves datasets against the client's pinned root and records it in metadata", async () => {
+    const fetchMock = stubCatalogFetch(["bafyroot-client"]);
+    const client = new DClimateClient({
+      gatewayUrl: GATEWAY,
+      catalogRootCid: "bafyroot-client",
+    });
+
+    const [, metadata] = await client.loadDataset({
+      request: {
+        organization: "ecmwf",
+        collection: "era5",
+        dataset: "temperature_2m",
+        variant: "finalized",
+      },
+    });
+
+    expect(metadata.cid).toBe("bafy-data-bafyroot-client");
+    expect(metadata.catalogRootCid).toBe("bafyroot-client");
+    const urls = calledUrls(fetchMock);
+    expect(urls.some((url) => url.endsWith("/stac"))).toBe(false);
+    expect(urls.some((url) => url.includes("api.stac.dclimate.net"))).toBe(false);
+  });
+
+  it("lets a per-load root CID override the client option", async () => {
+    stubCatalogFetch(["bafyroot-default", "bafyroot-override"]);
+    const client = new DClimateClient({
+      gatewayUrl: GATEWAY,
+      catalogRootCid: "bafyroot-default",
+    });
+
+    const [, metadata] = await client.loadDataset({
+      request: {
+        organization: "ecmwf",
+        collection: "era5",
+        dataset: "temperature_2m",
+        variant: "finalized",
+      },
+      options: { catalogRootCid: "bafyroot-override" },
+    });
+
+    expect(metadata.cid).toBe("bafy-data-bafyroot-override");
+    expect(metadata.catalogRootCid).toBe("bafyroot-override");
+  });
+});
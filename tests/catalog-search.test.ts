@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { searchDatasetCatalog } from "../src/stac/catalog-search.js";
+import type { DatasetCatalog } from "../src/stac/stac-catalog.js";
+
+const catalog: DatasetCatalog = [
+  {
+    collection: "era5",
+    organization: "ecmwf",
+    title: "ERA5 Reanalysis",
+    category: "reanalysis",
+    datasets: [
+      {
+        dataset: "temperature_2m",
+        variants: [
+          {
+            variant: "finalized",
+            cid: "bafy-era5-temp",
+            spatialExtent: { bbox: [-180, -90, 180, 90] },
+            temporalExtent: { start: "1950-01-01T00:00:00Z", end: "2024-01-01T00:00:00Z" },
+          },
+        ],
+      },
+      {
+        dataset: "total_precipitation",
+        variants: [
+          {
+            variant: "finalized",
+            cid: "bafy-era5-precip",
+            spatialExtent: { bbox: [-180, -90, 180, 90] },
+            temporalExtent: { start: "1950-01-01T00:00:00Z", end: null },
+          },
+        ],
+      },
+    ],
+  },
+  {
+    collection: "prism",
+    organization: "prism",
+    title: "PRISM Climate Data",
+    category: "observations",
+    datasets: [
+      {
+        dataset: "precipitation",
+        variants: [
+          {
+            variant: "daily",
+            cid: "bafy-prism-precip",
+            spatialExtent: { bbox: [-125, 24, -66, 50] },
+            temporalExtent: { start: "1981-01-01T00:00:00Z", end: "2023-12-31T00:00:00Z" },
+          },
+        ],
+      },
+    ],
+  },
+  {
+    collection: "pacific",
+    organization: "noaa",
+    datasets: [
+      {
+        dataset: "sea_surface_temperature",
+        variants: [
+          {
+            variant: "default",
+            // Crosses the antimeridian.
+            spatialExtent: { bbox: [150, -30, -150, 30] },
+          },
+        ],
+      },
+    ],
+  },
+];
+
+function ids(matches: ReturnType<typeof searchDatasetCatalog>) {
+  return matches.map(({ collection, dataset }) => `${collection}/${dataset}`);
+}
+
+describe("searchDatasetCatalog", () => {
+  it("finds datasets covering a point and skips ones outside it", () => {
+    const matches = searchDatasetCatalog(catalog, {
+      point: { latitude: 40.7, longitude: -74 },
+    });
+
+    expect(ids(matches)).toEqual([
+      "era5/temperature_2m",
+      "era5/total_precipitation",
+      "prism/precipitation",
+    ]);
+    expect(matches[0].reasons).toEqual([
+      { criterion: "point", score: 1, message: "Covers (40.7, -74)" },
+    ]);
+  });
+
+  it("ranks by how much of the requested area and time window is covered", () => {
+    const matches = searchDatasetCatalog(catalog, {
+      bbox: [-130, 20, -60, 50],
+      timeRange: { start: "1970-01-01", end: "2000-01-01" },
+      text: "precip",
+    });
+
+    expect(ids(matches)).toEqual(["era5/total_precipitation", "prism/precipitation"]);
+    const prism = matches[1];
+    expect(prism.cid).toBe("bafy-prism-precip");
+    expect(prism.reasons.map((reason) => reason.criterion)).toEqual([
+      "bbox",
+      "timeRange",
+      "text",
+    ]);
+    expect(prism.reasons[0].score).toBeLessThan(1);
+    expect(prism.reasons[1].message).toBe("Covers 63% of the requested time window");
+  });
+
+  it("matches bounding boxes across the antimeridian", () => {
+    const matches = searchDatasetCatalog(catalog, {
+      bbox: [170, -10, 190, 10],
+      organization: "NOAA",
+    });
+
+    expect(ids(matches)).toEqual(["pacific/sea_surface_temperature"]);
+    expect(matches[0].reasons.map((reason) => reason.criterion)).toEqual([
+      "organization",
+      "bbox",
+    ]);
+    expect(matches[0].reasons[1].score).toBe(1);
+  });
+
+  it("requires every keyword and prefers dataset-name matches", () => {
+    expect(searchDatasetCatalog(catalog, { text: "temperature era5" }).length).toBe(1);
+    expect(searchDatasetCatalog(catalog, { text: "temperature humidity" })).toEqual([]);
+
+    const matches = searchDatasetCatalog(catalog, { text: "temperature" });
+    expect(ids(matches)).toEqual([
+      "era5/temperature_2m",
+      "pacific/sea_surface_temperature",
+    ]);
+  });
+
+  it("filters by category and leaves out variants without extents", () => {
+    expect(
+      ids(searchDatasetCatalog(catalog, { category: "observations" }))
+    ).toEqual(["prism/precipitation"]);
+    expect(
+      ids(
+        searchDatasetCatalog(catalog, {
+          timeRange: { start: "2020-01-01", end: "2021-01-01" },
+          organization: "noaa",
+        })
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadStacCatalog } from "../src/stac/stac-catalog.js";
+
+/**
+ * Catalog tree with two organizations, two collections each and three items
+ * per collection. Later siblings respond faster than earlier ones, so a walk
+ * that appended results in completion order would come out reversed.
+ */
+function buildTree(gatewayUrl: string, rootCid: string) {
+  const documents: Record<string, unknown> = {};
+  const delays: Record<string, number> = {};
+  const orgIds = ["ecmwf", "noaa"];
+
+  documents[`${gatewayUrl}/ipfs/${rootCid}`] = {
+    type: "Catalog",
+    stac_version: "1.0.0",
+    id: "root",
+    links: orgIds.map((orgId) => ({
+      rel: "child",
+      href: `ipfs://${orgId}`,
+      "dclimate:id": orgId,
+    })),
+  };
+
+  orgIds.forEach((orgId, orgIndex) => {
+    const collectionIds = [`${orgId}_a`, `${orgId}_b`];
+    documents[`${gatewayUrl}/ipfs/${orgId}`] = {
+      type: "Catalog",
+      stac_version: "1.0.0",
+      id: orgId,
+      links: collectionIds.map((id) => ({ rel: "child", href: `ipfs://${id}` })),
+    };
+    delays[`${gatewayUrl}/ipfs/${orgId}`] = (orgIds.length - orgIndex) * 5;
+
+    collectionIds.forEach((collectionId, collectionIndex) => {
+      const itemIds = [1, 2, 3].map((n) => `${collectionId}-dataset${n}-default`);
+      documents[`${gatewayUrl}/ipfs/${collectionId}`] = {
+        type: "Collection",
+        stac_version: "1.0.0",
+        id: collectionId,
+        links: itemIds.map((id) => ({ rel: "item", href: `ipfs://${id}` })),
+      };
+      delays[`${gatewayUrl}/ipfs/${collectionId}`] =
+        (collectionIds.length - collectionIndex) * 5;
+
+      itemIds.forEach((itemId, itemIndex) => {
+        documents[`${gatewayUrl}/ipfs/${itemId}`] = {
+          type: "Feature",
+          stac_version: "1.0.0",
+          id: itemId,
+          properties: {},
+          geometry: null,
+          assets: { data: { href: `ipfs://bafy-${itemId}` } },
+          links: [],
+        };
+        delays[`${gatewayUrl}/ipfs/${itemId}`] = (itemIds.length - itemIndex) * 5;
+      });
+    });
+  });
+
+  return { documents, delays };
+}
+
+function stubTreeFetch(
+  gatewayUrl: string,
+  rootCid: string,
+  hang: string[] = []
+) {
+  const { documents, delays } = buildTree(gatewayUrl, rootCid);
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const fetchMock = vi.fn(
+    async (url: string, init?: { signal?: AbortSignal }) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      try {
+        await new Promise<void>((resolve, reject) => {
+          if (hang.includes(url)) {
+            init?.signal?.addEventListener("abort", () =>
+              reject(new Error("aborted"))
+            );
+            return;
+          }
+          setTimeout(resolve, delays[url] ?? 0);
+        });
+      } finally {
+        inFlight--;
+      }
+      const body = documents[url];
+      if (!body) return { ok: false, status: 404, statusText: "Not Found" };
+      return { ok: true, json: async () => structuredClone(body) };
+    }
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return { fetchMock, maxInFlight: () => maxInFlight };
+}
+
+describe("loadStacCatalog walk", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps link order for organizations, collections and items", async () => {
+    const gatewayUrl = "https://walk-order.test";
+    stubTreeFetch(gatewayUrl, "bafyroot-order");
+
+    const catalog = await loadStacCatalog(gatewayUrl, "bafyroot-order");
+
+    expect(catalog.organizations?.map((org) => org.id)).toEqual(["ecmwf", "noaa"]);
+    expect(catalog.collections?.map((c) => c.id)).toEqual([
+      "ecmwf_a",
+      "ecmwf_b",
+      "noaa_a",
+      "noaa_b",
+    ]);
+    expect(catalog.collections?.[0].items?.map((item) => item.id)).toEqual([
+      "ecmwf_a-dataset1-default",
+      "ecmwf_a-dataset2-default",
+      "ecmwf_a-dataset3-default",
+    ]);
+    expect(catalog.collections?.[3].organizationId).toBe("noaa");
+  });
+
+  it("never exceeds the configured concurrency", async () => {
+    const gatewayUrl = "https://walk-limit.test";
+    const { fetchMock, maxInFlight } = stubTreeFetch(gatewayUrl, "bafyroot-limit");
+
+    await loadStacCatalog(gatewayUrl, "bafyroot-limit", { concurrency: 3 });
+
+    // root + 2 orgs + 4 collections + 12 items
+    expect(fetchMock).toHaveBeenCalledTimes(19);
+    expect(maxInFlight()).toBe(3);
+  });
+
+  it("skips documents that exceed the request timeout", async () => {
+    const gatewayUrl = "https://walk-timeout.test";
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    stubTreeFetch(gatewayUrl, "bafyroot-timeout", [
+      `${gatewayUrl}/ipfs/noaa_b-dataset2-default`,
+    ]);
+
+    const catalog = await loadStacCatalog(gatewayUrl, "bafyroot-timeout", {
+      requestTimeoutMs: 50,
+    });
+
+    const noaaB = catalog.collections?.find((c) => c.id === "noaa_b");
+    expect(noaaB?.items?.map((item) => item.id)).toEqual([
+      "noaa_b-dataset1-default",
+      "noaa_b-dataset3-default",
+    ]);
+  });
+});
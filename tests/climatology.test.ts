@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { anomaly, climatology } from "../src/actions/climatology.js";
+import { InvalidSelectionError } from "../src/errors.js";
+import { GeoTemporalDataset } from "../src/geotemporal-dataset.js";
+import type { DatasetMetadata } from "../src/types.js";
+
+const metadata: DatasetMetadata = {
+  dataset: "precipitation",
+  path: "chirps-precipitation-final",
+  cid: "bafy-test",
+  source: "direct_cid",
+  fetchedAt: new Date("2024-01-01T00:00:00Z"),
+};
+
+// Monthly values at one cell: two baseline years, then 2024
+const months = [
+  "2022-01-15T00:00:00Z",
+  "2022-02-15T00:00:00Z",
+  "2023-01-15T00:00:00Z",
+  "2023-02-15T00:00:00Z",
+  "2024-01-15T00:00:00Z",
+  "2024-02-15T00:00:00Z",
+];
+
+function createPrecipitationDataset(): Dataset {
+  const precipitation = new DataArray(
+    [[[10]], [[40]], [[30]], [[NaN]], [[30]], [[20]]],
+    {
+      dims: ["time", "latitude", "longitude"],
+      coords: { time: months.map((month) => new Date(month)), latitude: [0], longitude: [10] },
+      attrs: { units: "mm" },
+    }
+  );
+  return new Dataset({ precipitation }, { attrs: { source: "CHIRPS" } });
+}
+
+const baseline = { start: "2022-01-01T00:00:00Z", end: "2023-12-31T00:00:00Z" };
+
+describe("climatology", () => {
+  it("averages the baseline per month, skipping NaNs", async () => {
+    const normals = await climatology(createPrecipitationDataset(), {
+      baseline,
+      groupBy: "month",
+    });
+    const precipitation = normals.getVariable("precipitation");
+
+    expect(precipitation.dims).toEqual(["month", "latitude", "longitude"]);
+    expect(precipitation.coords.month).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    expect(precipitation.data[0][0][0]).toBe(20);
+    expect(precipitation.data[1][0][0]).toBe(40);
+    expect(precipitation.data[2][0][0]).toBeNaN();
+    expect(precipitation.attrs).toMatchObject({
+      units: "mm",
+      climatology_baseline: "2022-01-01T00:00:00.000Z/2023-12-31T00:00:00.000Z",
+    });
+    expect(normals.attrs).toEqual({ source: "CHIRPS" });
+  });
+
+  it("rejects a baseline without data", async () => {
+    await expect(
+      climatology(createPrecipitationDataset(), {
+        baseline: { start: "1990-01-01", end: "1991-01-01" },
+        groupBy: "season",
+      })
+    ).rejects.toThrow(InvalidSelectionError);
+  });
+});
+
+describe("anomaly", () => {
+  it("returns absolute and percent departures from normal", async () => {
+    const dataset = createPrecipitationDataset();
+    const normals = await climatology(dataset, { baseline, groupBy: "month" });
+
+    const departures = await anomaly(dataset, normals);
+    const absolute = departures.getVariable("precipitation");
+    const percent = (await anomaly(dataset, normals, { mode: "percent" })).getVariable(
+      "precipitation"
+    );
+
+    expect(absolute.data.map((step: number[][]) => step[0][0]).slice(4)).toEqual([10, -20]);
+    expect(percent.data.map((step: number[][]) => step[0][0]).slice(4)).toEqual([50, -50]);
+    expect(percent.attrs).toMatchObject({ units: "%", anomaly: "percent" });
+    expect(departures.attrs).toEqual({ source: "CHIRPS" });
+  });
+
+  it("rejects climatologies on another grid", async () => {
+    const dataset = createPrecipitationDataset();
+    const otherGrid = new Dataset({
+      precipitation: new DataArray([[[1, 2]]], {
+        dims: ["month", "latitude", "longitude"],
+        coords: { month: [1], latitude: [0], longitude: [10, 11] },
+      }),
+    });
+
+    await expect(anomaly(dataset, otherGrid)).rejects.toThrow(InvalidSelectionError);
+  });
+});
+
+describe("GeoTemporalDataset climatology", () => {
+  it("compares a target period with normals from another dataset", async () => {
+    const history = new GeoTemporalDataset(createPrecipitationDataset(), metadata);
+    const target = new GeoTemporalDataset(
+      await createPrecipitationDataset().isel({ time: [4, 5] }),
+      { ...metadata, variant: "preliminary" }
+    );
+
+    const normals = await history.climatology({ baseline, groupBy: "month" });
+    const departures = await target.anomaly({ climatology: normals });
+
+    expect(
+      departures.getVariable("precipitation").data.map((step: number[][]) => step[0][0])
+    ).toEqual([10, -20]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { toCSV, toCSVStream } from "../src/export/index.js";
+import { InvalidSelectionError } from "../src/errors.js";
+
+// time x latitude: two days at two latitudes, with one missing value
+function createDataset(): Dataset {
+  const grid = {
+    dims: ["time", "latitude"],
+    coords: {
+      time: [new Date(Date.UTC(2024, 0, 1)), new Date(Date.UTC(2024, 0, 2))],
+      latitude: [40.25, 40.5],
+    },
+  };
+  return new Dataset({
+    precip: new DataArray(
+      [
+        [1.234, NaN],
+        [0, 12.5],
+      ],
+      grid
+    ),
+    station: new DataArray(
+      [
+        [1, 2],
+        [3, 4],
+      ],
+      grid
+    ),
+  });
+}
+
+describe("toCSV", () => {
+  it("writes one row per cell and time step", async () => {
+    const csv = await toCSV(createDataset());
+
+    expect(csv).toBe(
+      [
+        "time,latitude,precip,station",
+        "2024-01-01T00:00:00.000Z,40.25,1.234,1",
+        "2024-01-01T00:00:00.000Z,40.5,,2",
+        "2024-01-02T00:00:00.000Z,40.25,0,3",
+        "2024-01-02T00:00:00.000Z,40.5,12.5,4",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("applies variables, precision, time format and delimiter", async () => {
+    const csv = await toCSV(createDataset(), {
+      variables: ["precip"],
+      precision: 1,
+      timeFormat: "date",
+      delimiter: ";",
+    });
+
+    expect(csv.split("\n").slice(0, 2)).toEqual(["time;latitude;precip", "2024-01-01;40.25;1.2"]);
+  });
+
+  it("rejects unknown variables and time formats", async () => {
+    await expect(toCSV(createDataset(), { variables: ["tmax"] })).rejects.toThrow(
+      InvalidSelectionError
+    );
+    await expect(
+      toCSV(createDataset(), { timeFormat: "julian" as "iso" })
+    ).rejects.toThrow(InvalidSelectionError);
+  });
+});
+
+describe("toCSVStream", () => {
+  it("streams the same CSV, one time chunk at a time", async () => {
+    const dataset = createDataset();
+    const isel = vi.spyOn(dataset, "isel");
+
+    const streamed = await new Response(toCSVStream(dataset, { chunkSize: 1 })).text();
+
+    expect(streamed).toBe(await toCSV(dataset));
+    expect(isel).toHaveBeenCalledTimes(2);
+    expect(isel).toHaveBeenLastCalledWith({ time: [1] });
+  });
+});
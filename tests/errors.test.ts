@@ -0,0 +1,199 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  DClimateClientError,
+  DatasetNotFoundError,
+  StacCatalogError,
+  StacLoadError,
+  StacResolutionError,
+  StacServerError,
+} from "../src/errors.js";
+import { classifyRetrievalError } from "../src/instrumentation.js";
+import {
+  getRootCatalogCid,
+  resolveDatasetFromStac,
+  type StacCatalog,
+} from "../src/stac/stac-catalog.js";
+import { resolveCidFromStacServer } from "../src/stac/stac-server.js";
+
+vi.mock("@dclimate/jaxray", () => ({}));
+
+function catalogWithVariants(...variants: string[]): StacCatalog {
+  return {
+    type: "Catalog",
+    stac_version: "1.0.0",
+    id: "dclimate",
+    links: [],
+    collections: [
+      {
+        type: "Collection",
+        stac_version: "1.0.0",
+        id: "ecmwf_era5",
+        organizationId: "ecmwf",
+        links: [],
+        items: variants.map((variant) => ({
+          type: "Feature",
+          stac_version: "1.0.0",
+          id: `ecmwf_era5-temperature_2m-${variant}`,
+          properties: {},
+          geometry: null,
+          assets: { data: { href: `ipfs://bafy-${variant}` } },
+          links: [],
+        })),
+      },
+    ],
+  } as StacCatalog;
+}
+
+describe("error hierarchy", () => {
+  it("roots every error at DClimateClientError", () => {
+    const error = new StacResolutionError("missing");
+
+    expect(error).toBeInstanceOf(StacCatalogError);
+    expect(error).toBeInstanceOf(DClimateClientError);
+    expect(error).toMatchObject({
+      name: "StacResolutionError",
+      code: "DATASET_NOT_FOUND",
+      retriable: false,
+      context: {},
+    });
+  });
+
+  it("keeps the (message, cause) constructor of catalog errors", () => {
+    const cause = new Error("offline");
+
+    expect(new StacCatalogError("failed", cause)).toMatchObject({ cause, code: "UNKNOWN" });
+    expect(new StacLoadError("failed", cause)).toMatchObject({
+      cause,
+      code: "CATALOG_LOAD_FAILED",
+      retriable: true,
+    });
+  });
+
+  it("treats server errors and rate limiting as retriable, client errors not", () => {
+    const status = (status?: number) =>
+      new StacServerError("failed", { context: { status } }).retriable;
+
+    expect(status(503)).toBe(true);
+    expect(status(429)).toBe(true);
+    expect(status(undefined)).toBe(true);
+    expect(status(400)).toBe(false);
+    expect(status(404)).toBe(false);
+  });
+});
+
+describe("coded failures", () => {
+  it("reports an ambiguous variant with its catalog context", () => {
+    const catalog = catalogWithVariants("ensemble", "deterministic");
+
+    let error: unknown;
+    try {
+      resolveDatasetFromStac(catalog, "ecmwf_era5", "temperature_2m", undefined, "ecmwf");
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(StacResolutionError);
+    expect(error).toMatchObject({
+      code: "VARIANT_AMBIGUOUS",
+      retriable: false,
+      context: {
+        organization: "ecmwf",
+        collection: "ecmwf_era5",
+        dataset: "temperature_2m",
+      },
+    });
+  });
+
+  it("carries the HTTP status of a failing STAC server", async () => {
+    const fetchMock = vi.fn(
+      async () => new Response("unavailable", { status: 503, statusText: "Service Unavailable" })
+    );
+
+    const error = await resolveCidFromStacServer(
+      "ecmwf_era5",
+      "temperature_2m",
+      undefined,
+      "https://stac.test",
+      { fetch: fetchMock }
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(StacServerError);
+    expect(error).toMatchObject({
+      code: "STAC_SERVER_ERROR",
+      retriable: true,
+      context: { status: 503 },
+    });
+  });
+
+  it("reports a missing server variant as VARIANT_NOT_FOUND", async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            id: "ecmwf_era5-temperature_2m-finalized",
+            collection: "ecmwf_era5",
+            properties: { "dclimate:variant": "finalized" },
+            assets: { data: { href: "ipfs://bafy-finalized" } },
+          },
+        ],
+      })
+    );
+
+    const error = await resolveCidFromStacServer(
+      "ecmwf_era5",
+      "temperature_2m",
+      "ensemble",
+      "https://stac.test",
+      { fetch: fetchMock }
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DatasetNotFoundError);
+    expect(error).toMatchObject({
+      code: "VARIANT_NOT_FOUND",
+      context: { collection: "ecmwf_era5", dataset: "temperature_2m", variant: "ensemble" },
+    });
+  });
+
+  it("classifies network failures as connection errors", async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError("fetch failed");
+    });
+
+    const error = await getRootCatalogCid({
+      url: "https://root.test/stac",
+      fetch: fetchMock,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(StacCatalogError);
+    expect(error).toMatchObject({
+      code: "NETWORK_ERROR",
+      retriable: true,
+      context: { url: "https://root.test/stac" },
+    });
+    expect(classifyRetrievalError(error)).toBe("connection_error");
+  });
+
+  it("times out a root CID request that never answers", async () => {
+    const fetchMock = vi.fn(
+      (_url: string, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+        })
+    );
+
+    const error = await getRootCatalogCid({
+      url: "https://root.test/stac",
+      fetch: fetchMock,
+      timeoutMs: 10,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(StacCatalogError);
+    expect(error).toMatchObject({
+      code: "TIMEOUT",
+      retriable: true,
+      context: { url: "https://root.test/stac" },
+    });
+  });
+});
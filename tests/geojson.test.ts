@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { toGeoJSON } from "../src/export/index.js";
+import { InvalidSelectionError } from "../src/errors.js";
+
+const time = [new Date(Date.UTC(2024, 0, 1)), new Date(Date.UTC(2024, 0, 2))];
+
+// time x latitude x longitude on a 0–360 grid
+function createGridDataset(): Dataset {
+  return new Dataset({
+    precip: new DataArray(
+      [
+        [
+          [1, 2],
+          [3, NaN],
+        ],
+        [
+          [5, 6],
+          [7, 8],
+        ],
+      ],
+      {
+        dims: ["time", "latitude", "longitude"],
+        coords: { time, latitude: [10, 11], longitude: [359, 360] },
+      }
+    ),
+  });
+}
+
+describe("toGeoJSON", () => {
+  it("writes one point feature per cell with time series properties", async () => {
+    const { features } = await toGeoJSON(createGridDataset());
+
+    expect(features).toHaveLength(4);
+    expect(features[0].geometry).toEqual({ type: "Point", coordinates: [-1, 10] });
+    expect(features[1].geometry).toEqual({ type: "Point", coordinates: [0, 10] });
+    expect(features[3].properties).toEqual({
+      time: ["2024-01-01T00:00:00.000Z", "2024-01-02T00:00:00.000Z"],
+      precip: [null, 8],
+    });
+  });
+
+  it("writes cell polygons with inferred bounds", async () => {
+    const { features } = await toGeoJSON(createGridDataset(), { geometry: "cell" });
+
+    expect(features[0].geometry).toEqual({
+      type: "Polygon",
+      coordinates: [
+        [
+          [-1.5, 9.5],
+          [-0.5, 9.5],
+          [-0.5, 10.5],
+          [-1.5, 10.5],
+          [-1.5, 9.5],
+        ],
+      ],
+    });
+  });
+
+  it("writes one feature per cell and time step", async () => {
+    const { features } = await toGeoJSON(createGridDataset(), { time: "features" });
+
+    expect(features).toHaveLength(8);
+    expect(features[4].properties).toEqual({ time: "2024-01-02T00:00:00.000Z", precip: 5 });
+  });
+
+  it("keeps the requested coordinates of points selections", async () => {
+    const dataset = new Dataset({
+      precip: new DataArray(
+        [
+          [1, 2],
+          [3, 4],
+        ],
+        {
+          dims: ["time", "point"],
+          coords: {
+            time,
+            latitude: [10, 11],
+            longitude: [20, 21],
+            requested_latitude: [10.04, 10.98],
+            requested_longitude: [19.97, 21.02],
+          },
+        }
+      ),
+    });
+
+    const { features } = await toGeoJSON(dataset);
+
+    expect(features).toHaveLength(2);
+    expect(features[1].geometry).toEqual({ type: "Point", coordinates: [21, 11] });
+    expect(features[1].properties).toMatchObject({
+      precip: [2, 4],
+      requested: [{ latitude: 10.98, longitude: 21.02 }],
+    });
+  });
+
+  it("rejects cell geometries without a grid and unexpected dimensions", async () => {
+    const member = new Dataset({
+      precip: new DataArray([[[1]], [[2]]], {
+        dims: ["member", "latitude", "longitude"],
+        coords: { member: [0, 1], latitude: [10], longitude: [20] },
+      }),
+    });
+    await expect(toGeoJSON(member)).rejects.toThrow(InvalidSelectionError);
+
+    const single = new Dataset({
+      precip: new DataArray([1, 2], {
+        dims: ["time"],
+        coords: { time, latitude: 10, longitude: 20 },
+      }),
+    });
+    await expect(toGeoJSON(single, { geometry: "cell" })).rejects.toThrow(
+      InvalidSelectionError
+    );
+    const { features } = await toGeoJSON(single);
+    expect(features[0].properties).toMatchObject({ precip: [1, 2] });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { InvalidSelectionError } from "../src/errors.js";
+import {
+  cellExtents,
+  pointInPolygons,
+  polygonCells,
+  polygonsOf,
+  segmentIntersectsRect,
+} from "../src/math/geometry.js";
+import type { GeoJsonPolygon } from "../src/types.js";
+
+const square = (west: number, south: number, east: number, north: number) => [
+  [west, south],
+  [east, south],
+  [east, north],
+  [west, north],
+  [west, south],
+];
+
+const donut: GeoJsonPolygon = {
+  type: "Polygon",
+  coordinates: [square(0, 0, 10, 10), square(4, 4, 6, 6)],
+};
+
+describe("polygon geometry", () => {
+  it("tests points against outer rings and holes", () => {
+    const polygons = polygonsOf(donut);
+
+    expect(pointInPolygons(1, 1, polygons)).toBe(true);
+    expect(pointInPolygons(5, 5, polygons)).toBe(false);
+    expect(pointInPolygons(11, 5, polygons)).toBe(false);
+  });
+
+  it("clips segments against rectangles", () => {
+    const rect = { west: 0, south: 0, east: 1, north: 1 };
+
+    expect(segmentIntersectsRect([-1, 0.5], [2, 0.5], rect)).toBe(true);
+    expect(segmentIntersectsRect([-1, 2], [2, 2], rect)).toBe(false);
+    expect(segmentIntersectsRect([0.2, 0.2], [0.3, 0.3], rect)).toBe(true);
+  });
+
+  it("derives cell extents halfway to the neighbours", () => {
+    expect(cellExtents([0, 1, 2])).toEqual([
+      [-0.5, 0.5],
+      [0.5, 1.5],
+      [1.5, 2.5],
+    ]);
+    expect(cellExtents([2, 1])).toEqual([
+      [1.5, 2.5],
+      [0.5, 1.5],
+    ]);
+  });
+
+  it("rejects geometries that are not polygons", () => {
+    expect(() =>
+      polygonsOf({ type: "Point", coordinates: [0, 0] } as unknown as GeoJsonPolygon)
+    ).toThrow(InvalidSelectionError);
+  });
+});
+
+describe("polygonCells", () => {
+  const grid = [0, 1, 2, 3, 4];
+
+  it("crops to the rows and columns holding selected cells", () => {
+    const cells = polygonCells(polygonsOf({ type: "Polygon", coordinates: [square(0.5, 1.5, 2.5, 3.5)] }), grid, grid);
+
+    expect(cells.latIndices).toEqual([2, 3]);
+    expect(cells.lonIndices).toEqual([1, 2]);
+    expect(cells.mask).toEqual([
+      [true, true],
+      [true, true],
+    ]);
+  });
+
+  it("counts touched cells with overlap but not cells that only share an edge", () => {
+    // Exactly covers cell (2, 2): its edges run along the grid lines
+    const cell = polygonsOf({ type: "Polygon", coordinates: [square(1.5, 1.5, 2.5, 2.5)] });
+    const sliver = polygonsOf({ type: "Polygon", coordinates: [square(2.1, 2.1, 2.2, 2.2)] });
+
+    expect(polygonCells(cell, grid, grid, "overlap")).toMatchObject({
+      latIndices: [2],
+      lonIndices: [2],
+    });
+    expect(polygonCells(sliver, grid, grid, "centre").latIndices).toEqual([]);
+    expect(polygonCells(sliver, grid, grid, "overlap").mask).toEqual([[true]]);
+  });
+
+  it("matches a polygon across the antimeridian on a 0–360 grid", () => {
+    const longitudes = [0, 90, 178, 179, 180, 181, 182, 270];
+    // Drawn in -180–180, crossing from 178.5°E to 178.5°W
+    const pacific = polygonsOf({
+      type: "Polygon",
+      coordinates: [
+        [
+          [178.5, 0.5],
+          [-178.5, 0.5],
+          [-178.5, 2.5],
+          [178.5, 2.5],
+          [178.5, 0.5],
+        ],
+      ],
+    });
+    // Drawn in 0–360 on a -180–180 grid, crossing Greenwich
+    const greenwich = polygonsOf({ type: "Polygon", coordinates: [square(359.5, 0.5, 360.5, 2.5)] });
+
+    expect(polygonCells(pacific, grid, longitudes).lonIndices).toEqual([3, 4, 5]);
+    expect(polygonCells(greenwich, grid, [-90, -1, 0, 1, 90]).lonIndices).toEqual([2]);
+  });
+
+  it("splits a polygon crossing Greenwich on a 0–360 grid, west to east", () => {
+    const longitudes = [0, 1, 2, 180, 358, 359];
+    const cells = polygonCells(
+      polygonsOf({ type: "Polygon", coordinates: [square(-1.5, 0.5, 1.5, 1.5)] }),
+      grid,
+      longitudes
+    );
+
+    expect(cells.lonIndices).toEqual([5, 0, 1]);
+    expect(cells.mask).toEqual([[true, true, true]]);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { toGeoTIFF } from "../src/export/index.js";
+import { InvalidSelectionError } from "../src/errors.js";
+import { readTiff } from "./helpers/tiff-reader.js";
+
+const time = [
+  new Date(Date.UTC(2024, 0, 1)),
+  new Date(Date.UTC(2024, 0, 2)),
+  new Date(Date.UTC(2024, 0, 3)),
+];
+
+// time x latitude x longitude, latitudes ascending
+function createDataset(): Dataset {
+  return new Dataset({
+    tmax: new DataArray(
+      [
+        [
+          [1, 2, 3],
+          [4, 5, 6],
+        ],
+        [
+          [7, 8, 9],
+          [10, NaN, 12],
+        ],
+        [
+          [13, 14, 15],
+          [16, 17, 18],
+        ],
+      ],
+      {
+        dims: ["time", "latitude", "longitude"],
+        coords: { time, latitude: [40, 40.5], longitude: [-75, -74.75, -74.5] },
+        attrs: { units: "degC" },
+      }
+    ),
+  });
+}
+
+describe("toGeoTIFF", () => {
+  it("writes a north-up band with the affine transform", async () => {
+    const tiff = await readTiff(await toGeoTIFF(createDataset(), { time: "2024-01-02" }));
+
+    expect([tiff.width, tiff.height]).toEqual([3, 2]);
+    expect(tiff.bands).toHaveLength(1);
+    expect(tiff.bands[0]).toEqual([
+      [10, NaN, 12],
+      [7, 8, 9],
+    ]);
+    expect(tiff.origin).toEqual([-75.125, 40.75, 0]);
+    expect(tiff.resolution).toEqual([0.25, -0.5, 0]);
+    expect(tiff.geoKeys).toEqual({
+      GTModelTypeGeoKey: 2,
+      GTRasterTypeGeoKey: 1,
+      GeographicTypeGeoKey: 4326,
+    });
+    expect(tiff.noData).toBeNaN();
+    expect(tiff.bandMetadata[0]).toEqual({
+      DESCRIPTION: "tmax 2024-01-02T00:00:00.000Z",
+      UNITTYPE: "degC",
+    });
+  });
+
+  it("writes one band per time step", async () => {
+    const tiff = await readTiff(await toGeoTIFF(createDataset()));
+
+    expect(tiff.bands.map((band) => band[1][0])).toEqual([1, 7, 13]);
+  });
+
+  it("writes missing values as the fill value on 0–360 grids", async () => {
+    const precip = new Dataset({
+      precip: new DataArray(
+        [
+          [1, NaN],
+          [3, 4],
+        ],
+        {
+          dims: ["latitude", "longitude"],
+          coords: { latitude: [10, 9], longitude: [280, 281] },
+          attrs: { _FillValue: -9999 },
+        }
+      ),
+    });
+    const tiff = await readTiff(await toGeoTIFF(precip, { metadata: { source: "dClimate" } }));
+
+    expect(tiff.bands[0]).toEqual([
+      [1, -9999],
+      [3, 4],
+    ]);
+    expect(tiff.noData).toBe(-9999);
+    expect(tiff.origin).toEqual([-80.5, 10.5, 0]);
+    expect(tiff.metadata).toEqual({ source: "dClimate" });
+  });
+
+  it("rejects irregular grids, missing times and extra dimensions", async () => {
+    await expect(toGeoTIFF(createDataset(), { time: "2024-02-01" })).rejects.toThrow(
+      InvalidSelectionError
+    );
+
+    const irregular = new Dataset({
+      precip: new DataArray(
+        [
+          [1, 2, 3],
+          [4, 5, 6],
+        ],
+        {
+          dims: ["latitude", "longitude"],
+          coords: { latitude: [10, 11], longitude: [0, 1, 3] },
+        }
+      ),
+    });
+    await expect(toGeoTIFF(irregular)).rejects.toThrow(InvalidSelectionError);
+
+    const members = new Dataset({
+      precip: new DataArray(
+        [
+          [
+            [
+              [1, 2],
+              [3, 4],
+            ],
+          ],
+        ],
+        {
+          dims: ["member", "time", "latitude", "longitude"],
+          coords: { member: [0], time: [time[0]], latitude: [10, 11], longitude: [0, 1] },
+        }
+      ),
+    });
+    await expect(toGeoTIFF(members)).rejects.toThrow(InvalidSelectionError);
+  });
+});
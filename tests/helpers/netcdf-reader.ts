@@ -0,0 +1,43 @@
+import { NetCDFReader } from "netcdfjs";
+
+/**
+ * Reads a written NetCDF-3 file with netcdfjs into plain objects that are
+ * easy to match in tests.
+ */
+
+export interface ParsedNetCDF {
+  version: NetCDFReader["version"];
+  dimensions: Array<{ name: string; size: number }>;
+  attrs: Record<string, unknown>;
+  variables: Record<
+    string,
+    { dims: string[]; attrs: Record<string, unknown>; type: string; values: unknown }
+  >;
+}
+
+const attributes = (list: Array<{ name: string; value: unknown }>) =>
+  Object.fromEntries(list.map(({ name, value }) => [name, value]));
+
+export function readNetCDF(bytes: Uint8Array): ParsedNetCDF {
+  const reader = new NetCDFReader(bytes);
+  const variables = Object.fromEntries(
+    reader.variables.map((variable) => [
+      variable.name,
+      {
+        dims: variable.dimensions.map((id) => reader.dimensions[id].name),
+        attrs: attributes(variable.attributes),
+        type: variable.type,
+        values:
+          variable.type === "char"
+            ? reader.getDataVariableAsString(variable.name)
+            : reader.getDataVariable(variable),
+      },
+    ])
+  );
+  return {
+    version: reader.version,
+    dimensions: reader.dimensions,
+    attrs: attributes(reader.globalAttributes),
+    variables,
+  };
+}
@@ -0,0 +1,91 @@
+import { vi } from "vitest";
+
+export const GATEWAY = "https://gateway.test";
+
+/**
+ * Minimal IPFS-hosted catalog tree: root → org → collection → item. The item's
+ * data CID embeds the root CID so tests can tell catalog versions apart.
+ */
+export function catalogDocuments(
+  rootCid: string,
+  gatewayUrl: string = GATEWAY
+): Record<string, unknown> {
+  return {
+    [`${gatewayUrl}/ipfs/${rootCid}`]: {
+      type: "Catalog",
+      stac_version: "1.0.0",
+      id: "dclimate",
+      links: [
+        {
+          rel: "child",
+          href: `ipfs://${rootCid}-org`,
+          title: "ECMWF",
+          "dclimate:id": "ecmwf",
+          "dclimate:collections:historical": ["ecmwf_era5"],
+          "dclimate:datasets": ["ecmwf_era5/temperature_2m"],
+        },
+      ],
+    },
+    [`${gatewayUrl}/ipfs/${rootCid}-org`]: {
+      type: "Catalog",
+      stac_version: "1.0.0",
+      id: "ecmwf",
+      links: [{ rel: "child", href: `ipfs://${rootCid}-collection` }],
+    },
+    [`${gatewayUrl}/ipfs/${rootCid}-collection`]: {
+      type: "Collection",
+      stac_version: "1.0.0",
+      id: "ecmwf_era5",
+      links: [{ rel: "item", href: `ipfs://${rootCid}-item` }],
+    },
+    [`${gatewayUrl}/ipfs/${rootCid}-item`]: {
+      type: "Feature",
+      stac_version: "1.0.0",
+      id: "ecmwf_era5-temperature_2m-finalized",
+      properties: {},
+      geometry: null,
+      assets: { data: { href: `ipfs://bafy-data-${rootCid}` } },
+      links: [],
+    },
+  };
+}
+
+/**
+ * A fetch mock serving the catalog trees for `rootCids`. The `/stac`
+ * discovery endpoint reports the first root as the latest.
+ */
+export function catalogFetch(
+  rootCids: string[],
+  gatewayUrl: string = GATEWAY
+) {
+  const documents = Object.assign(
+    {},
+    ...rootCids.map((rootCid) => catalogDocuments(rootCid, gatewayUrl))
+  );
+  return vi.fn(async (input: string) => {
+    if (input.endsWith("/stac")) {
+      return { ok: true, json: async () => ({ cid: rootCids[0] }) };
+    }
+    const body = documents[input];
+    if (!body) {
+      return { ok: false, status: 404, statusText: "Not Found" };
+    }
+    return { ok: true, json: async () => structuredClone(body) };
+  });
+}
+
+/**
+ * Stubs global fetch with {@link catalogFetch}.
+ */
+export function stubCatalogFetch(
+  rootCids: string[],
+  gatewayUrl: string = GATEWAY
+) {
+  const fetchMock = catalogFetch(rootCids, gatewayUrl);
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+export function calledUrls(fetchMock: ReturnType<typeof vi.fn>): string[] {
+  return fetchMock.mock.calls.map(([url]) => String(url));
+}
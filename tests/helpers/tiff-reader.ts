@@ -0,0 +1,47 @@
+import { fromArrayBuffer } from "geotiff";
+
+/**
+ * Reads a written GeoTIFF with geotiff.js into plain objects that are easy to
+ * match in tests.
+ */
+
+export interface ParsedTiff {
+  width: number;
+  height: number;
+  /** Longitude and latitude of the top-left corner. */
+  origin: number[];
+  /** Pixel size in degrees; negative latitude steps run north to south. */
+  resolution: number[];
+  geoKeys: Record<string, unknown>;
+  noData: number | null;
+  /** Dataset-wide GDAL metadata items. */
+  metadata: Record<string, unknown> | null;
+  /** GDAL metadata items per band. */
+  bandMetadata: Array<Record<string, unknown> | null>;
+  /** `[band][row][column]` pixel values. */
+  bands: number[][][];
+}
+
+export async function readTiff(bytes: Uint8Array): Promise<ParsedTiff> {
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+  const image = await (await fromArrayBuffer(buffer as ArrayBuffer)).getImage();
+  const width = image.getWidth();
+  const rasters = await image.readRasters();
+  const bands = Array.from({ length: image.getSamplesPerPixel() }, (_, band) => {
+    const values = Array.from(rasters[band] as ArrayLike<number>);
+    return Array.from({ length: image.getHeight() }, (_, row) =>
+      values.slice(row * width, (row + 1) * width)
+    );
+  });
+  return {
+    width,
+    height: image.getHeight(),
+    origin: image.getOrigin(),
+    resolution: image.getResolution(),
+    geoKeys: image.getGeoKeys() ?? {},
+    noData: image.getGDALNoData(),
+    metadata: await image.getGDALMetadata(),
+    bandMetadata: await Promise.all(bands.map((_, band) => image.getGDALMetadata(band))),
+    bands,
+  };
+}
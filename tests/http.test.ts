@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DClimateClient } from "../src/client.js";
+import { DEFAULT_STAC_ROOT_URL } from "../src/constants.js";
+import { createFetch } from "../src/http.js";
+import { calledUrls, catalogFetch } from "./helpers/stac-catalog-fixture.js";
+
+const openDatasetFromCidMock = vi.hoisted(() => vi.fn());
+const openIpfsStoreMock = vi.hoisted(() => vi.fn());
+
+vi.mock("@dclimate/jaxray", () => ({
+  Dataset: class {
+    static open_zarr = async () => ({});
+  },
+  DataArray: class {},
+  createIpfsElements: vi.fn((gatewayUrl: string, options: { fetch: typeof fetch }) => ({
+    gatewayUrl,
+    fetch: options.fetch,
+  })),
+  openIpfsStore: openIpfsStoreMock,
+}));
+
+vi.mock("../src/ipfs/open-dataset.js", () => ({
+  openDatasetFromCid: openDatasetFromCidMock,
+  default: openDatasetFromCidMock,
+}));
+
+function headersOf(fetchMock: ReturnType<typeof catalogFetch>, index = 0): Headers {
+  const init = (fetchMock.mock.calls[index] as unknown[])[1] as RequestInit;
+  return init.headers as Headers;
+}
+
+describe("createFetch", () => {
+  it("merges default headers under per-request ones and runs the interceptor", async () => {
+    const baseFetch = vi.fn(async () => new Response("{}"));
+    const fetchFn = createFetch({
+      fetch: baseFetch,
+      headers: { authorization: "Bearer proxy", "x-team": "risk" },
+      onRequest: (request) => {
+        request.init.headers.set("x-trace", "1");
+        return { ...request, url: request.url.replace("origin", "replay") };
+      },
+    });
+
+    await fetchFn("https://origin.test/doc", { headers: { "x-team": "ops" } });
+
+    const [url, init] = baseFetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://replay.test/doc");
+    const headers = init.headers as Headers;
+    expect(headers.get("authorization")).toBe("Bearer proxy");
+    expect(headers.get("x-team")).toBe("ops");
+    expect(headers.get("x-trace")).toBe("1");
+  });
+});
+
+describe("client HTTP options", () => {
+  beforeEach(() => {
+    openDatasetFromCidMock.mockReset();
+    openDatasetFromCidMock.mockResolvedValue({ attrs: {} });
+    // Any request that escapes the injected fetch fails the test.
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new Error("global fetch must not be used");
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("walks the catalog and discovers the root through the injected fetch", async () => {
+    const gatewayUrl = "https://http-walk.test";
+    const fetchMock = catalogFetch(["bafyroot-http-walk"], gatewayUrl);
+    const client = new DClimateClient({
+      gatewayUrl,
+      stacServerUrl: null,
+      fetch: fetchMock as unknown as typeof fetch,
+      headers: { "proxy-authorization": "Basic abc" },
+    });
+
+    const catalog = await client.listAvailableDatasets();
+
+    expect(catalog.map((c) => c.collection)).toEqual(["ecmwf_era5"]);
+    expect(calledUrls(fetchMock)[0]).toBe(DEFAULT_STAC_ROOT_URL);
+    fetchMock.mock.calls.forEach((_call, index) => {
+      expect(headersOf(fetchMock, index).get("proxy-authorization")).toBe("Basic abc");
+    });
+  });
+
+  it("sends STAC server requests through the interceptor", async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            id: "ecmwf_era5-temperature_2m-finalized",
+            collection: "ecmwf_era5",
+            properties: { "dclimate:variant": "finalized" },
+            assets: { data: { href: "ipfs://bafy-from-server" } },
+          },
+        ],
+      })
+    );
+    const seen: string[] = [];
+    const client = new DClimateClient({
+      stacServerUrl: "https://stac.test",
+      fetch: fetchMock,
+      onRequest: ({ url, init }) => {
+        seen.push(`${init.method} ${url}`);
+      },
+    });
+
+    const [, metadata] = await client.loadDataset({
+      request: { collection: "ecmwf_era5", dataset: "temperature_2m" },
+    });
+
+    expect(metadata.cid).toBe("bafy-from-server");
+    expect(seen).toEqual(["POST https://stac.test/search"]);
+  });
+
+  it("passes the client fetch to the IPFS elements factory", async () => {
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    const createIpfsElements = vi.fn((gatewayUrl: string) => ({ gatewayUrl }));
+    const client = new DClimateClient({
+      gatewayUrl: "https://blocks.test",
+      fetch: fetchMock,
+      headers: { authorization: "Bearer blocks" },
+      createIpfsElements: createIpfsElements as never,
+    });
+
+    await client.loadDataset({ request: { cid: "bafy-direct" } });
+
+    expect(createIpfsElements).toHaveBeenCalledWith("https://blocks.test", expect.any(Function));
+    const blockFetch = (createIpfsElements.mock.calls[0] as unknown[])[1] as typeof fetch;
+    await blockFetch("https://blocks.test/ipfs/bafy-direct");
+    const init = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect((init[1].headers as Headers).get("authorization")).toBe("Bearer blocks");
+  });
+
+  it("sends IPFS block requests through the client fetch when opening a store", async () => {
+    const actual = await vi.importActual<typeof import("../src/ipfs/open-dataset.js")>(
+      "../src/ipfs/open-dataset.js"
+    );
+    openDatasetFromCidMock.mockImplementationOnce(actual.openDatasetFromCid);
+    openIpfsStoreMock.mockImplementationOnce(
+      async (cid: string, elements: { gatewayUrl: string; fetch: typeof fetch }) => {
+        await elements.fetch(`${elements.gatewayUrl}/ipfs/${cid}`);
+        return { store: {} };
+      }
+    );
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    const client = new DClimateClient({
+      gatewayUrl: "https://blocks.test",
+      fetch: fetchMock,
+      headers: { authorization: "Bearer blocks" },
+    });
+
+    await client.loadDataset({ request: { cid: "bafy-direct" } });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://blocks.test/ipfs/bafy-direct");
+    expect((init.headers as Headers).get("authorization")).toBe("Bearer blocks");
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { countDays, degreeDays, longestRun } from "../src/indicators/index.js";
+import { InvalidSelectionError } from "../src/errors.js";
+
+const days = (count: number) =>
+  Array.from({ length: count }, (_, day) => new Date(Date.UTC(2024, 0, day + 1)));
+
+// time x longitude: daily values for two cells
+function createDailyDataset(
+  values: number[][],
+  attrs: Record<string, unknown> = { units: "degC" },
+  time: Date[] = days(values.length),
+  name = "temperature"
+): Dataset {
+  const variable = new DataArray(values, {
+    dims: ["time", "longitude"],
+    coords: { time, longitude: [10, 11] },
+    attrs,
+  });
+  return new Dataset({ [name]: variable }, { attrs: { source: "ERA5" } });
+}
+
+describe("degreeDays", () => {
+  const values = [
+    [5, 20],
+    [15, 35],
+    [NaN, 25],
+  ];
+
+  it("sums heating and cooling degree days per cell", async () => {
+    const heating = await degreeDays(createDailyDataset(values), { kind: "heating" });
+    const cooling = await degreeDays(createDailyDataset(values), { kind: "cooling" });
+
+    const hdd = heating.getVariable("heating_degree_days");
+    expect(hdd.dims).toEqual(["longitude"]);
+    expect(hdd.data).toEqual([16, 0]);
+    expect(hdd.attrs).toMatchObject({ units: "degC day", base_temperature: 18 });
+    expect(heating.attrs).toEqual({ source: "ERA5" });
+    expect(cooling.getVariable("cooling_degree_days").data).toEqual([0, 2 + 17 + 7]);
+  });
+
+  it("caps growing degree days", async () => {
+    const result = await degreeDays(createDailyDataset(values), {
+      kind: "growing",
+      cap: 30,
+    });
+
+    expect(result.getVariable("growing_degree_days").data).toEqual([5, 10 + 20 + 15]);
+  });
+
+  it("converts thresholds for Kelvin data", async () => {
+    const kelvin = values.map((row) => row.map((value) => value + 273.15));
+    const result = await degreeDays(createDailyDataset(kelvin, { units: "K" }), {
+      kind: "heating",
+    });
+    const hdd = result.getVariable("heating_degree_days");
+
+    expect((hdd.data as number[])[0]).toBeCloseTo(16, 9);
+    expect(hdd.attrs.units).toBe("K day");
+  });
+
+  it("averages minimum and maximum with the modified method", async () => {
+    const time = days(2);
+    const grid = { dims: ["time", "longitude"], coords: { time, longitude: [10, 11] } };
+    const dataset = new Dataset({
+      tmin: new DataArray([[5, 12], [8, 20]], grid),
+      tmax: new DataArray([[25, 36], [14, 32]], grid),
+    });
+    const options = { kind: "growing", cap: 30, minVariable: "tmin", maxVariable: "tmax" } as const;
+
+    const average = await degreeDays(dataset, { ...options, method: "average" });
+    const modified = await degreeDays(dataset, { ...options, method: "modified" });
+
+    // average: (15 - 10) + (11 - 10); (24 - 10) + (26 - 10)
+    expect(average.getVariable("growing_degree_days").data).toEqual([6, 30]);
+    // modified: (10 + 25) / 2 - 10 + (10 + 14) / 2 - 10; (12 + 30) / 2 - 10 + (20 + 30) / 2 - 10
+    expect(modified.getVariable("growing_degree_days").data).toEqual([9.5, 26]);
+  });
+
+  it("accumulates per period", async () => {
+    const time = [30, 31, 32].map((day) => new Date(Date.UTC(2024, 0, day)));
+    const result = await degreeDays(createDailyDataset(values, undefined, time), {
+      kind: "cooling",
+      frequency: "1M",
+    });
+    const cdd = result.getVariable("cooling_degree_days");
+
+    expect(cdd.dims).toEqual(["time", "longitude"]);
+    expect(cdd.coords.time).toEqual([
+      new Date(Date.UTC(2024, 0, 1)),
+      new Date(Date.UTC(2024, 1, 1)),
+    ]);
+    expect(cdd.data).toEqual([
+      [0, 19],
+      [NaN, 7],
+    ]);
+  });
+
+  it("rejects non-daily data and missing variables", async () => {
+    const hourly = [0, 1, 2].map((hour) => new Date(Date.UTC(2024, 0, 1, hour)));
+    await expect(
+      degreeDays(createDailyDataset(values, undefined, hourly), { kind: "heating" })
+    ).rejects.toThrow(InvalidSelectionError);
+    await expect(
+      degreeDays(createDailyDataset(values), { kind: "growing", method: "average" })
+    ).rejects.toThrow(InvalidSelectionError);
+  });
+});
+
+describe("countDays and longestRun", () => {
+  const rainfall = [
+    [0, 5],
+    [0.5, 0],
+    [NaN, 0],
+    [0, 0],
+    [0, 3],
+  ];
+
+  it("counts days beyond a threshold", async () => {
+    const dataset = createDailyDataset(rainfall, { units: "mm" }, days(5), "precipitation");
+    const dry = await countDays(dataset, { threshold: 1, comparison: "below" });
+    const wet = await countDays(dataset, { threshold: 1 });
+
+    expect(dry.getVariable("precipitation_days_below").data).toEqual([4, 3]);
+    expect(wet.getVariable("precipitation_days_above").data).toEqual([0, 2]);
+  });
+
+  it("finds the longest run, broken by missing days", async () => {
+    const dataset = createDailyDataset(rainfall, { units: "mm" }, days(5), "precipitation");
+    const result = await longestRun(dataset, { threshold: 1, comparison: "below" });
+
+    expect(result.getVariable("precipitation_longest_run_below").data).toEqual([2, 3]);
+  });
+
+  it("breaks runs at days missing from the time axis", async () => {
+    // 2024-01-03 is not in the series
+    const time = [1, 2, 4, 5, 6].map((day) => new Date(Date.UTC(2024, 0, day)));
+    const dataset = createDailyDataset(rainfall, { units: "mm" }, time, "precipitation");
+    const result = await longestRun(dataset, { threshold: 1, comparison: "below" });
+
+    expect(result.getVariable("precipitation_longest_run_below").data).toEqual([2, 2]);
+  });
+
+  it("gives NaN for cells without any data", async () => {
+    const dataset = createDailyDataset(
+      [
+        [NaN, 0],
+        [NaN, 2],
+      ],
+      { units: "mm" },
+      days(2),
+      "precipitation"
+    );
+    const count = await countDays(dataset, { threshold: 1 });
+    const run = await longestRun(dataset, { threshold: 1 });
+
+    expect(count.getVariable("precipitation_days_above").data).toEqual([NaN, 1]);
+    expect(run.getVariable("precipitation_longest_run_above").data).toEqual([NaN, 1]);
+  });
+
+  it("converts temperature thresholds for Kelvin data", async () => {
+    const dataset = createDailyDataset(
+      [
+        [272, 280],
+        [274, 271],
+      ],
+      { units: "K" }
+    );
+    const frost = await countDays(dataset, { threshold: 0, comparison: "below" });
+
+    expect(frost.getVariable("temperature_days_below").data).toEqual([1, 1]);
+    expect(frost.getVariable("temperature_days_below").attrs).toMatchObject({
+      units: "days",
+      threshold: 0,
+      threshold_units: "degC",
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  longitudeConvention,
+  longitudeRanges,
+  matchLongitudeConvention,
+  stitchLongitudeIndices,
+  toLongitudeConvention,
+} from "../src/math/longitudes.js";
+
+describe("longitude conventions", () => {
+  it("detects 0–360 grids", () => {
+    expect(longitudeConvention([0, 90, 180, 270])).toBe("0-360");
+    expect(longitudeConvention([-180, 0, 179.75])).toBe("-180-180");
+    expect(longitudeConvention([0, 10, 20])).toBe("-180-180");
+  });
+
+  it("converts between conventions", () => {
+    expect(toLongitudeConvention(-73.5, "0-360")).toBe(286.5);
+    expect(toLongitudeConvention(286.5, "-180-180")).toBe(-73.5);
+    expect(toLongitudeConvention(180, "-180-180")).toBe(180);
+    expect(toLongitudeConvention(-180, "-180-180")).toBe(-180);
+    expect(matchLongitudeConvention(-10, [0, 90, 350])).toBe(350);
+    expect(matchLongitudeConvention(-10, ["a"])).toBe(-10);
+  });
+});
+
+describe("longitudeRanges", () => {
+  it("keeps boxes that don't cross the seam whole", () => {
+    expect(longitudeRanges(-75, -73, "-180-180")).toEqual([[-75, -73]]);
+    expect(longitudeRanges(-75, -73, "0-360")).toEqual([[285, 287]]);
+    expect(longitudeRanges(170, -170, "0-360")).toEqual([[170, 190]]);
+  });
+
+  it("splits boxes crossing the seam, west part first", () => {
+    expect(longitudeRanges(170, -170, "-180-180")).toEqual([
+      [170, 180],
+      [-180, -170],
+    ]);
+    expect(longitudeRanges(-10, 10, "0-360")).toEqual([
+      [350, 360],
+      [0, 10],
+    ]);
+  });
+
+  it("covers the globe for spans of 360°", () => {
+    expect(longitudeRanges(-180, 180, "0-360")).toEqual([[0, 360]]);
+  });
+});
+
+describe("stitchLongitudeIndices", () => {
+  const grid = [-180, -170, -160, 0, 160, 170];
+
+  it("starts a wrapping selection after its largest gap", () => {
+    expect(stitchLongitudeIndices([0, 1, 4, 5], grid)).toEqual([4, 5, 0, 1]);
+  });
+
+  it("keeps grid order otherwise", () => {
+    expect(stitchLongitudeIndices([1, 2, 3], grid)).toEqual([1, 2, 3]);
+    expect(stitchLongitudeIndices([2, 1, 0], [10, 20, 30])).toEqual([2, 1, 0]);
+  });
+});
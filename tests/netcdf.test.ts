@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { toNetCDF } from "../src/export/index.js";
+import { InvalidSelectionError } from "../src/errors.js";
+import { GeoTemporalDataset } from "../src/geotemporal-dataset.js";
+import { readNetCDF } from "./helpers/netcdf-reader.js";
+
+// time x station: two days at three named stations. Gauge counts are kept as
+// 16-bit integers with their own fill value for the gauge that didn't report.
+function createDataset(): Dataset {
+  const grid = {
+    dims: ["time", "station"],
+    coords: {
+      time: [new Date(Date.UTC(2024, 0, 1)), new Date(Date.UTC(2024, 0, 2))],
+      station: ["KJFK", "KLGA", "KEWR"],
+    },
+  };
+  return new Dataset({
+    precip: new DataArray(
+      [
+        [1.5, NaN, 3],
+        [0, 12.25, 4],
+      ],
+      { ...grid, attrs: { units: "mm", long_name: "Precipitation" } }
+    ),
+    wet_days: new DataArray(
+      [
+        [1, NaN, 1],
+        [0, 1, 1],
+      ],
+      { ...grid, attrs: { units: "days" } }
+    ),
+    gauges: new DataArray([new Int16Array([2, -1, 3]), new Int16Array([2, 0, 3])], {
+      ...grid,
+      attrs: { _FillValue: -1 },
+    }),
+  });
+}
+
+describe("toNetCDF", () => {
+  it("writes dimensions, coordinates and data variables", async () => {
+    const file = readNetCDF(await toNetCDF(createDataset()));
+
+    expect(file.version).toBe("classic format");
+    expect(file.dimensions).toEqual([
+      { name: "time", size: 2 },
+      { name: "station", size: 3 },
+      { name: "string4", size: 4 },
+    ]);
+    expect(file.attrs).toEqual({ Conventions: "CF-1.8" });
+    expect(file.variables.station).toMatchObject({
+      dims: ["station", "string4"],
+      type: "char",
+      values: "KJFKKLGAKEWR",
+    });
+    expect(file.variables.precip).toMatchObject({
+      dims: ["time", "station"],
+      type: "double",
+      attrs: { units: "mm", long_name: "Precipitation" },
+    });
+    expect(file.variables.precip.values).toEqual([1.5, NaN, 3, 0, 12.25, 4]);
+  });
+
+  it("encodes times with CF units", async () => {
+    const file = readNetCDF(await toNetCDF(createDataset()));
+
+    expect(file.variables.time).toMatchObject({
+      type: "int",
+      values: [19723, 19724],
+      attrs: {
+        standard_name: "time",
+        units: "days since 1970-01-01 00:00:00",
+        calendar: "proleptic_gregorian",
+      },
+    });
+  });
+
+  it("keeps typed array storage and writes other numbers as double", async () => {
+    const file = readNetCDF(await toNetCDF(createDataset()));
+    const floats = new Dataset({
+      precip: new DataArray([new Float32Array([0.5, 2]), new Float32Array([0, 1])], {
+        dims: ["time", "latitude"],
+        coords: { time: [0, 1], latitude: [40, 41] },
+      }),
+    });
+    const float = readNetCDF(await toNetCDF(floats));
+
+    expect(file.variables.gauges).toMatchObject({
+      type: "short",
+      values: [2, -1, 3, 2, 0, 3],
+      attrs: { _FillValue: -1 },
+    });
+    expect(file.variables.wet_days.type).toBe("double");
+    expect(float.variables.precip).toMatchObject({ type: "float", values: [0.5, 2, 0, 1] });
+    expect(float.variables.latitude.type).toBe("double");
+  });
+
+  it("applies requested types and fills missing integers", async () => {
+    const file = readNetCDF(
+      await toNetCDF(createDataset(), {
+        dtypes: { precip: "float", wet_days: "short" },
+        attrs: { title: "Sample" },
+      })
+    );
+
+    expect(file.variables.precip.type).toBe("float");
+    expect(file.variables.wet_days).toMatchObject({
+      type: "short",
+      values: [1, -32767, 1, 0, 1, 1],
+      attrs: { _FillValue: -32767 },
+    });
+    expect(file.attrs.title).toBe("Sample");
+  });
+
+  it("writes 64-bit offsets", async () => {
+    const file = readNetCDF(await toNetCDF(createDataset(), { format: "64bit-offset" }));
+
+    expect(file.version).toBe("64-bit offset format");
+    expect(file.variables.station.values).toBe("KJFKKLGAKEWR");
+    expect(file.variables.precip.values).toEqual([1.5, NaN, 3, 0, 12.25, 4]);
+  });
+
+  it("records the dClimate dataset without replacing the dataset's own source", async () => {
+    const metadata = {
+      dataset: "era5",
+      path: "copernicus/era5",
+      cid: "bafy-era5",
+      source: "direct_cid" as const,
+      fetchedAt: new Date(),
+    };
+    const reanalysis = new Dataset(
+      { precip: new DataArray([1, 2], { dims: ["latitude"], coords: { latitude: [0, 1] } }) },
+      { attrs: { source: "ECMWF IFS reanalysis" } }
+    );
+
+    const own = readNetCDF(await new GeoTemporalDataset(reanalysis, metadata).toNetCDF());
+    const plain = readNetCDF(await new GeoTemporalDataset(createDataset(), metadata).toNetCDF());
+
+    expect(own.attrs).toMatchObject({
+      source: "ECMWF IFS reanalysis",
+      dclimate_dataset: "copernicus/era5",
+      dclimate_cid: "bafy-era5",
+    });
+    expect(plain.attrs.source).toBe("dClimate");
+  });
+
+  it("rejects values that don't fit the requested type", async () => {
+    await expect(
+      toNetCDF(createDataset(), { dtypes: { precip: "byte" } })
+    ).rejects.toThrow(InvalidSelectionError);
+  });
+
+  it("rejects names with slashes or control characters", async () => {
+    for (const name of ["a/b", "tab\there", " padded"]) {
+      await expect(toNetCDF(createDataset(), { attrs: { [name]: 1 } })).rejects.toThrow(
+        InvalidSelectionError
+      );
+    }
+  });
+});
@@ -5,6 +5,12 @@ import {
   otelAttributes,
 } from "../src/instrumentation.js";
 import { openDatasetFromCid } from "../src/ipfs/open-dataset.js";
+import { GatewayHealth } from "../src/ipfs/gateway-pool.js";
+import {
+  DatasetOpenError,
+  DClimateClientError,
+  GatewayUnavailableError,
+} from "../src/errors.js";
 
 const openIpfsStoreMock = vi.hoisted(() => vi.fn());
 const openZarrMock = vi.hoisted(() => vi.fn());
@@ -14,6 +20,7 @@ vi.mock("@dclimate/jaxray", () => ({
     open_zarr: openZarrMock,
   },
   openIpfsStore: openIpfsStoreMock,
+  createIpfsElements: (gatewayUrl: string) => ({ gatewayUrl }),
 }));
 
 describe("openDatasetFromCid", () => {
@@ -48,11 +55,147 @@ describe("openDatasetFromCid", () => {
     expect(openIpfsStoreMock).toHaveBeenCalledWith("bafycustom", ipfsElements);
   });
 
+  it("rejects a missing CID as an invalid request", async () => {
+    const error = await openDatasetFromCid("").catch((e) => e);
+
+    expect(error).toBeInstanceOf(DClimateClientError);
+    expect(error).toMatchObject({ code: "INVALID_REQUEST", retriable: false });
+    expect(openIpfsStoreMock).not.toHaveBeenCalled();
+  });
+
   it("preserves retrieval errors from the store opener", async () => {
     const error = new Error("ETIMEDOUT while opening store");
     openIpfsStoreMock.mockRejectedValue(error);
 
-    await expect(openDatasetFromCid("bafytimeout")).rejects.toThrow(error);
+    const rejection = openDatasetFromCid("bafytimeout");
+
+    await expect(rejection).rejects.toBeInstanceOf(DatasetOpenError);
+    await expect(rejection).rejects.toMatchObject({
+      message: error.message,
+      cause: error,
+      code: "GATEWAY_TIMEOUT",
+      retriable: true,
+      context: { cid: "bafytimeout", url: DEFAULT_IPFS_GATEWAY },
+    });
+  });
+});
+
+describe("openDatasetFromCid with multiple gateways", () => {
+  const gateways = [
+    "https://primary.invalid",
+    "https://secondary.invalid",
+    "https://tertiary.invalid",
+  ];
+
+  beforeEach(() => {
+    openIpfsStoreMock.mockReset();
+    openZarrMock.mockReset();
+    openZarrMock.mockImplementation(async (store) => ({ from: store.gatewayUrl }));
+  });
+
+  function storeFor(failing: string[]) {
+    openIpfsStoreMock.mockImplementation(
+      async (_cid: string, elements: { gatewayUrl: string }) => {
+        if (failing.includes(elements.gatewayUrl)) {
+          throw new Error(`ECONNREFUSED ${elements.gatewayUrl}`);
+        }
+        return { store: { gatewayUrl: elements.gatewayUrl } };
+      }
+    );
+  }
+
+  it("fails over to the next gateway in order", async () => {
+    storeFor([gateways[0]]);
+
+    const dataset = await openDatasetFromCid("bafyfailover", {
+      gateways,
+      gatewayHealth: new GatewayHealth(),
+    });
+
+    expect(dataset).toEqual({ from: gateways[1] });
+    expect(openIpfsStoreMock.mock.calls.map(([, e]) => e.gatewayUrl)).toEqual([
+      gateways[0],
+      gateways[1],
+    ]);
+  });
+
+  it("races the first N gateways and keeps the first success", async () => {
+    storeFor([gateways[0]]);
+
+    const dataset = await openDatasetFromCid("bafyrace", {
+      gateways,
+      gatewayStrategy: { race: 2 },
+      gatewayHealth: new GatewayHealth(),
+    });
+
+    expect(dataset).toEqual({ from: gateways[1] });
+    expect(openIpfsStoreMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips gateways that are cooling down", async () => {
+    const health = new GatewayHealth({ cooldownMs: 60_000 });
+    health.record(gateways[0], "connection_error");
+    health.record(gateways[0], "connection_error");
+    storeFor([]);
+
+    await openDatasetFromCid("bafyskip", { gateways, gatewayHealth: health });
+
+    expect(openIpfsStoreMock).toHaveBeenCalledTimes(1);
+    expect(openIpfsStoreMock.mock.calls[0][1].gatewayUrl).toBe(gateways[1]);
+  });
+
+  it("reports every gateway failure when none succeed", async () => {
+    storeFor(gateways);
+
+    const error = await openDatasetFromCid("bafydown", {
+      gateways,
+      gatewayHealth: new GatewayHealth(),
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(GatewayUnavailableError);
+    expect(error).toMatchObject({
+      code: "GATEWAY_UNAVAILABLE",
+      retriable: true,
+      context: { cid: "bafydown" },
+    });
+    expect(
+      (error as GatewayUnavailableError).failures.map((f) => f.gatewayUrl)
+    ).toEqual(gateways);
+  });
+});
+
+describe("GatewayHealth", () => {
+  it("benches a gateway after repeated connection errors until the cooldown ends", () => {
+    const health = new GatewayHealth({ cooldownMs: 1000 });
+
+    health.record("https://a.invalid", "connection_error", 0);
+    expect(health.isHealthy("https://a.invalid", 0)).toBe(true);
+
+    health.record("https://a.invalid", "connection_error", 0);
+    expect(health.isHealthy("https://a.invalid", 0)).toBe(false);
+    expect(health.isHealthy("https://a.invalid", 1000)).toBe(true);
+  });
+
+  it("does not bench a gateway for generic errors", () => {
+    const health = new GatewayHealth();
+    for (let i = 0; i < 5; i++) {
+      health.record("https://a.invalid", "error");
+    }
+    expect(health.isHealthy("https://a.invalid")).toBe(true);
+  });
+
+  it("returns every gateway by score when all are benched", () => {
+    const health = new GatewayHealth();
+    for (const status of ["connection_error", "connection_error"] as const) {
+      health.record("https://a.invalid", status);
+      health.record("https://b.invalid", status);
+    }
+    health.record("https://a.invalid", "connection_error");
+
+    expect(health.rank(["https://a.invalid", "https://b.invalid"])).toEqual([
+      "https://b.invalid",
+      "https://a.invalid",
+    ]);
   });
 });
 
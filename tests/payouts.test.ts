@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { calculatePayouts } from "../src/payouts.js";
+import { InvalidContractError, NoDataFoundError } from "../src/errors.js";
+import type { DatasetMetadata, PayoutIndexSeries } from "../src/types.js";
+
+const metadata: DatasetMetadata = {
+  dataset: "precipitation",
+  collection: "chirps",
+  organization: "ucsb",
+  concatenatedVariants: ["final", "prelim"],
+  concatenatedCids: ["bafy-final", "bafy-prelim"],
+  path: "chirps-precipitation",
+  cid: "bafy-final",
+  catalogRootCid: "bafy-root",
+  source: "stac_concatenated",
+  fetchedAt: new Date("2024-07-01T00:00:00Z"),
+};
+
+// Seasonal rainfall totals, one per year
+const seasons: PayoutIndexSeries = {
+  time: ["2021-01-01", "2022-01-01", "2023-01-01", "2024-01-01"],
+  values: [350, 250, 150, 100],
+  variable: "precip",
+  sources: [metadata],
+};
+
+describe("calculatePayouts", () => {
+  it("pays a put linearly between trigger and exit", () => {
+    const result = calculatePayouts(seasons, {
+      type: "put",
+      trigger: 300,
+      exit: 200,
+      limit: 1000,
+    });
+
+    expect(result.periods.map((period) => period.payout)).toEqual([0, 500, 1000, 1000]);
+    expect(result.total).toBe(2500);
+    expect(result.periods[1]).toMatchObject({
+      period: "2022-01-01T00:00:00.000Z",
+      index: 250,
+      weight: 1,
+    });
+  });
+
+  it("pays a call per tick up to the limit", () => {
+    const result = calculatePayouts(seasons, {
+      type: "call",
+      trigger: 200,
+      tickSize: 4,
+      limit: 500,
+    });
+
+    expect(result.periods.map((period) => period.payout)).toEqual([500, 200, 0, 0]);
+  });
+
+  it("aggregates and weights phases", () => {
+    const daily: PayoutIndexSeries = {
+      time: [1, 2, 3, 4].map((day) => new Date(Date.UTC(2024, 5, day))),
+      values: [10, 20, 5, 5],
+    };
+    const result = calculatePayouts(daily, {
+      type: "put",
+      trigger: 40,
+      exit: 0,
+      limit: 1000,
+      phases: [
+        { name: "establishment", start: "2024-06-01", end: "2024-06-02", weight: 0.4 },
+        {
+          name: "flowering",
+          start: "2024-06-03",
+          end: "2024-06-04",
+          weight: 0.6,
+          trigger: 20,
+        },
+      ],
+    });
+
+    // establishment: 30 of 40 → 400 × 10/40; flowering: 10 of 20 → 600 × 10/20
+    expect(result.periods.map(({ period, index, payout }) => ({ period, index, payout }))).toEqual([
+      { period: "establishment", index: 30, payout: 100 },
+      { period: "flowering", index: 10, payout: 300 },
+    ]);
+    expect(result.total).toBe(400);
+  });
+
+  it("records the contract and dataset CIDs in the audit trail", () => {
+    const contract = { type: "put", trigger: 300, exit: 200, limit: 1000 } as const;
+    const { audit } = calculatePayouts(seasons, contract);
+
+    expect(audit.contract).toEqual(contract);
+    expect(audit.variable).toBe("precip");
+    expect(audit.sources).toEqual([
+      {
+        dataset: "precipitation",
+        organization: "ucsb",
+        collection: "chirps",
+        variant: undefined,
+        cid: "bafy-final",
+        concatenatedVariants: ["final", "prelim"],
+        concatenatedCids: ["bafy-final", "bafy-prelim"],
+        catalogRootCid: "bafy-root",
+        fetchedAt: "2024-07-01T00:00:00.000Z",
+      },
+    ]);
+    expect(Number.isNaN(Date.parse(audit.calculatedAt))).toBe(false);
+  });
+
+  it("rejects inconsistent contracts", () => {
+    const payouts = (contract: Parameters<typeof calculatePayouts>[1]) => () =>
+      calculatePayouts(seasons, contract);
+
+    expect(payouts({ type: "put", trigger: 200, exit: 300, limit: 1000 })).toThrow(
+      InvalidContractError
+    );
+    expect(payouts({ type: "call", trigger: 200, limit: 1000 })).toThrow(InvalidContractError);
+    expect(
+      payouts({
+        type: "put",
+        trigger: 300,
+        exit: 200,
+        limit: 1000,
+        phases: [
+          { start: "2021-01-01", end: "2022-01-01", weight: 0.7 },
+          { start: "2023-01-01", end: "2024-01-01", weight: 0.7 },
+        ],
+      })
+    ).toThrow(/weights/);
+  });
+
+  it("refuses to pay on missing index values", () => {
+    const gappy = { ...seasons, values: [350, NaN, 150, 100] };
+
+    expect(() =>
+      calculatePayouts(gappy, { type: "put", trigger: 300, exit: 200, limit: 1000 })
+    ).toThrow(NoDataFoundError);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { InvalidSelectionError } from "../src/errors.js";
+import {
+  nextPeriodStart,
+  parseFrequency,
+  periodStart,
+  samplingInterval,
+  seasonalCycleIndex,
+  seasonalCycleLabels,
+} from "../src/math/periods.js";
+
+const at = (iso: string) => Date.parse(iso);
+
+describe("parseFrequency", () => {
+  it("reads shorthands and ISO 8601 durations", () => {
+    expect(parseFrequency("1D")).toEqual({ kind: "fixed", ms: 86_400_000, origin: 0 });
+    expect(parseFrequency("6H")).toEqual({ kind: "fixed", ms: 6 * 3_600_000, origin: 0 });
+    expect(parseFrequency("1Y")).toEqual({ kind: "calendar", months: 12 });
+    expect(parseFrequency("PT6H")).toEqual(parseFrequency("6H"));
+    expect(parseFrequency("P1W")).toEqual(parseFrequency("1W"));
+    expect(parseFrequency("P3M")).toEqual({ kind: "calendar", months: 3 });
+  });
+
+  it("rejects unknown and mixed calendar/fixed frequencies", () => {
+    expect(() => parseFrequency("fortnightly")).toThrow(InvalidSelectionError);
+    expect(() => parseFrequency("P1M1D")).toThrow(InvalidSelectionError);
+    expect(() => parseFrequency("0D")).toThrow(InvalidSelectionError);
+  });
+});
+
+describe("periodStart", () => {
+  it("aligns to UTC days, Monday weeks, months and years", () => {
+    const time = at("2024-02-15T13:30:00Z"); // a Thursday
+
+    expect(periodStart(time, parseFrequency("1D"))).toBe(at("2024-02-15T00:00:00Z"));
+    expect(periodStart(time, parseFrequency("1W"))).toBe(at("2024-02-12T00:00:00Z"));
+    expect(periodStart(time, parseFrequency("1M"))).toBe(at("2024-02-01T00:00:00Z"));
+    expect(periodStart(time, parseFrequency("3M"))).toBe(at("2024-01-01T00:00:00Z"));
+    expect(periodStart(time, parseFrequency("1Y"))).toBe(at("2024-01-01T00:00:00Z"));
+  });
+
+  it("steps over months of different lengths", () => {
+    const monthly = parseFrequency("1M");
+
+    expect(nextPeriodStart(at("2024-01-01T00:00:00Z"), monthly)).toBe(at("2024-02-01T00:00:00Z"));
+    expect(nextPeriodStart(at("2024-12-01T00:00:00Z"), monthly)).toBe(at("2025-01-01T00:00:00Z"));
+  });
+});
+
+describe("samplingInterval", () => {
+  it("uses the median gap so one missing step doesn't skew it", () => {
+    const hourly = [0, 1, 2, 4, 5].map((hour) => hour * 3_600_000);
+
+    expect(samplingInterval(hourly)).toBe(3_600_000);
+    expect(samplingInterval([42])).toBeUndefined();
+  });
+});
+
+describe("seasonalCycleIndex", () => {
+  it("keeps 1 March on day 60 and folds 29 February into 28 February", () => {
+    const dayOfYear = (iso: string) =>
+      seasonalCycleLabels("dayofyear")[seasonalCycleIndex(at(iso), "dayofyear")];
+
+    expect(dayOfYear("2023-03-01T00:00:00Z")).toBe(60);
+    expect(dayOfYear("2024-03-01T00:00:00Z")).toBe(60);
+    expect(dayOfYear("2024-02-29T12:00:00Z")).toBe(59);
+    expect(dayOfYear("2024-12-31T00:00:00Z")).toBe(365);
+  });
+
+  it("groups months into meteorological seasons", () => {
+    const season = (iso: string) =>
+      seasonalCycleLabels("season")[seasonalCycleIndex(at(iso), "season")];
+
+    expect(season("2024-12-15T00:00:00Z")).toBe("DJF");
+    expect(season("2024-01-15T00:00:00Z")).toBe("DJF");
+    expect(season("2024-05-31T00:00:00Z")).toBe("MAM");
+    expect(season("2024-08-01T00:00:00Z")).toBe("JJA");
+    expect(season("2024-11-30T00:00:00Z")).toBe("SON");
+    expect(seasonalCycleIndex(at("2024-07-04T00:00:00Z"), "month")).toBe(6);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { inverseProjection, registerProjection } from "../src/crs.js";
+import { InvalidSelectionError } from "../src/errors.js";
+import { parseProjDefinition } from "../src/math/projections.js";
+
+// Roughly 1 cm in degrees
+const CM = 1e-7;
+
+describe("parseProjDefinition", () => {
+  it("places the UTM central meridian on the false easting", () => {
+    const north = parseProjDefinition("+proj=utm +zone=32 +datum=WGS84");
+    const south = parseProjDefinition("+proj=utm +zone=32 +south +datum=WGS84");
+
+    // 0.9996 × the WGS84 meridian arc to 45°
+    const [x, y] = north.forward(9, 45);
+    expect(x).toBeCloseTo(500000, 2);
+    expect(y).toBeCloseTo(4982950.4, 1);
+    expect(south.forward(9, -45)[1]).toBeCloseTo(10000000 - 4982950.4, 1);
+  });
+
+  it("round-trips transverse Mercator, Mercator and Lambert projections", () => {
+    const cases: Array<[string, number, number]> = [
+      ["+proj=utm +zone=18 +datum=WGS84", -74.5, 40.75],
+      [
+        "+proj=tmerc +lat_0=53.5 +lon_0=-8 +k=0.99982 +x_0=600000 +y_0=750000 +ellps=GRS80",
+        -6.26,
+        53.35,
+      ],
+      ["+proj=merc +lon_0=0 +k=1 +x_0=0 +y_0=0 +datum=WGS84", -74.5, 40.75],
+      [
+        "+proj=lcc +lat_0=46.5 +lon_0=3 +lat_1=49 +lat_2=44 +x_0=700000 +y_0=6600000 +ellps=GRS80",
+        2.35,
+        48.86,
+      ],
+    ];
+
+    for (const [definition, lon, lat] of cases) {
+      const projection = parseProjDefinition(definition);
+      const [x, y] = projection.forward(lon, lat);
+      const [backLon, backLat] = projection.inverse(x, y);
+      expect(Math.abs(backLon - lon)).toBeLessThan(CM);
+      expect(Math.abs(backLat - lat)).toBeLessThan(CM);
+    }
+  });
+
+  it("rejects unsupported projections", () => {
+    expect(() => parseProjDefinition("+proj=somerc +lat_0=46.95")).toThrow(
+      InvalidSelectionError
+    );
+    expect(() => parseProjDefinition("proj=utm")).toThrow(InvalidSelectionError);
+  });
+});
+
+describe("inverseProjection", () => {
+  it("converts Web Mercator", () => {
+    const [lon, lat] = inverseProjection(3857)(20037508.342789244 / 2, 0);
+    expect(lon).toBeCloseTo(90, 9);
+    expect(lat).toBeCloseTo(0, 9);
+    expect(inverseProjection(3857)(0, 20037508.342789244)[1]).toBeCloseTo(85.0511287798, 9);
+  });
+
+  it("converts UTM zones", () => {
+    const [lon, lat] = inverseProjection(32632)(500000, 4982950.4);
+    expect(Math.abs(lon - 9)).toBeLessThan(CM);
+    expect(Math.abs(lat - 45)).toBeLessThan(CM);
+
+    const [southLon, southLat] = inverseProjection(32732)(500000, 10000000 - 4982950.4);
+    expect(Math.abs(southLon - 9)).toBeLessThan(CM);
+    expect(Math.abs(southLat + 45)).toBeLessThan(CM);
+  });
+
+  it("places national grid origins", () => {
+    const [lon, lat] = inverseProjection(2154)(700000, 6600000);
+    expect(lon).toBeCloseTo(3, 9);
+    expect(lat).toBeCloseTo(46.5, 9);
+
+    // Caister water tower; the Helmert shift is good to a few metres
+    const [bngLon, bngLat] = inverseProjection(27700)(651409.903, 313177.27);
+    expect(Math.abs(bngLon - 1.71607)).toBeLessThan(1e-4);
+    expect(Math.abs(bngLat - 52.65801)).toBeLessThan(1e-4);
+  });
+
+  it("uses registered projections and reports unknown codes", () => {
+    expect(() => inverseProjection(990001)).toThrow(InvalidSelectionError);
+
+    registerProjection(
+      990001,
+      "+proj=tmerc +lat_0=1.3667 +lon_0=103.8333 +k=1 +x_0=28001.642 +y_0=38744.572 +ellps=WGS84"
+    );
+    const [lon, lat] = inverseProjection(990001)(28001.642, 38744.572);
+    expect(lon).toBeCloseTo(103.8333, 9);
+    expect(lat).toBeCloseTo(1.3667, 9);
+
+    registerProjection(990001, (x, y) => [x / 1000, y / 1000]);
+    expect(inverseProjection(990001)(1000, 2000)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { percentileRank, quantile } from "../src/actions/quantile.js";
+import { InvalidSelectionError } from "../src/errors.js";
+
+// time x longitude: two cells with five daily values, one of them missing
+function createRainfallDataset(): Dataset {
+  const rainfall = new DataArray(
+    [
+      [1, 10],
+      [2, NaN],
+      [3, 30],
+      [4, 40],
+      [5, 50],
+    ],
+    {
+      dims: ["time", "longitude"],
+      coords: {
+        time: [1, 2, 3, 4, 5].map((day) => new Date(Date.UTC(2024, 0, day))),
+        longitude: [10, 11],
+      },
+      attrs: { units: "mm" },
+    }
+  );
+  return new Dataset({ rainfall }, { attrs: { source: "CHIRPS" } });
+}
+
+describe("quantile", () => {
+  it("reduces time per cell for a single quantile", async () => {
+    const result = await quantile(createRainfallDataset(), 0.5);
+    const rainfall = result.getVariable("rainfall");
+
+    expect(rainfall.dims).toEqual(["longitude"]);
+    expect(rainfall.data).toEqual([3, 35]);
+    expect(rainfall.attrs).toMatchObject({ units: "mm", quantile: 0.5 });
+    expect(result.attrs).toEqual({ source: "CHIRPS" });
+  });
+
+  it("adds a leading quantile dimension for several quantiles", async () => {
+    const result = await quantile(createRainfallDataset(), [0, 1]);
+    const rainfall = result.getVariable("rainfall");
+
+    expect(rainfall.dims).toEqual(["quantile", "longitude"]);
+    expect(rainfall.coords.quantile).toEqual([0, 1]);
+    expect(rainfall.data).toEqual([
+      [1, 10],
+      [5, 50],
+    ]);
+  });
+
+  it("rejects quantiles outside 0-1 and unknown dimensions", async () => {
+    await expect(quantile(createRainfallDataset(), 95)).rejects.toThrow(
+      InvalidSelectionError
+    );
+    await expect(
+      quantile(createRainfallDataset(), 0.5, { dim: "member" })
+    ).rejects.toThrow(InvalidSelectionError);
+  });
+});
+
+describe("percentileRank", () => {
+  it("gives the share of valid values at or below the value", async () => {
+    const result = await percentileRank(createRainfallDataset(), 30);
+    const rainfall = result.getVariable("rainfall");
+
+    expect(rainfall.dims).toEqual(["longitude"]);
+    expect(rainfall.data).toEqual([100, 50]);
+    expect(rainfall.attrs.units).toBe("%");
+    expect(result.attrs).toEqual({ source: "CHIRPS" });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { resample } from "../src/actions/resample.js";
+import { GeoTemporalDataset } from "../src/geotemporal-dataset.js";
+import { InvalidSelectionError } from "../src/errors.js";
+import type { DatasetMetadata } from "../src/types.js";
+
+const metadata: DatasetMetadata = {
+  dataset: "precipitation_total",
+  path: "ecmwf_era5-precipitation_total-finalized",
+  cid: "bafy-test",
+  source: "direct_cid",
+  fetchedAt: new Date("2024-01-01T00:00:00Z"),
+};
+
+// Hourly values from 2024-01-01T12:00Z for 36 hours: a partial first day,
+// a complete second day. Each hour carries 1mm at both grid points.
+function createHourlyDataset(): Dataset {
+  const hours = 36;
+  const start = Date.parse("2024-01-01T12:00:00Z");
+  const precipitation = new DataArray(
+    Array.from({ length: hours }, () => [1, 2]),
+    {
+      dims: ["time", "latitude"],
+      coords: {
+        time: Array.from({ length: hours }, (_, hour) => new Date(start + hour * 3_600_000)),
+        latitude: [10, 20],
+      },
+      attrs: { units: "mm" },
+    }
+  );
+  return new Dataset({ precipitation }, { attrs: { source: "ERA5" } });
+}
+
+describe("resample", () => {
+  it("turns hourly data into daily totals and labels the partial day", async () => {
+    const result = await resample(createHourlyDataset(), { frequency: "1D", method: "sum" });
+    const precipitation = result.getVariable("precipitation");
+
+    expect(result.coords.time).toEqual([
+      new Date("2024-01-01T00:00:00Z"),
+      new Date("2024-01-02T00:00:00Z"),
+    ]);
+    expect(precipitation.data).toEqual([
+      [12, 24],
+      [24, 48],
+    ]);
+    expect(precipitation.attrs).toMatchObject({
+      units: "mm",
+      cell_methods: "time: sum",
+      partial_periods: ["2024-01-01T00:00:00.000Z"],
+    });
+    expect(result.attrs).toEqual({ source: "ERA5" });
+  });
+
+  it("drops partial periods on request", async () => {
+    const result = await resample(createHourlyDataset(), {
+      frequency: "P1D",
+      method: "max",
+      partial: "drop",
+    });
+
+    expect(result.coords.time).toEqual([new Date("2024-01-02T00:00:00Z")]);
+    expect(result.getVariable("precipitation").data).toEqual([[1, 2]]);
+  });
+
+  it("infers the time dimension through GeoTemporalDataset", async () => {
+    const dataset = new GeoTemporalDataset(createHourlyDataset(), metadata);
+
+    const sixHourly = await dataset.resample({ frequency: "PT6H", method: "first" });
+
+    expect(sixHourly.coords.time).toHaveLength(6);
+    expect(sixHourly.getVariable("precipitation").attrs.partial_periods).toBeUndefined();
+  });
+
+  it("rejects a named dimension the dataset does not have", async () => {
+    const dataset = new GeoTemporalDataset(createHourlyDataset(), metadata);
+
+    await expect(
+      dataset.resample({ frequency: "1D", method: "sum", dimension: "valid_time" })
+    ).rejects.toThrow(InvalidSelectionError);
+  });
+});
@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { OperationAbortedError, StacServerError } from "../src/errors.js";
+import { recordAttempt, recordStoreOpen } from "../src/instrumentation.js";
+import { openDatasetFromCid } from "../src/ipfs/open-dataset.js";
+import { isRetriableError, retryDelayMs, withRetry } from "../src/retry.js";
+import { resolveCidFromStacServer } from "../src/stac/stac-server.js";
+import type { RetryPolicy } from "../src/types.js";
+
+const openIpfsStoreMock = vi.hoisted(() => vi.fn());
+const openZarrMock = vi.hoisted(() => vi.fn());
+
+vi.mock("@dclimate/jaxray", () => ({
+  Dataset: {
+    open_zarr: openZarrMock,
+  },
+  openIpfsStore: openIpfsStoreMock,
+  createIpfsElements: (gatewayUrl: string) => ({ gatewayUrl }),
+}));
+
+vi.mock("../src/instrumentation.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/instrumentation.js")>()),
+  recordAttempt: vi.fn(),
+  recordStoreOpen: vi.fn(),
+}));
+
+const fast: RetryPolicy = { maxAttempts: 3, initialDelayMs: 1, jitter: 0 };
+
+describe("withRetry", () => {
+  beforeEach(() => {
+    vi.mocked(recordAttempt).mockClear();
+  });
+
+  it("retries retriable failures and records every attempt", async () => {
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("ECONNREFUSED"))
+      .mockResolvedValueOnce("ok");
+
+    await expect(withRetry(task, fast, { operation: "test" })).resolves.toBe("ok");
+
+    expect(task.mock.calls).toEqual([[1], [2]]);
+    expect(vi.mocked(recordAttempt).mock.calls.map(([event]) => event)).toEqual([
+      { operation: "test", attempt: 1, status: "connection_error", delayMs: 1 },
+      { operation: "test", attempt: 2, status: "ok" },
+    ]);
+  });
+
+  it("gives up after maxAttempts with the last error", async () => {
+    const task = vi.fn(async (attempt: number) => {
+      throw new Error(`ETIMEDOUT ${attempt}`);
+    });
+
+    await expect(withRetry(task, fast, { operation: "test" })).rejects.toThrow(
+      "ETIMEDOUT 3"
+    );
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("runs once without a policy and for errors retryOn rejects", async () => {
+    const task = vi.fn(async () => {
+      throw new Error("ECONNREFUSED");
+    });
+
+    await expect(withRetry(task, undefined, { operation: "test" })).rejects.toThrow();
+    await expect(
+      withRetry(task, { ...fast, retryOn: () => false }, { operation: "test" })
+    ).rejects.toThrow();
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops waiting for the next attempt once aborted", async () => {
+    const controller = new AbortController();
+    const task = vi.fn(async () => {
+      controller.abort();
+      throw new Error("ECONNREFUSED");
+    });
+
+    const error = await withRetry(task, fast, {
+      operation: "test",
+      signal: controller.signal,
+      phase: "open",
+    }).catch((e: unknown) => e);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(Error);
+  });
+});
+
+describe("retry policy defaults", () => {
+  it("backs off exponentially up to maxDelayMs", () => {
+    const policy = { initialDelayMs: 100, backoffFactor: 3, maxDelayMs: 500, jitter: 0 };
+
+    expect([1, 2, 3].map((retry) => retryDelayMs(policy, retry))).toEqual([100, 300, 500]);
+  });
+
+  it("keeps jittered delays within the randomised fraction", () => {
+    const delay = retryDelayMs({ initialDelayMs: 1000, jitter: 0.25 }, 1);
+
+    expect(delay).toBeGreaterThanOrEqual(750);
+    expect(delay).toBeLessThanOrEqual(1000);
+  });
+
+  it("retries retriable and connection errors but never cancellations", () => {
+    expect(isRetriableError(new StacServerError("down", { context: { status: 503 } }))).toBe(true);
+    expect(isRetriableError(new StacServerError("bad", { context: { status: 400 } }))).toBe(false);
+    expect(isRetriableError(new Error("Connection refused"))).toBe(true);
+    expect(isRetriableError(new Error("invalid zarr metadata"))).toBe(false);
+    expect(
+      isRetriableError(new OperationAbortedError("slow", { phase: "open", timedOut: true }))
+    ).toBe(false);
+  });
+});
+
+describe("retried network paths", () => {
+  beforeEach(() => {
+    openIpfsStoreMock.mockReset();
+    openZarrMock.mockReset();
+    vi.mocked(recordStoreOpen).mockClear();
+  });
+
+  it("retries a STAC server search that answers 503", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("busy", { status: 503 }))
+      .mockResolvedValueOnce(
+        Response.json({
+          type: "FeatureCollection",
+          features: [
+            {
+              type: "Feature",
+              id: "ecmwf_era5-temperature_2m-finalized",
+              collection: "ecmwf_era5",
+              properties: { "dclimate:variant": "finalized" },
+              assets: { data: { href: "ipfs://bafy-after-retry" } },
+            },
+          ],
+        })
+      );
+
+    const resolved = await resolveCidFromStacServer(
+      "ecmwf_era5",
+      "temperature_2m",
+      undefined,
+      "https://stac.test",
+      { fetch: fetchMock, retry: fast }
+    );
+
+    expect(resolved.cid).toBe("bafy-after-retry");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries a store open and splits store counters by attempt", async () => {
+    const store = { get: vi.fn(async () => new Uint8Array([1])) };
+    openIpfsStoreMock
+      .mockRejectedValueOnce(new Error("connect ECONNREFUSED"))
+      .mockResolvedValueOnce({ store });
+    openZarrMock.mockResolvedValue({ kind: "dataset" });
+
+    await openDatasetFromCid("bafyretry", { retry: fast });
+
+    expect(openIpfsStoreMock).toHaveBeenCalledTimes(2);
+    expect(
+      vi.mocked(recordStoreOpen).mock.calls.map(([record]) => [record.attempt, record.status])
+    ).toEqual([
+      [1, "connection_error"],
+      [2, "ok"],
+    ]);
+  });
+
+  it("does not retry a store that fails to open for a non-network reason", async () => {
+    openIpfsStoreMock.mockRejectedValue(new Error("invalid zarr metadata"));
+
+    await expect(openDatasetFromCid("bafybad", { retry: fast })).rejects.toThrow(
+      "invalid zarr metadata"
+    );
+    expect(openIpfsStoreMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries chunk reads of the opened store", async () => {
+    const get = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Timeout reading chunk"))
+      .mockResolvedValueOnce(new Uint8Array([7]));
+    openIpfsStoreMock.mockResolvedValue({ store: { get } });
+    openZarrMock.mockImplementation(async (store: { get: (key: string) => unknown }) => ({
+      chunk: await store.get("/temperature/c/0"),
+    }));
+
+    const dataset = await openDatasetFromCid("bafychunks", { retry: fast });
+
+    expect(dataset).toEqual({ chunk: new Uint8Array([7]) });
+    expect(get.mock.calls).toEqual([["/temperature/c/0"], ["/temperature/c/0"]]);
+  });
+});
@@ -77,4 +77,46 @@ describe("GeoSelectionOptions", () => {
       }),
     ).rejects.toThrow(InvalidSelectionError);
   });
+
+  it("matches query longitudes to a 0–360 dataset and crosses the antimeridian", async () => {
+    const pacific = [170, 190, 286.01].map((longitude, index) => ({
+      latitude: 0,
+      longitude,
+      time: "2023-01-01T00:00:00Z",
+      value: index,
+    }));
+    const dataset = new GeoTemporalDataset(
+      createMockDataset(pacific) as never,
+      metadata,
+    );
+
+    const acrossDateLine = await dataset.select({ bounds: [165, -5, -165, 5] });
+    const americas = await dataset.select({ bounds: [-75, -5, -73, 5] });
+    const point = await dataset.point(0, -73.99);
+
+    expect(
+      (await acrossDateLine.toRecords("precipitation")).map(
+        (record) => record.longitude,
+      ),
+    ).toEqual([170, 190]);
+    expect(
+      (await americas.toRecords("precipitation")).map(
+        (record) => record.value,
+      ),
+    ).toEqual([2]);
+    expect(
+      (await point.toRecords("precipitation")).map((record) => record.value),
+    ).toEqual([2]);
+  });
+
+  it("rejects bounds with equal west and east", async () => {
+    const dataset = new GeoTemporalDataset(
+      createMockDataset() as never,
+      metadata,
+    );
+
+    await expect(
+      dataset.select({ bounds: [-74, 40, -74, 41] }),
+    ).rejects.toThrow(InvalidSelectionError);
+  });
 });
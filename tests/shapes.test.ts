@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { Dataset, DataArray } from "@dclimate/jaxray";
-import { points, circle, rectangle } from "../src/shapes/index.js";
+import { points, circle, rectangle, polygon } from "../src/shapes/index.js";
 import { InvalidSelectionError } from "../src/errors.js";
 import { isDatasetEmpty } from "../src/utils.js";
 
@@ -41,10 +41,13 @@ function createTestDataset(): Dataset {
     }
   );
 
-  return new Dataset({
-    temperature: temperatureData,
-    humidity: humidityData,
-  });
+  return new Dataset(
+    {
+      temperature: temperatureData,
+      humidity: humidityData,
+    },
+    { attrs: { _zarr_cid: "bafy-test" } }
+  );
 }
 
 describe("Shapes Module", () => {
@@ -77,6 +80,16 @@ describe("Shapes Module", () => {
       expect(tempData.length).toBeGreaterThan(0);
     });
 
+    it("should keep the requested coordinates along the point dimension", async () => {
+      const result = await points(dataset, [40.01, 40.49], [-74.0, -73.52]);
+
+      expect(result.coords).toMatchObject({
+        requested_latitude: [40.01, 40.49],
+        requested_longitude: [-74.0, -73.52],
+      });
+      expect(result.attrs).toEqual({ _zarr_cid: "bafy-test" });
+    });
+
     it("should throw error if point arrays have different lengths", async () => {
       await expect(
         points(dataset, [40.0, 40.5], [-74.0])
@@ -105,12 +118,30 @@ describe("Shapes Module", () => {
       expect(result).toBeDefined();
     });
 
-    it("should throw error if EPSG CRS transformation requested", async () => {
+    it("should throw error for an unknown EPSG code", async () => {
       await expect(
-        points(dataset, [40.0], [-74.0], { epsgCrs: 3857 })
+        points(dataset, [40.0], [-74.0], { epsgCrs: 990999 })
       ).rejects.toThrow(InvalidSelectionError);
     });
 
+    it("should reproject projected coordinates to latitude/longitude", async () => {
+      // Web Mercator easting/northing of 40°N, 74°W
+      const radius = 6378137;
+      const x = radius * ((-74 * Math.PI) / 180);
+      const y = radius * Math.log(Math.tan(Math.PI / 4 + (40 * Math.PI) / 360));
+
+      const result = await points(dataset, [y], [x], {
+        epsgCrs: 3857,
+        snapToGrid: false,
+        tolerance: 1e-6,
+      });
+      const expected = await points(dataset, [40.0], [-74.0]);
+
+      expect(result.getVariable("temperature").data).toEqual(
+        expected.getVariable("temperature").data
+      );
+    });
+
     it("should perform nearest neighbor selection by default", async () => {
       // Request a point that's close but not exact
       const result = await points(dataset, [40.25], [-73.75]);
@@ -355,6 +386,22 @@ describe("Shapes Module", () => {
     });
   });
 
+  describe("circle() across the antimeridian", () => {
+    it("should stitch columns on both sides of the antimeridian", async () => {
+      const pacific = new Dataset({
+        temperature: new DataArray([[1, 2, 3, 4]], {
+          dims: ["latitude", "longitude"],
+          coords: { latitude: [0], longitude: [-179.5, -150, 100, 179.5] },
+        }),
+      });
+
+      const result = await circle(pacific, 0, 180, 100);
+
+      expect(result.coords.longitude).toEqual([179.5, -179.5]);
+      expect(result.getVariable("temperature").data).toEqual([[4, 1]]);
+    });
+  });
+
   describe("rectangle()", () => {
     let dataset: Dataset;
 
@@ -388,16 +435,42 @@ describe("Shapes Module", () => {
       ).rejects.toThrow(InvalidSelectionError);
     });
 
-    it("should throw error if minLon >= maxLon", async () => {
-      await expect(
-        rectangle(dataset, 40.0, -73.5, 40.5, -74.0)
-      ).rejects.toThrow(InvalidSelectionError);
-
+    it("should throw error if minLon equals maxLon", async () => {
       await expect(
         rectangle(dataset, 40.0, -74.0, 40.5, -74.0)
       ).rejects.toThrow(InvalidSelectionError);
     });
 
+    it("should stitch boxes crossing the antimeridian", async () => {
+      const pacific = new Dataset({
+        temperature: new DataArray([[1, 2, 3, 4]], {
+          dims: ["latitude", "longitude"],
+          coords: { latitude: [0], longitude: [-175, -170, 0, 175] },
+        }),
+      });
+
+      // minLon > maxLon: from 170°E eastward to 172°W
+      const result = await rectangle(pacific, -1, 170, 1, -172);
+
+      expect(result.coords.longitude).toEqual([175, -175]);
+      expect(result.getVariable("temperature").data).toEqual([[4, 1]]);
+    });
+
+    it("should match query longitudes to 0-360 datasets", async () => {
+      const global = new Dataset({
+        temperature: new DataArray([[1, 2, 3, 4]], {
+          dims: ["latitude", "longitude"],
+          coords: { latitude: [0], longitude: [0, 5, 286, 355] },
+        }),
+      });
+
+      const americas = await rectangle(global, -1, -75, 1, -73);
+      const greenwich = await rectangle(global, -1, -6, 1, 6);
+
+      expect(americas.coords.longitude).toEqual([286]);
+      expect(greenwich.coords.longitude).toEqual([355, 0, 5]);
+    });
+
     it("should throw error if coordinates not found", async () => {
       const badDataset = new Dataset({
         temperature: new DataArray([20, 21], {
@@ -469,6 +542,97 @@ describe("Shapes Module", () => {
     });
   });
 
+  describe("polygon()", () => {
+    let dataset: Dataset;
+
+    beforeEach(() => {
+      dataset = createTestDataset();
+    });
+
+    // Triangle covering the south-west half of the grid
+    const triangle = {
+      type: "Polygon" as const,
+      coordinates: [
+        [
+          [-74.1, 39.9],
+          [-72.8, 39.9],
+          [-74.1, 41.2],
+          [-74.1, 39.9],
+        ],
+      ],
+    };
+
+    it("should keep cells whose centre is inside and mask the rest", async () => {
+      const result = await polygon(dataset, triangle);
+
+      expect(result.coords.latitude).toEqual([40.0, 40.5, 41.0]);
+      expect(result.coords.longitude).toEqual([-74.0, -73.5, -73.0]);
+      const tempData = result.getVariable("temperature").data as number[][];
+      expect(tempData[0][0]).toBe(20);
+      expect(tempData[1][1]).toBe(20);
+      expect(tempData[2][0]).toBe(18);
+      expect(isNaN(tempData[2][2])).toBe(true);
+    });
+
+    it("should exclude holes", async () => {
+      const withHole = {
+        type: "Polygon" as const,
+        coordinates: [
+          [
+            [-74.25, 39.75],
+            [-72.75, 39.75],
+            [-72.75, 41.25],
+            [-74.25, 41.25],
+            [-74.25, 39.75],
+          ],
+          [
+            [-73.6, 40.4],
+            [-73.4, 40.4],
+            [-73.4, 40.6],
+            [-73.6, 40.6],
+            [-73.6, 40.4],
+          ],
+        ],
+      };
+
+      const result = await polygon(dataset, withHole);
+      const tempData = result.getVariable("temperature").data as number[][];
+
+      expect(isNaN(tempData[1][1])).toBe(true);
+      expect(tempData[0][0]).toBe(20);
+    });
+
+    it("should crop to the polygon and include touched cells with overlap", async () => {
+      // A sliver near the centre cell that contains no cell centre
+      const sliver = {
+        type: "MultiPolygon" as const,
+        coordinates: [
+          [
+            [
+              [-73.45, 40.55],
+              [-73.4, 40.55],
+              [-73.4, 40.6],
+              [-73.45, 40.6],
+              [-73.45, 40.55],
+            ],
+          ],
+        ],
+      };
+
+      expect(isDatasetEmpty(await polygon(dataset, sliver))).toBe(true);
+
+      const result = await polygon(dataset, sliver, { inclusion: "overlap" });
+      expect(result.coords.latitude).toEqual([40.5]);
+      expect(result.coords.longitude).toEqual([-73.5]);
+    });
+
+    it("should reject invalid geometries", async () => {
+      await expect(
+        polygon(dataset, { type: "Polygon", coordinates: [[[0, 0], [1, 1]]] })
+      ).rejects.toThrow(InvalidSelectionError);
+    });
+  });
+
   describe("Integration Tests", () => {
     let dataset: Dataset;
 
@@ -1,7 +1,9 @@
 import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
 import {
+  listAvailableDatasetsFromStacServer,
   resolveCidFromStacServer,
   resolveDatasetCidFromStacServer,
+  searchStacServer,
   DEFAULT_STAC_SERVER_URL,
 } from "../src/stac/stac-server.js";
 
@@ -209,6 +211,140 @@ describe("STAC Server", () => {
     });
   });
 
+  describe("pagination", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function feature(dataset: string, variant: string) {
+      return {
+        type: "Feature",
+        id: `ecmwf_era5-${dataset}-${variant}`,
+        collection: "ecmwf_era5",
+        properties: {
+          "dclimate:dataset_id": dataset,
+          "dclimate:variant": variant,
+          "dclimate:latest_dataset_cid": `ipfs://bafy-${dataset}-${variant}`,
+        },
+        assets: { data: { href: `ipfs://bafy-${dataset}-${variant}` } },
+      };
+    }
+
+    function jsonResponse(body: unknown) {
+      return { ok: true, json: async () => body, text: async () => "" };
+    }
+
+    it("follows GET next links", async () => {
+      const fetchMock = vi.fn(async (url: string) => {
+        if (url === "https://example.test/search") {
+          return jsonResponse({
+            features: [feature("temperature_2m", "finalized")],
+            links: [{ rel: "next", href: "/search?token=page2" }],
+          });
+        }
+        return jsonResponse({
+          features: [feature("precipitation_total", "finalized")],
+          links: [],
+        });
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const ids: string[] = [];
+      for await (const item of searchStacServer({ limit: 1 }, "https://example.test")) {
+        ids.push(item.id);
+      }
+
+      expect(ids).toEqual([
+        "ecmwf_era5-temperature_2m-finalized",
+        "ecmwf_era5-precipitation_total-finalized",
+      ]);
+      expect(fetchMock.mock.calls[1][0]).toBe("https://example.test/search?token=page2");
+      expect(fetchMock.mock.calls[1][1]).toMatchObject({ method: "GET" });
+    });
+
+    it("follows POST next links and merges their body", async () => {
+      const bodies: unknown[] = [];
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (_url: string, init: { body?: string }) => {
+          const body = JSON.parse(init.body ?? "{}");
+          bodies.push(body);
+          if (!body.token) {
+            return jsonResponse({
+              features: [feature("temperature_2m", "non_finalized")],
+              links: [
+                {
+                  rel: "next",
+                  href: "https://example.test/search",
+                  method: "POST",
+                  body: { token: "page2" },
+                  merge: true,
+                },
+              ],
+            });
+          }
+          return jsonResponse({ features: [feature("temperature_2m", "finalized")] });
+        })
+      );
+
+      const result = await resolveCidFromStacServer(
+        "ecmwf_era5",
+        "temperature_2m",
+        "finalized",
+        "https://example.test"
+      );
+
+      expect(result.cid).toBe("bafy-temperature_2m-finalized");
+      expect(bodies).toEqual([
+        { limit: 100, collections: ["ecmwf_era5"] },
+        { limit: 100, collections: ["ecmwf_era5"], token: "page2" },
+      ]);
+    });
+
+    it("stops when a server hands back the same page again", async () => {
+      const fetchMock = vi.fn(async () =>
+        jsonResponse({
+          features: [feature("temperature_2m", "finalized")],
+          links: [{ rel: "next", href: "https://example.test/search?token=same" }],
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const items = [];
+      for await (const item of searchStacServer({}, "https://example.test")) {
+        items.push(item);
+      }
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(items).toHaveLength(2);
+    });
+
+    it("lists datasets from every search page", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (url: string) => {
+          if (url.endsWith("/collections")) {
+            return jsonResponse({ collections: [{ id: "ecmwf_era5", title: "ERA5" }] });
+          }
+          if (url.endsWith("token=page2")) {
+            return jsonResponse({ features: [feature("precipitation_total", "finalized")] });
+          }
+          return jsonResponse({
+            features: [feature("temperature_2m", "finalized")],
+            links: [{ rel: "next", href: "https://example.test/search?token=page2" }],
+          });
+        })
+      );
+
+      const catalog = await listAvailableDatasetsFromStacServer("https://example.test");
+
+      expect(catalog[0].datasets.map((d) => d.dataset)).toEqual([
+        "temperature_2m",
+        "precipitation_total",
+      ]);
+    });
+  });
+
   describe("resolveCidFromStacServer", () => {
     it("returns CID as string without ipfs:// prefix", async () => {
       if (!serverAvailable || !availableDataset) {
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { fromNested, groupAlongAxes, toNested } from "../src/math/ndarray.js";
+import {
+  cosLatitudeWeight,
+  percentileRankOfSorted,
+  quantileOfSorted,
+  reduceValues,
+  sortedValid,
+} from "../src/math/statistics.js";
+
+describe("reduceValues", () => {
+  it("skips NaNs for every method", () => {
+    const values = [1, NaN, 3, 5];
+
+    expect(reduceValues(values, "mean")).toBe(3);
+    expect(reduceValues(values, "sum")).toBe(9);
+    expect(reduceValues(values, "min")).toBe(1);
+    expect(reduceValues(values, "max")).toBe(5);
+    expect(reduceValues(values, "std")).toBeCloseTo(Math.sqrt(8 / 3), 10);
+  });
+
+  it("weights the mean and std but not the sum, min and max", () => {
+    const values = [10, 20];
+    const weights = [3, 1];
+
+    expect(reduceValues(values, "mean", weights)).toBe(12.5);
+    expect(reduceValues(values, "sum", weights)).toBe(30);
+    expect(reduceValues(values, "std", weights)).toBeCloseTo(Math.sqrt(18.75), 10);
+    expect(reduceValues(values, "max", weights)).toBe(20);
+  });
+
+  it("returns NaN when nothing is left to reduce", () => {
+    expect(reduceValues([NaN, NaN], "mean")).toBeNaN();
+    expect(reduceValues([], "max")).toBeNaN();
+  });
+});
+
+describe("cosLatitudeWeight", () => {
+  it("shrinks toward the poles", () => {
+    expect(cosLatitudeWeight(0)).toBe(1);
+    expect(cosLatitudeWeight(60)).toBeCloseTo(0.5, 10);
+    expect(cosLatitudeWeight(-90)).toBeCloseTo(0, 10);
+  });
+});
+
+describe("ndarray helpers", () => {
+  it("round-trips nested data through a flat view", () => {
+    const nested = [
+      [[1, 2], [3, 4]],
+      [[5, null], [7, 8]],
+    ];
+
+    const array = fromNested(nested, 3);
+
+    expect(array.shape).toEqual([2, 2, 2]);
+    expect(array.values).toEqual([1, 2, 3, 4, 5, NaN, 7, 8]);
+    expect(toNested(array.values, array.shape)).toEqual([
+      [[1, 2], [3, 4]],
+      [[5, NaN], [7, 8]],
+    ]);
+    expect(toNested([42], [])).toBe(42);
+  });
+
+  it("flattens arrays with an empty dimension", () => {
+    expect(fromNested([], 3)).toEqual({ values: [], shape: [0, 0, 0] });
+    expect(fromNested([[], []], 3)).toEqual({ values: [], shape: [2, 0, 0] });
+  });
+
+  it("groups elements by the kept axes", () => {
+    // time x latitude x longitude, keeping time
+    const { shape, groups } = groupAlongAxes([2, 2, 3], [0]);
+
+    expect(shape).toEqual([2]);
+    expect(groups).toEqual([
+      [0, 1, 2, 3, 4, 5],
+      [6, 7, 8, 9, 10, 11],
+    ]);
+  });
+});
+
+describe("quantiles and percentile ranks", () => {
+  const sorted = sortedValid([4, NaN, 1, 3, 2, 5]);
+
+  it("drops NaNs before sorting", () => {
+    expect(sorted).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("interpolates quantiles linearly", () => {
+    expect(quantileOfSorted(sorted, 0)).toBe(1);
+    expect(quantileOfSorted(sorted, 0.5)).toBe(3);
+    expect(quantileOfSorted(sorted, 0.9)).toBeCloseTo(4.6, 10);
+    expect(quantileOfSorted(sorted, 1)).toBe(5);
+    expect(quantileOfSorted([], 0.5)).toBeNaN();
+  });
+
+  it("ranks values against the distribution", () => {
+    expect(percentileRankOfSorted(sorted, 3)).toBe(60);
+    expect(percentileRankOfSorted(sorted, 0)).toBe(0);
+    expect(percentileRankOfSorted(sorted, 10)).toBe(100);
+    expect(percentileRankOfSorted([1, 1, 2], 1)).toBeCloseTo(200 / 3, 10);
+    expect(percentileRankOfSorted(sorted, NaN)).toBeNaN();
+  });
+});
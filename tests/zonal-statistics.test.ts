@@ -0,0 +1,190 @@
+import { describe, expect, it, vi } from "vitest";
+import { Dataset, DataArray } from "@dclimate/jaxray";
+import { zonalStatistics } from "../src/actions/zonal-statistics.js";
+import { GeoTemporalDataset } from "../src/geotemporal-dataset.js";
+import { InvalidSelectionError } from "../src/errors.js";
+import type {
+  DatasetMetadata,
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+} from "../src/types.js";
+
+const metadata: DatasetMetadata = {
+  dataset: "precipitation",
+  path: "chirps-precipitation-final",
+  cid: "bafy-test",
+  source: "direct_cid",
+  fetchedAt: new Date("2024-01-01T00:00:00Z"),
+};
+
+const times = [new Date("2024-01-01T00:00:00Z"), new Date("2024-01-02T00:00:00Z")];
+
+// time x latitude x longitude on a 1° grid, latitudes 0-2 and longitudes 10-12
+function createPrecipitationDataset(): Dataset {
+  const precipitation = new DataArray(
+    [
+      [
+        [1, 2, 3],
+        [4, 5, 6],
+        [7, 8, 9],
+      ],
+      [
+        [10, NaN, 30],
+        [40, 50, 60],
+        [70, 80, 90],
+      ],
+    ],
+    {
+      dims: ["time", "latitude", "longitude"],
+      coords: { time: times, latitude: [0, 1, 2], longitude: [10, 11, 12] },
+      attrs: { units: "mm" },
+    }
+  );
+  return new Dataset({ precipitation });
+}
+
+function plot(
+  code: string | undefined,
+  west: number,
+  south: number,
+  east: number,
+  north: number
+): GeoJsonFeature {
+  return {
+    type: "Feature",
+    geometry: {
+      type: "Polygon",
+      coordinates: [
+        [
+          [west, south],
+          [east, south],
+          [east, north],
+          [west, north],
+          [west, south],
+        ],
+      ],
+    },
+    properties: code === undefined ? {} : { code },
+  };
+}
+
+const plots: GeoJsonFeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    // Bottom-left 2x2 cells
+    plot("A", 9.5, -0.5, 11.5, 1.5),
+    // Right column
+    plot("B", 11.5, -0.5, 12.5, 2.5),
+    // Away from the grid
+    plot("C", 50, 50, 51, 51),
+  ],
+};
+
+describe("zonalStatistics", () => {
+  it("summarises each feature per time step, keyed by a property", async () => {
+    const stats = await zonalStatistics(createPrecipitationDataset(), plots, {
+      keyProperty: "code",
+    });
+
+    expect(Object.keys(stats)).toEqual(["A", "B", "C"]);
+    expect(stats.A).toEqual([
+      { time: times[0], mean: 3, min: 1, max: 5, count: 4 },
+      { time: times[1], mean: 100 / 3, min: 10, max: 50, count: 3 },
+    ]);
+    expect(stats.B[1]).toEqual({ time: times[1], mean: 60, min: 30, max: 90, count: 3 });
+    expect(stats.C[0]).toMatchObject({ time: times[0], count: 0 });
+    expect(stats.C[0].mean).toBeNaN();
+  });
+
+  it("reads the union of all features' cells once", async () => {
+    const dataset = createPrecipitationDataset();
+    const isel = vi.spyOn(dataset, "isel");
+
+    await zonalStatistics(dataset, plots, { keyProperty: "code" });
+
+    expect(isel).toHaveBeenCalledTimes(1);
+    expect(isel).toHaveBeenCalledWith({ latitude: [0, 1, 2] });
+  });
+
+  it("keys by feature id or position and limits the statistics", async () => {
+    const collection: GeoJsonFeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        { ...plot(undefined, 9.5, -0.5, 10.5, 0.5), id: "plot-1" },
+        plot(undefined, 9.5, 0.5, 10.5, 1.5),
+      ],
+    };
+
+    const stats = await zonalStatistics(createPrecipitationDataset(), collection, {
+      statistics: ["max"],
+    });
+
+    expect(stats).toEqual({
+      "plot-1": [
+        { time: times[0], max: 1 },
+        { time: times[1], max: 10 },
+      ],
+      "1": [
+        { time: times[0], max: 4 },
+        { time: times[1], max: 40 },
+      ],
+    });
+  });
+
+  it("matches features drawn in -180–180 against a 0–360 grid", async () => {
+    const pacific = new Dataset({
+      precipitation: new DataArray(
+        [
+          [
+            [1, 2, 3, 4],
+            [5, 6, 7, 8],
+          ],
+        ],
+        {
+          dims: ["time", "latitude", "longitude"],
+          coords: { time: [times[0]], latitude: [0, 1], longitude: [0, 179, 181, 359] },
+        }
+      ),
+    });
+    const collection: GeoJsonFeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        // Across the antimeridian, 178°E to 178°W
+        plot("dateline", 178, -0.5, -178, 0.5),
+        // Across Greenwich
+        plot("greenwich", -2, 0.5, 2, 1.5),
+      ],
+    };
+
+    const stats = await zonalStatistics(pacific, collection, { keyProperty: "code" });
+
+    expect(stats.dateline[0]).toMatchObject({ mean: 2.5, min: 2, max: 3, count: 2 });
+    expect(stats.greenwich[0]).toMatchObject({ mean: 6.5, min: 5, max: 8, count: 2 });
+  });
+
+  it("rejects duplicate or missing keys", async () => {
+    const dataset = createPrecipitationDataset();
+    const twice: GeoJsonFeatureCollection = {
+      type: "FeatureCollection",
+      features: [plot("A", 9.5, -0.5, 10.5, 0.5), plot("A", 9.5, 0.5, 10.5, 1.5)],
+    };
+
+    await expect(
+      zonalStatistics(dataset, twice, { keyProperty: "code" })
+    ).rejects.toThrow(InvalidSelectionError);
+    await expect(
+      zonalStatistics(dataset, plots, { keyProperty: "name" })
+    ).rejects.toThrow(InvalidSelectionError);
+  });
+
+  it("is available on GeoTemporalDataset", async () => {
+    const dataset = new GeoTemporalDataset(createPrecipitationDataset(), metadata);
+
+    const stats = await dataset.zonalStatistics(plots, {
+      keyProperty: "code",
+      statistics: ["count"],
+    });
+
+    expect(stats.A.map((record) => record.count)).toEqual([4, 3]);
+  });
+});